@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import fs from 'fs';
+import { HyperManagerAPIClient, clientOptionsFromEnv } from '../dist/api-client.js';
+import { EXPORT_FORMATS, exportProject, isExportFormat } from '../dist/backlog-export.js';
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    project: undefined,
+    format: 'markdown',
+    output: undefined
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--format' && i + 1 < args.length) {
+      options.format = args[i + 1];
+      i++;
+    } else if (arg === '--output' && i + 1 < args.length) {
+      options.output = args[i + 1];
+      i++;
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(`
+Usage: node export-project.js <project> [options]
+
+Writes a project's actors, stories and feature hierarchy as Markdown
+(headings and checklists), CSV (one row per feature) or normalized JSON.
+
+Options:
+  --format <format>       ${EXPORT_FORMATS.join(', ')} (default: markdown)
+  --output <file>         File to write (default: standard output)
+  --help, -h             Show this help message
+
+Environment:
+  HYPERMANAGER_API_KEY    API key used for the HyperManager API (required)
+  HYPERMANAGER_BASE_URL   API base URL, e.g. the mock server (optional)
+
+Examples:
+  node export-project.js DEMO --format csv --output demo.csv
+  node export-project.js DEMO --format json > demo.json
+  node export-project.js DEMO --format jira-csv --output demo-jira.csv
+      `);
+      process.exit(0);
+    } else if (!options.project) {
+      options.project = arg;
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+
+  if (!options.project) {
+    console.error('Error: a project code is required (see --help)');
+    process.exit(1);
+  }
+  if (!isExportFormat(options.format)) {
+    console.error(`Error: Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  const apiKey = process.env.HYPERMANAGER_API_KEY;
+  if (!apiKey) {
+    console.error('Error: HYPERMANAGER_API_KEY is not set');
+    process.exit(1);
+  }
+
+  try {
+    const client = new HyperManagerAPIClient(apiKey, clientOptionsFromEnv());
+    const content = exportProject(await client.getProjectTree(options.project), options.format);
+
+    if (options.output) {
+      fs.writeFileSync(options.output, content, 'utf8');
+      console.error(`✅ Exported project ${options.project} as ${options.format} to ${options.output}`);
+    } else {
+      process.stdout.write(content);
+    }
+  } catch (error) {
+    console.error('Error exporting project:', error.message);
+    process.exit(1);
+  }
+}
+
+main();
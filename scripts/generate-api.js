@@ -0,0 +1,353 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parse } from 'yaml';
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const INPUT = path.join(ROOT, 'swagger.yml');
+const OUTPUT = path.join(ROOT, 'src', 'generated', 'hypermanager-api.ts');
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+// Permission resource of each first path segment; anything else is a utility
+const PATH_RESOURCES = {
+  diagrams: 'diagrams',
+  diagram: 'diagrams',
+  projects: 'projects',
+  'project-command': 'projects',
+  'story-command': 'stories',
+  featuretypes: 'features',
+  'feature-command': 'features',
+  'actor-command': 'actors'
+};
+
+// GETs that change data upstream: write permission, and never retried
+const UNSAFE_GETS = ['refresh-feature-types', 'normalize-tasks'];
+
+// Tool-facing wording for operations whose swagger.yml descriptions read
+// badly; `parameters` rewords their path parameters
+const WORDING = {
+  'get-list-diagrams': { description: 'Get a list of diagrams' },
+  'get-diagram': { description: 'Get a diagram by its ID', parameters: { id: 'MongoDB ID of the diagram' } },
+  'get-projects-tree': { description: 'Get the tree of a project', parameters: { project: 'Code or ID of the project' } }
+};
+
+// Path parameters that name something inside a project, for project-scoped tokens
+const PARAMETER_REFERENCES = {
+  project: 'project',
+  story: 'story',
+  storyID: 'story',
+  parent: 'feature',
+  child: 'feature'
+};
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = { check: false };
+
+  for (const arg of args) {
+    if (arg === '--check') {
+      options.check = true;
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(`
+Usage: node generate-api.js [options]
+
+Reads swagger.yml and writes src/generated/hypermanager-api.ts: the
+operation metadata, typed client methods, default tool input schemas,
+tool permissions and the endpoint summary. Run by \`npm run build\`.
+
+Options:
+  --check                 Fail if the generated file is out of date instead of writing it
+  --help, -h             Show this help message
+      `);
+      process.exit(0);
+    } else {
+      console.error(`Error: unknown argument ${arg} (see --help)`);
+      process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+const words = operationId => operationId.split(/[^A-Za-z0-9]+/).filter(Boolean);
+const camelCase = operationId => words(operationId)
+  .map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase())
+  .join('');
+const pascalCase = operationId => camelCase(operationId).replace(/^./, letter => letter.toUpperCase());
+const snakeCase = operationId => words(operationId).map(word => word.toLowerCase()).join('_');
+const sentence = text => text.trim().replace(/^./, letter => letter.toUpperCase());
+const quote = text => `'${String(text).replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+const isIdentifier = name => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+const key = name => isIdentifier(name) ? name : quote(name);
+const identifier = name => isIdentifier(name) ? name : camelCase(name);
+
+function zodType(schema = {}) {
+  switch (schema.type) {
+    case 'string':
+      return 'z.string()';
+    case 'integer':
+      return 'z.number().int()';
+    case 'number':
+      return 'z.number()';
+    case 'boolean':
+      return 'z.boolean()';
+    case 'array':
+      return `z.array(${zodType(schema.items)})`;
+    case 'object':
+      return schema.properties ? zodObject(schema) : 'z.record(z.unknown())';
+    default:
+      return 'z.unknown()';
+  }
+}
+
+function zodObject(schema) {
+  const required = schema.required ?? [];
+  const fields = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const type = zodType(property) + (required.includes(name) ? '' : '.optional()');
+    return `${key(name)}: ${property.description ? `${type}.describe(${quote(property.description)})` : type}`;
+  });
+  return `z.object({ ${fields.join(', ')} })`;
+}
+
+function tsType(schema = {}) {
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return `${tsType(schema.items)}[]`;
+    case 'object':
+      return schema.properties ? `{ ${tsFields(schema).join(' ')} }` : 'object';
+    default:
+      return 'unknown';
+  }
+}
+
+function tsFields(schema) {
+  const required = schema.required ?? [];
+  return Object.entries(schema.properties ?? {})
+    .map(([name, property]) => required.includes(name)
+      ? `${key(name)}: ${tsType(property)};`
+      // Left out of the JSON body when undefined
+      : `${key(name)}?: ${tsType(property)} | undefined;`);
+}
+
+function readOperations(swagger) {
+  const operations = [];
+  for (const [route, item] of Object.entries(swagger.paths ?? {})) {
+    for (const method of METHODS) {
+      const spec = item[method];
+      if (!spec) {
+        continue;
+      }
+      if (!spec.operationId) {
+        throw new Error(`${method.toUpperCase()} ${route} has no operationId`);
+      }
+
+      const wording = WORDING[spec.operationId] ?? {};
+      const parameters = [...(item.parameters ?? []), ...(spec.parameters ?? [])];
+      const pathParams = Array.from(route.matchAll(/\{([^}]+)\}/g), match => {
+        const parameter = parameters.find(candidate => candidate.in === 'path' && candidate.name === match[1]);
+        if (!parameter) {
+          throw new Error(`${spec.operationId}: path parameter ${match[1]} is not declared`);
+        }
+        return { ...parameter, description: wording.parameters?.[parameter.name] ?? parameter.description };
+      });
+      const body = parameters.find(parameter => parameter.in === 'body');
+      const segment = route.split('/')[1] ?? '';
+      const write = method !== 'get' || UNSAFE_GETS.includes(spec.operationId);
+
+      operations.push({
+        operationId: spec.operationId,
+        method: method.toUpperCase(),
+        path: route,
+        description: wording.description ?? sentence(spec.description ?? spec.summary ?? spec.operationId),
+        pathParams,
+        body,
+        idempotent: method === 'get' && !UNSAFE_GETS.includes(spec.operationId),
+        tool: snakeCase(spec.operationId),
+        resource: PATH_RESOURCES[segment] ?? 'utilities',
+        permission: `${PATH_RESOURCES[segment] ?? 'utilities'}:${write ? 'write' : 'read'}`,
+        references: pathParams
+          .filter(parameter => PARAMETER_REFERENCES[parameter.name])
+          .map(parameter => ({ param: parameter.name, kind: PARAMETER_REFERENCES[parameter.name] }))
+      });
+    }
+  }
+
+  const seen = new Set();
+  for (const operation of operations) {
+    if (seen.has(operation.operationId)) {
+      throw new Error(`Duplicate operationId ${operation.operationId}`);
+    }
+    seen.add(operation.operationId);
+  }
+  return operations;
+}
+
+// JSON bodies get a named type; free-form objects and text do not need one
+const bodyTypeName = operation => `${pascalCase(operation.operationId)}Body`;
+const hasBodyType = operation => operation.body?.schema?.type === 'object' && operation.body.schema.properties;
+const bodyType = operation => hasBodyType(operation) ? bodyTypeName(operation) : tsType(operation.body.schema);
+const bodyKind = operation => operation.body.schema?.type === 'string' ? 'text' : 'json';
+
+function inputSchema(operation) {
+  const fields = operation.pathParams.map(parameter => {
+    const type = `z.string().min(1, ${quote(`${parameter.name} is required`)})`;
+    return `${key(parameter.name)}: ${parameter.description ? `${type}.describe(${quote(sentence(parameter.description))})` : type}`;
+  });
+  if (operation.body) {
+    const type = zodType(operation.body.schema) + (operation.body.required ? '' : '.optional()');
+    fields.push(`body: ${operation.body.description ? `${type}.describe(${quote(sentence(operation.body.description))})` : type}`);
+  }
+  return fields.length > 0 ? `z.object({\n      ${fields.join(',\n      ')}\n    })` : 'z.object({})';
+}
+
+function generate(operations) {
+  const lines = [
+    '// Generated from swagger.yml by scripts/generate-api.js. Do not edit by hand:',
+    '// change swagger.yml and run `npm run generate`.',
+    "import type { AxiosResponse } from 'axios';",
+    "import { z } from 'zod';",
+    '',
+    "export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';",
+    '',
+    "export type ApiReferenceKind = 'project' | 'story' | 'feature';",
+    '',
+    'export interface ApiOperation {',
+    '  operationId: string;',
+    '  method: ApiMethod;',
+    '  // Swagger path, with a {placeholder} per path parameter',
+    '  path: string;',
+    '  description: string;',
+    '  // Path parameters, in path order',
+    '  pathParams: readonly string[];',
+    "  // How the request body is sent, for operations that take one",
+    "  body?: 'json' | 'text';",
+    '  // Safe to retry: GETs, except those that change data upstream',
+    '  idempotent: boolean;',
+    '  // Default MCP tool for the operation and the permission it needs',
+    '  tool: string;',
+    '  permission: string;',
+    '  // Path parameters naming a project, story or feature, checked for project-scoped tokens',
+    '  references: readonly { param: string; kind: ApiReferenceKind }[];',
+    '  // Arguments of the default tool: the path parameters, and the request `body`',
+    '  input: z.AnyZodObject;',
+    '}',
+    ''
+  ];
+
+  for (const operation of operations.filter(hasBodyType)) {
+    lines.push(`export interface ${bodyTypeName(operation)} {`);
+    lines.push(...tsFields(operation.body.schema).map(field => `  ${field}`));
+    lines.push('}', '');
+  }
+
+  lines.push('export const API_OPERATIONS = {');
+  operations.forEach((operation, index) => {
+    lines.push(
+      `  ${quote(operation.operationId)}: {`,
+      `    operationId: ${quote(operation.operationId)},`,
+      `    method: ${quote(operation.method)},`,
+      `    path: ${quote(operation.path)},`,
+      `    description: ${quote(operation.description)},`,
+      `    pathParams: [${operation.pathParams.map(parameter => quote(parameter.name)).join(', ')}],`,
+      ...(operation.body ? [`    body: ${quote(bodyKind(operation))},`] : []),
+      `    idempotent: ${operation.idempotent},`,
+      `    tool: ${quote(operation.tool)},`,
+      `    permission: ${quote(operation.permission)},`,
+      `    references: [${operation.references.map(reference => `{ param: ${quote(reference.param)}, kind: ${quote(reference.kind)} }`).join(', ')}],`,
+      `    input: ${inputSchema(operation)}`,
+      `  }${index < operations.length - 1 ? ',' : ''}`
+    );
+  });
+  lines.push('} satisfies Record<string, ApiOperation>;', '');
+  lines.push('export type OperationId = keyof typeof API_OPERATIONS;', '');
+
+  lines.push(
+    '// Sends an operation; path parameters are substituted by the implementation',
+    'export type ApiRequester = (operation: ApiOperation, pathParams: Record<string, string>, body?: unknown) => Promise<AxiosResponse<unknown>>;',
+    '',
+    '/**',
+    ' * One method per swagger operation. Responses are returned as received,',
+    ' * since swagger.yml declares every response body as a string.',
+    ' */',
+    'export class HyperManagerOperations {',
+    '  constructor(private readonly requester: ApiRequester) {}',
+    '',
+    '  request(operationId: OperationId, pathParams: Record<string, string>, body?: unknown): Promise<AxiosResponse<unknown>> {',
+    '    return this.requester(API_OPERATIONS[operationId], pathParams, body);',
+    '  }'
+  );
+  for (const operation of operations) {
+    const parameters = operation.pathParams.map(parameter => `${identifier(parameter.name)}: string`);
+    if (operation.body) {
+      parameters.push(`body${operation.body.required ? '' : '?'}: ${bodyType(operation)}`);
+    }
+    const pathArgument = operation.pathParams.length > 0
+      ? `{ ${operation.pathParams.map(({ name }) => isIdentifier(name) ? name : `${key(name)}: ${identifier(name)}`).join(', ')} }`
+      : '{}';
+    lines.push(
+      '',
+      `  // ${operation.method} ${operation.path}: ${operation.description}`,
+      `  ${camelCase(operation.operationId)}(${parameters.join(', ')}): Promise<AxiosResponse<unknown>> {`,
+      `    return this.request(${quote(operation.operationId)}, ${pathArgument}${operation.body ? ', body' : ''});`,
+      '  }'
+    );
+  }
+  lines.push('}', '');
+
+  lines.push('export const GENERATED_TOOL_PERMISSIONS = {');
+  lines.push(operations.map(operation => `  ${quote(operation.tool)}: [${quote(operation.permission)}]`).join(',\n'));
+  lines.push('} as const;', '');
+
+  const groups = new Map();
+  for (const operation of operations) {
+    groups.set(operation.resource, [...(groups.get(operation.resource) ?? []), operation]);
+  }
+  lines.push('export const API_ENDPOINT_SUMMARY: Record<string, { endpoints: string[] }> = {');
+  lines.push(Array.from(groups, ([resource, grouped]) => [
+    `  ${key(resource)}: {`,
+    '    endpoints: [',
+    grouped.map(operation => `      ${quote(`${operation.method} ${operation.path} - ${operation.description}`)}`).join(',\n'),
+    '    ]',
+    '  }'
+  ].join('\n')).join(',\n'));
+  lines.push('};', '');
+
+  return lines.join('\n');
+}
+
+function main() {
+  const options = parseArgs();
+  const swagger = parse(fs.readFileSync(INPUT, 'utf-8'));
+  const output = generate(readOperations(swagger));
+  const relative = path.relative(ROOT, OUTPUT);
+
+  if (options.check) {
+    const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, 'utf-8') : '';
+    if (current !== output) {
+      console.error(`${relative} is out of date: run npm run generate`);
+      process.exit(1);
+    }
+    console.log(`${relative} is up to date`);
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+  fs.writeFileSync(OUTPUT, output);
+  console.log(`Wrote ${relative}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Error:', error.message);
+  process.exit(1);
+}
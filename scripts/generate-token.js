@@ -1,5 +1,7 @@
 #!/usr/bin/env node
 import { AuthManager } from '../dist/auth.js';
+import { createTokenStore, tokenStoreOptionsFromEnv } from '../dist/token-store.js';
+import { namedApiKeysFromEnv } from '../dist/upstream-credentials.js';
 import { v4 as uuidv4 } from 'uuid';
 
 const MCP_SERVER_SECRET = process.env.MCP_SERVER_SECRET || 'default-secret-change-me';
@@ -9,7 +11,12 @@ function parseArgs() {
   const options = {
     type: 'team',
     expires: undefined,
-    description: undefined
+    description: undefined,
+    permissions: undefined,
+    projects: undefined,
+    rateLimits: undefined,
+    upstreamKey: undefined,
+    upstreamKeyRef: undefined
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -24,25 +31,69 @@ function parseArgs() {
     } else if (arg === '--description' && i + 1 < args.length) {
       options.description = args[i + 1];
       i++;
+    } else if (arg === '--permissions' && i + 1 < args.length) {
+      options.permissions = args[i + 1].split(',').map(p => p.trim()).filter(Boolean);
+      i++;
+    } else if (arg === '--projects' && i + 1 < args.length) {
+      options.projects = args[i + 1].split(',').map(p => p.trim()).filter(Boolean);
+      i++;
+    } else if (arg === '--rate-limits' && i + 1 < args.length) {
+      try {
+        options.rateLimits = JSON.parse(args[i + 1]);
+      } catch (error) {
+        console.error('Error: --rate-limits must be a JSON object, e.g. \'{"writesPerWindow": 20}\'');
+        process.exit(1);
+      }
+      i++;
+    } else if (arg === '--upstream-key' && i + 1 < args.length) {
+      options.upstreamKey = args[i + 1];
+      i++;
+    } else if (arg === '--upstream-key-ref' && i + 1 < args.length) {
+      options.upstreamKeyRef = args[i + 1];
+      i++;
     } else if (arg === '--help' || arg === '-h') {
       console.log(`
 Usage: node generate-token.js [options]
 
 Options:
-  --type <type>           Token type: master, team, readonly (default: team)
+  --type <type>           Token type: master, team, readonly, custom (default: team,
+                          or custom when --permissions is given)
   --expires <duration>    Token expiration: 30s, 5m, 2h, 7d (optional)
   --description <desc>    Token description (optional)
+  --permissions <list>    Comma-separated permissions for a custom token,
+                          e.g. stories:read,features:write
+  --projects <codes>      Comma-separated project codes the token is limited to
+                          (not allowed for master tokens)
+  --rate-limits <json>    Rate limits overriding those of the token type, e.g.
+                          '{"writesPerWindow": 20, "upstreamCallsPerDay": 500}'
+  --upstream-key <key>    HyperManager API key the token's calls use instead of
+                          HYPERMANAGER_API_KEY (stored encrypted, not for master tokens)
+  --upstream-key-ref <n>  Name of a HYPERMANAGER_API_KEYS key the token's calls use
+                          (not for master tokens)
   --help, -h             Show this help message
 
 Examples:
   node generate-token.js --type team --expires 30d --description "Team access token"
   node generate-token.js --type readonly --expires 7d
   node generate-token.js --type master
+  node generate-token.js --permissions stories:read,features:write --projects SHOP --description "Contractor"
+  node generate-token.js --type team --rate-limits '{"requestsPerWindow": 5000}' --description "n8n workers"
+  node generate-token.js --type team --upstream-key-ref acme --description "Acme team"
       `);
       process.exit(0);
     }
   }
 
+  if (options.upstreamKey && options.upstreamKeyRef) {
+    console.error('Error: use either --upstream-key or --upstream-key-ref, not both');
+    process.exit(1);
+  }
+
+  // An explicit permission list implies a custom token
+  if (options.permissions && !args.includes('--type')) {
+    options.type = 'custom';
+  }
+
   return options;
 }
 
@@ -50,22 +101,48 @@ function main() {
   try {
     const options = parseArgs();
     
-    if (!['master', 'team', 'readonly'].includes(options.type)) {
-      console.error('Error: Invalid token type. Must be one of: master, team, readonly');
+    if (!['master', 'team', 'readonly', 'custom'].includes(options.type)) {
+      console.error('Error: Invalid token type. Must be one of: master, team, readonly, custom');
       process.exit(1);
     }
 
-    const authManager = new AuthManager(MCP_SERVER_SECRET);
+    const authManager = new AuthManager(
+      MCP_SERVER_SECRET,
+      [],
+      createTokenStore(tokenStoreOptionsFromEnv()),
+      Object.keys(namedApiKeysFromEnv())
+    );
     const token = authManager.generateToken(
       options.type,
       options.expires,
-      options.description
+      options.description,
+      {
+        ...(options.permissions && { permissions: options.permissions }),
+        ...(options.projects && { projects: options.projects }),
+        ...(options.rateLimits && { rateLimits: options.rateLimits }),
+        ...(options.upstreamKey && { upstream: { apiKey: options.upstreamKey } }),
+        ...(options.upstreamKeyRef && { upstream: { apiKeyRef: options.upstreamKeyRef } })
+      }
     );
 
     console.log('\n✅ Token generated successfully!');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log(`Token: ${token}`);
     console.log(`Type: ${options.type}`);
+    if (options.permissions) {
+      console.log(`Permissions: ${options.permissions.join(', ')}`);
+    }
+    if (options.projects) {
+      console.log(`Projects: ${options.projects.join(', ')}`);
+    }
+    if (options.rateLimits) {
+      console.log(`Rate limits: ${JSON.stringify(options.rateLimits)}`);
+    }
+    if (options.upstreamKey) {
+      console.log('HyperManager key: own key (stored encrypted)');
+    } else if (options.upstreamKeyRef) {
+      console.log(`HyperManager key: ${options.upstreamKeyRef} (HYPERMANAGER_API_KEYS)`);
+    }
     if (options.expires) {
       console.log(`Expires: ${options.expires}`);
     } else {
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import fs from 'fs';
+import { HyperManagerAPIClient, clientOptionsFromEnv } from '../dist/api-client.js';
+import { BACKLOG_FORMATS, BacklogDocumentError, backlogFormatOf, importBacklog, parseBacklogDocument } from '../dist/backlog-import.js';
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    file: undefined,
+    format: undefined,
+    project: undefined,
+    actor: undefined,
+    dryRun: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--format' && i + 1 < args.length) {
+      options.format = args[i + 1];
+      i++;
+    } else if (arg === '--project' && i + 1 < args.length) {
+      options.project = args[i + 1];
+      i++;
+    } else if (arg === '--actor' && i + 1 < args.length) {
+      options.actor = args[i + 1];
+      i++;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(`
+Usage: node import-backlog.js <file> [options]
+
+Creates the actors, stories, features and diagrams described in <file> that
+the project does not have yet. Existing entities, matched by name, are left
+unchanged, so an interrupted import can be run again.
+
+Options:
+  --format <format>       yaml, json, markdown, jira-csv or github-json
+                          (default: from the file extension)
+  --project <code>        Project to import into, instead of the one in the file
+                          (required for jira-csv and github-json)
+  --actor <name>          Actor for Jira issues without a component and GitHub
+                          issues without an actor label (default: User)
+  --dry-run               Only list what would be created
+  --help, -h             Show this help message
+
+Environment:
+  HYPERMANAGER_API_KEY    API key used for the HyperManager API (required)
+  HYPERMANAGER_BASE_URL   API base URL, e.g. the mock server (optional)
+
+Examples:
+  node import-backlog.js backlog.yml --dry-run
+  node import-backlog.js roadmap.md --project SHOP
+  node import-backlog.js jira-export.csv --format jira-csv --project SHOP
+      `);
+      process.exit(0);
+    } else if (!options.file) {
+      options.file = arg;
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs();
+
+  if (!options.file) {
+    console.error('Error: a backlog file is required (see --help)');
+    process.exit(1);
+  }
+  const format = options.format || backlogFormatOf(options.file);
+  if (!BACKLOG_FORMATS.includes(format)) {
+    console.error(`Error: cannot tell the format of the file, pass --format ${BACKLOG_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  const apiKey = process.env.HYPERMANAGER_API_KEY;
+  if (!apiKey) {
+    console.error('Error: HYPERMANAGER_API_KEY is not set');
+    process.exit(1);
+  }
+
+  try {
+    const document = parseBacklogDocument(fs.readFileSync(options.file, 'utf8'), format, {
+      ...(options.project && { project: options.project }),
+      ...(options.actor && { defaultActor: options.actor })
+    });
+
+    const client = new HyperManagerAPIClient(apiKey, clientOptionsFromEnv());
+    const report = await importBacklog(client, document, { dryRun: options.dryRun });
+
+    console.log(`\n${report.dryRun ? '🔍 Dry run for' : '✅ Imported into'} project ${report.project}`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    for (const item of report.items) {
+      const suffix = item.error ? ` (${item.error})` : item.id && item.status === 'created' ? ` (${item.id})` : '';
+      console.log(`${item.status.padEnd(8)} ${item.kind.padEnd(8)} ${item.path}${suffix}`);
+    }
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(`Created: ${report.created}, already present: ${report.existing}, planned: ${report.planned}, failed: ${report.failed}`);
+
+    if (report.failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    if (error instanceof BacklogDocumentError) {
+      console.error('Error: invalid backlog document');
+      error.issues.forEach(issue => console.error(`  - ${issue}`));
+    } else {
+      console.error('Error importing backlog:', error.message);
+    }
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 import { AuthManager } from '../dist/auth.js';
+import { createTokenStore, tokenStoreOptionsFromEnv } from '../dist/token-store.js';
 
 const MCP_SERVER_SECRET = process.env.MCP_SERVER_SECRET || 'default-secret-change-me';
 
@@ -10,6 +11,9 @@ function parseArgs() {
     console.log(`
 Usage: node list-tokens.js [options]
 
+Reads the token store configured with TOKEN_STORE / TOKEN_STORE_PATH
+(default: data/tokens.json), the same one the server uses.
+
 Options:
   --format <format>       Output format: table, json (default: table)
   --help, -h             Show this help message
@@ -110,7 +114,7 @@ function main() {
   try {
     const options = parseArgs();
     
-    const authManager = new AuthManager(MCP_SERVER_SECRET);
+    const authManager = new AuthManager(MCP_SERVER_SECRET, [], createTokenStore(tokenStoreOptionsFromEnv()));
     const tokens = authManager.listTokens();
 
     if (options.format === 'json') {
@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 import { AuthManager } from '../dist/auth.js';
+import { createTokenStore, tokenStoreOptionsFromEnv } from '../dist/token-store.js';
 
 const MCP_SERVER_SECRET = process.env.MCP_SERVER_SECRET || 'default-secret-change-me';
 
@@ -8,22 +9,26 @@ function parseArgs() {
   
   if (args.includes('--help') || args.includes('-h')) {
     console.log(`
-Usage: node revoke-token.js <token>
+Usage: node revoke-token.js <token|tokenId>
 
 Arguments:
-  <token>                 The token to revoke
+  <token|tokenId>         The token to revoke, or its ID as shown by list-tokens.js
 
 Options:
   --help, -h             Show this help message
 
 Examples:
   node revoke-token.js eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+  node revoke-token.js 3f6c2a9e-8d1b-4c7e-9a52-1b0e7d4f6a3c
+
+The revocation is written to the token store (TOKEN_STORE / TOKEN_STORE_PATH)
+and picked up by a running server on its next request.
     `);
     process.exit(0);
   }
 
   if (args.length === 0) {
-    console.error('Error: Token is required');
+    console.error('Error: Token or token ID is required');
     console.error('Use --help for usage information');
     process.exit(1);
   }
@@ -35,7 +40,7 @@ function main() {
   try {
     const token = parseArgs();
     
-    const authManager = new AuthManager(MCP_SERVER_SECRET);
+    const authManager = new AuthManager(MCP_SERVER_SECRET, [], createTokenStore(tokenStoreOptionsFromEnv()));
     const success = authManager.revokeToken(token);
 
     if (success) {
@@ -46,7 +51,7 @@ function main() {
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.log('\n🔒 This token can no longer be used for authentication.');
     } else {
-      console.log('\n⚠️  Token not found in active tokens list');
+      console.log('\n⚠️  Token not found in the token store');
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.log(`Token: ${token.substring(0, 20)}...`);
       console.log('Status: Not found or already revoked');
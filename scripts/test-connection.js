@@ -22,6 +22,8 @@ async function testConnection() {
     // Test MCP tools list
     console.log('\n2. Testing MCP tools list...');
     const toolsResponse = await axios.post(`${SERVER_URL}/mcp`, {
+      jsonrpc: '2.0',
+      id: 1,
       method: 'tools/list',
       params: {}
     }, {
@@ -32,14 +34,16 @@ async function testConnection() {
     });
     
     console.log('✅ Tools list retrieved successfully:');
-    console.log(`   Found ${toolsResponse.data.tools.length} tools`);
-    toolsResponse.data.tools.forEach(tool => {
+    console.log(`   Found ${toolsResponse.data.result.tools.length} tools`);
+    toolsResponse.data.result.tools.forEach(tool => {
       console.log(`   - ${tool.name}: ${tool.description}`);
     });
     
     // Test a simple tool call
     console.log('\n3. Testing tool call (list_projects)...');
     const toolCallResponse = await axios.post(`${SERVER_URL}/mcp`, {
+      jsonrpc: '2.0',
+      id: 2,
       method: 'tools/call',
       params: {
         name: 'list_projects',
@@ -53,7 +57,7 @@ async function testConnection() {
     });
     
     console.log('✅ Tool call successful:');
-    console.log('   Response:', toolCallResponse.data.content[0].text.substring(0, 200) + '...');
+    console.log('   Response:', toolCallResponse.data.result.content[0].text.substring(0, 200) + '...');
     
     console.log('\n🎉 All tests passed! Your MCP server is working correctly.');
     
@@ -89,6 +93,10 @@ Examples:
   
   # Test remote server
   SERVER_URL=https://your-app.railway.app MCP_AUTH_TOKEN=your-token node test-connection.js
+
+  # Test without a live HyperManager key: start the mock API first
+  npm run mock-server
+  HYPERMANAGER_BASE_URL=http://localhost:4000 HYPERMANAGER_API_KEY=dev PORT=3000 npm start
   `);
 }
 
@@ -1,4 +1,5 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig, isAxiosError } from 'axios';
+import { z } from 'zod';
 import { 
   DiagramCreateRequest, 
   DiagramUpdateRequest, 
@@ -6,28 +7,185 @@ import {
   StoryUpdateRequest,
   FeatureAddRequest,
   ActorAddRequest,
-  StoryAddRequest
+  StoryAddRequest,
+  Project,
+  ProjectTree,
+  Actor,
+  Story,
+  StoryTree,
+  Feature,
+  FeatureNode,
+  FeatureType,
+  Diagram,
+  ProjectSchema,
+  ProjectTreeSchema,
+  ActorSchema,
+  StorySchema,
+  StoryTreeSchema,
+  FeatureSchema,
+  FeatureTypeSchema,
+  DiagramSchema
 } from './types.js';
+import { BacklogBackend } from './backend.js';
+import { ApiOperation, HyperManagerOperations } from './generated/hypermanager-api.js';
+import { CircuitBreakerOptions, CircuitBreakerRegistry, CircuitStatus } from './circuit-breaker.js';
+import { ResponseCache, ResponseCacheStats } from './response-cache.js';
+import { upstreamErrorFrom } from './upstream-errors.js';
+import { isPreviewingUpstream, noteUpstreamCall, UpstreamRequest, UpstreamRequestPreviewed } from './upstream-calls.js';
 
-export class HyperManagerAPIClient {
+export const DEFAULT_BASE_URL = 'https://hypermanager-ia.endpoints.hypermanager.cloud.goog';
+export const DEFAULT_TIMEOUT_MS = 60000;
+export const DEFAULT_AUTH_HEADER = 'x-api-key';
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 200;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 5000;
+
+const MINUTE = 60 * 1000;
+
+// Responses worth another try: rate limited, or the gateway or backend briefly down
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+export interface HyperManagerClientOptions {
+  baseURL?: string;
+  timeout?: number;
+  authHeader?: string;
+  // Extra attempts for GET requests that time out, fail to connect or get a retryable status
+  retries?: number;
+  // Backoff before retry n is about retryBaseDelayMs * 2^(n-1), jittered and capped at retryMaxDelayMs
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  circuitBreaker?: CircuitBreakerOptions;
+  // Cache GET responses, shared by tools and resources and dropped by the writes that change them
+  cache?: boolean;
+}
+
+function integerFromEnv(env: NodeJS.ProcessEnv, name: string, minimum: number): number | undefined {
+  if (!env[name]) {
+    return undefined;
+  }
+  const value = parseInt(env[name]!);
+  if (Number.isNaN(value) || value < minimum) {
+    throw new Error(`${name} must be a ${minimum > 0 ? 'positive' : 'non-negative'} integer`);
+  }
+  return value;
+}
+
+/**
+ * Read client options from HYPERMANAGER_BASE_URL, HYPERMANAGER_TIMEOUT_MS,
+ * HYPERMANAGER_AUTH_HEADER, HYPERMANAGER_RETRIES,
+ * HYPERMANAGER_RETRY_BASE_DELAY_MS, HYPERMANAGER_RETRY_MAX_DELAY_MS,
+ * HYPERMANAGER_CIRCUIT_FAILURE_THRESHOLD, HYPERMANAGER_CIRCUIT_RESET_MS and
+ * HYPERMANAGER_CACHE.
+ * Unset variables are left out so the constructor defaults apply.
+ */
+export function clientOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): HyperManagerClientOptions {
+  const options: HyperManagerClientOptions = {};
+
+  if (env['HYPERMANAGER_BASE_URL']) {
+    options.baseURL = env['HYPERMANAGER_BASE_URL'];
+  }
+  const timeout = integerFromEnv(env, 'HYPERMANAGER_TIMEOUT_MS', 1);
+  if (timeout !== undefined) {
+    options.timeout = timeout;
+  }
+  if (env['HYPERMANAGER_AUTH_HEADER']) {
+    options.authHeader = env['HYPERMANAGER_AUTH_HEADER'];
+  }
+
+  const retries = integerFromEnv(env, 'HYPERMANAGER_RETRIES', 0);
+  if (retries !== undefined) {
+    options.retries = retries;
+  }
+  const retryBaseDelayMs = integerFromEnv(env, 'HYPERMANAGER_RETRY_BASE_DELAY_MS', 1);
+  if (retryBaseDelayMs !== undefined) {
+    options.retryBaseDelayMs = retryBaseDelayMs;
+  }
+  const retryMaxDelayMs = integerFromEnv(env, 'HYPERMANAGER_RETRY_MAX_DELAY_MS', 1);
+  if (retryMaxDelayMs !== undefined) {
+    options.retryMaxDelayMs = retryMaxDelayMs;
+  }
+
+  const failureThreshold = integerFromEnv(env, 'HYPERMANAGER_CIRCUIT_FAILURE_THRESHOLD', 1);
+  const resetTimeoutMs = integerFromEnv(env, 'HYPERMANAGER_CIRCUIT_RESET_MS', 1);
+  if (failureThreshold !== undefined || resetTimeoutMs !== undefined) {
+    options.circuitBreaker = {
+      ...(failureThreshold !== undefined && { failureThreshold }),
+      ...(resetTimeoutMs !== undefined && { resetTimeoutMs })
+    };
+  }
+
+  if (env['HYPERMANAGER_CACHE']) {
+    options.cache = env['HYPERMANAGER_CACHE'] !== 'false';
+  }
+
+  return options;
+}
+
+// Cache tags of a story tree: the story and every feature under it
+function storyTags(story: StoryTree): string[] {
+  const featureTags = (features: FeatureNode[]): string[] =>
+    features.flatMap(feature => [`feature:${feature.id}`, ...featureTags(feature.children)]);
+  return [`story:${story.id}`, ...featureTags(story.features)];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class HyperManagerAPIClient implements BacklogBackend {
   private client: AxiosInstance;
   private apiKey: string;
+  private authHeader: string;
+  private retries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private circuits: CircuitBreakerRegistry;
+  private cache: ResponseCache;
+  // When each request left, for the call durations noted in the audit log
+  private startedAt = new WeakMap<InternalAxiosRequestConfig, number>();
+  readonly baseURL: string;
+  // Typed calls for every swagger.yml operation, behind the methods below
+  private calls = new HyperManagerOperations((operation, pathParams, body) => this.request(operation, pathParams, body));
+  // The same calls for the generated default tools; as these bypass the
+  // methods below, their writes drop every cached entry
+  readonly operations = new HyperManagerOperations((operation, pathParams, body) => operation.idempotent
+    ? this.request(operation, pathParams, body)
+    : this.write(undefined, () => this.request(operation, pathParams, body)));
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: HyperManagerClientOptions = {}) {
     this.apiKey = apiKey;
+    this.authHeader = options.authHeader || DEFAULT_AUTH_HEADER;
+    this.baseURL = options.baseURL || DEFAULT_BASE_URL;
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+    this.cache = new ResponseCache(options.cache ?? true);
+    // stderr, as stdout may carry the JSON-RPC stream
+    this.circuits = new CircuitBreakerRegistry(options.circuitBreaker, (status, previous) => {
+      console.error(`API Circuit ${status.endpoint}: ${previous} -> ${status.state}` +
+        (status.retryAt ? ` (after ${status.consecutiveFailures} failures, last: ${status.lastError}; next try at ${status.retryAt.toISOString()})` : ''));
+    });
     this.client = axios.create({
-      baseURL: 'https://hypermanager-ia.endpoints.hypermanager.cloud.goog',
-      timeout: 60000,
+      baseURL: this.baseURL,
+      timeout: options.timeout ?? DEFAULT_TIMEOUT_MS,
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': apiKey
+        [this.authHeader]: apiKey
       }
     });
 
-    // Add request interceptor for logging
+    // Add request interceptor for logging, on stderr like every log of this client
     this.client.interceptors.request.use(
       (config) => {
-        console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
+        if (isPreviewingUpstream()) {
+          // Dry run: stop at the adapter, once axios has serialized the request
+          config.adapter = async (request) => {
+            throw new UpstreamRequestPreviewed(this.describeRequest(request));
+          };
+          return config;
+        }
+        console.error(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
+        this.startedAt.set(config, Date.now());
         return config;
       },
       (error) => {
@@ -39,133 +197,313 @@ export class HyperManagerAPIClient {
     // Add response interceptor for error handling
     this.client.interceptors.response.use(
       (response) => {
-        console.log(`API Response: ${response.status} ${response.config.url}`);
+        console.error(`API Response: ${response.status} ${response.config.url}`);
+        this.noteCall(response.config, response.status);
         return response;
       },
       (error) => {
+        if (error instanceof UpstreamRequestPreviewed) {
+          return Promise.reject(error);
+        }
         console.error('API Response Error:', error.response?.status, error.response?.data);
+        if (error.config) {
+          this.noteCall(error.config, error.response?.status);
+        }
         return Promise.reject(error);
       }
     );
   }
 
   // Diagram methods
-  async createDiagram(data: DiagramCreateRequest): Promise<string> {
-    const response = await this.client.post<string>('/diagrams', data);
-    return response.data;
+  async createDiagram(data: DiagramCreateRequest): Promise<Diagram> {
+    return this.write(['diagram-list', `diagram:${data.name}`], async () =>
+      this.parse(DiagramSchema, await this.calls.addDiagram(data)));
   }
 
-  async listDiagrams(): Promise<string> {
-    const response = await this.client.get<string>('/diagrams');
-    return response.data;
+  async listDiagrams(): Promise<Diagram[]> {
+    return this.cache.read('GET /diagrams', 2 * MINUTE, async () =>
+      this.parse(z.array(DiagramSchema), await this.calls.getListDiagrams()),
+    () => ['diagrams', 'diagram-list']);
   }
 
-  async getDiagram(id: string): Promise<string> {
-    const response = await this.client.get<string>(`/diagrams/${id}`);
-    return response.data;
+  async getDiagram(id: string): Promise<Diagram> {
+    return this.cache.read(`GET /diagram/${id}`, 5 * MINUTE, async () =>
+      this.parse(DiagramSchema, await this.calls.getDiagram(id)),
+    diagram => ['diagrams', `diagram:${id}`, `diagram:${diagram.name}`]);
   }
 
-  async updateDiagram(id: string, data: DiagramUpdateRequest): Promise<string> {
-    const response = await this.client.patch<string>(`/diagrams/${id}`, data);
-    return response.data;
+  // A rename leaves entries under the old name, which only the list knows: drop every diagram entry
+  async updateDiagram(id: string, data: DiagramUpdateRequest): Promise<Diagram> {
+    return this.write(['diagrams'], async () =>
+      this.parse(DiagramSchema, await this.calls.updateDiagram(id, data)));
   }
 
   async getDiagramPng(diagramName: string): Promise<string> {
-    const response = await this.client.get<string>(`/diagram/png/${diagramName}`);
-    return response.data;
+    return this.cache.read(`GET /diagram/png/${diagramName}`, 10 * MINUTE, async () =>
+      this.text(await this.calls.getPngDiagram(diagramName)),
+    () => ['diagrams', `diagram:${diagramName}`]);
   }
 
   async getDiagramPlantUmlUrl(diagramName: string): Promise<string> {
-    const response = await this.client.get<string>(`/diagram/plant-url/${diagramName}`);
-    return response.data;
+    return this.cache.read(`GET /diagram/plant-url/${diagramName}`, 10 * MINUTE, async () =>
+      this.text(await this.calls.getPlantUrlDiagram(diagramName)),
+    () => ['diagrams', `diagram:${diagramName}`]);
   }
 
   async getDiagramDefinition(name: string): Promise<string> {
-    const response = await this.client.get<string>(`/diagram/plant-definition/${name}`);
-    return response.data;
+    return this.cache.read(`GET /diagram/plant-definition/${name}`, 5 * MINUTE, async () =>
+      this.text(await this.calls.getDiagramDefinition(name)),
+    () => ['diagrams', `diagram:${name}`]);
   }
 
-  async updateDiagramDefinition(name: string, definition: string): Promise<string> {
-    const response = await this.client.patch<string>(`/diagram/update/${name}`, definition, {
-      headers: { 'Content-Type': 'text/plain' }
-    });
-    return response.data;
+  async updateDiagramDefinition(name: string, definition: string): Promise<Diagram> {
+    return this.write(['diagram-list', `diagram:${name}`], async () =>
+      this.parse(DiagramSchema, await this.calls.updateDiagramDefinition(name, definition)));
   }
 
   async updateDiagramGraphic(diagramName: string, data: string): Promise<string> {
-    const response = await this.client.patch<string>(`/diagram/update-graphic/${diagramName}`, data, {
-      headers: { 'Content-Type': 'text/plain' }
-    });
-    return response.data;
+    return this.write(['diagram-list', `diagram:${diagramName}`], async () =>
+      this.text(await this.calls.updateDiagramGraphic(diagramName, data)));
   }
 
   // Project methods
-  async createProject(data: ProjectCreateRequest): Promise<string> {
-    const response = await this.client.post<string>('/projects', data);
-    return response.data;
+  async createProject(data: ProjectCreateRequest): Promise<Project> {
+    return this.write(['projects'], async () =>
+      this.parse(ProjectSchema, await this.calls.addProject(data)));
   }
 
-  async listProjects(): Promise<string> {
-    const response = await this.client.get<string>('/project-command/all');
-    return response.data;
+  async listProjects(): Promise<Project[]> {
+    return this.cache.read('GET /project-command/all', 2 * MINUTE, async () =>
+      this.parse(z.array(ProjectSchema), await this.calls.getListProjects()),
+    () => ['projects']);
   }
 
-  async getProjectTree(project: string): Promise<string> {
-    const response = await this.client.get<string>(`/project-command/${project}/tree`);
-    return response.data;
+  async getProjectTree(project: string): Promise<ProjectTree> {
+    return this.cache.read(`GET /project-command/${project}/tree`, 5 * MINUTE, async () =>
+      this.parse(ProjectTreeSchema, await this.calls.getProjectsTree(project)),
+    tree => [
+      `project:${project}`,
+      `project:${tree.code}`,
+      `project:${tree.id}`,
+      ...tree.actors.flatMap(actor => actor.stories.flatMap(storyTags))
+    ]);
   }
 
   // Story methods
-  async getStoryTree(storyId: string): Promise<string> {
-    const response = await this.client.get<string>(`/story-command/${storyId}/tree`);
-    return response.data;
+  async getStoryTree(storyId: string): Promise<StoryTree> {
+    return this.cache.read(`GET /story-command/${storyId}/tree`, 5 * MINUTE, async () =>
+      this.parse(StoryTreeSchema, await this.calls.getStoryTree(storyId)),
+    story => [`story:${storyId}`, ...storyTags(story)]);
   }
 
-  async updateStory(data: StoryUpdateRequest): Promise<string> {
-    const response = await this.client.post<string>('/story-command/update', data);
-    return response.data;
+  async updateStory(data: StoryUpdateRequest): Promise<Story> {
+    return this.write([`story:${data.id}`], async () =>
+      this.parse(StorySchema, await this.calls.updateStory(data)));
   }
 
   // Feature methods
-  async refreshFeatureTypes(): Promise<string> {
-    const response = await this.client.get<string>('/feature-command/refresh-types');
-    return response.data;
+  async refreshFeatureTypes(): Promise<FeatureType[]> {
+    return this.write(['feature-types'], async () =>
+      this.parse(z.array(FeatureTypeSchema), await this.calls.refreshFeatureTypes()));
   }
 
-  async listFeatureTypes(): Promise<string> {
-    const response = await this.client.get<string>('/featuretypes');
-    return response.data;
+  async listFeatureTypes(): Promise<FeatureType[]> {
+    return this.cache.read('GET /featuretypes', 30 * MINUTE, async () =>
+      this.parse(z.array(FeatureTypeSchema), await this.calls.getListFeatureTypes()),
+    () => ['feature-types']);
   }
 
-  async addFeatureToStory(story: string, data: FeatureAddRequest): Promise<string> {
-    const response = await this.client.post<string>(`/feature-command/${story}/add`, data);
-    return response.data;
+  async addFeatureToStory(story: string, data: FeatureAddRequest): Promise<Feature> {
+    return this.write([`story:${story}`], async () =>
+      this.parse(FeatureSchema, await this.calls.addFeatureToStory(story, data)));
   }
 
-  async addChildFeature(parent: string, data: FeatureAddRequest): Promise<string> {
-    const response = await this.client.post<string>(`/feature-command/${parent}/add-child`, data);
-    return response.data;
+  async addChildFeature(parent: string, data: FeatureAddRequest): Promise<Feature> {
+    return this.write([`feature:${parent}`], async () =>
+      this.parse(FeatureSchema, await this.calls.addChildFeature(parent, data)));
   }
 
-  async adoptChildFeature(parent: string, child: string): Promise<string> {
-    const response = await this.client.post<string>(`/feature-command/${parent}/adopt/${child}`);
-    return response.data;
+  async adoptChildFeature(parent: string, child: string): Promise<Feature> {
+    return this.write([`feature:${parent}`, `feature:${child}`], async () =>
+      this.parse(FeatureSchema, await this.calls.adoptChildFeature(parent, child)));
   }
 
   // Actor methods
-  async addActor(project: string, data: ActorAddRequest): Promise<string> {
-    const response = await this.client.post<string>(`/actor-command/${project}/add`, data);
-    return response.data;
+  async addActor(project: string, data: ActorAddRequest): Promise<Actor> {
+    return this.write([`project:${project}`], async () =>
+      this.parse(ActorSchema, await this.calls.addActor(project, data)));
   }
 
-  async addStoryToActor(project: string, name: string, data: StoryAddRequest): Promise<string> {
-    const response = await this.client.post<string>(`/actor-command/${project}/${name}/add-story`, data);
-    return response.data;
+  async addStoryToActor(project: string, name: string, data: StoryAddRequest): Promise<Story> {
+    return this.write([`project:${project}`], async () =>
+      this.parse(StorySchema, await this.calls.addStoryToActor(project, name, data)));
   }
 
   // Utility methods
+  // Normalizing may touch any story or feature: drop the whole cache
   async normalizeTasks(): Promise<string> {
-    const response = await this.client.get<string>('/normalize-tasks');
-    return response.data;
+    return this.write(undefined, async () => this.text(await this.calls.normalizeTasks()));
+  }
+
+  // Hits, misses and entries of the response cache, for /health
+  cacheStats(): ResponseCacheStats {
+    return this.cache.stats();
+  }
+
+  // State of the circuit breaker of every endpoint called so far, for /health
+  circuitBreakerStatus(): CircuitStatus[] {
+    return this.circuits.status();
+  }
+
+  // Requester of the generated operations: fill in the path parameters and send
+  private request(operation: ApiOperation, pathParams: Record<string, string>, body?: unknown): Promise<AxiosResponse<unknown>> {
+    const url = operation.path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+      const value = pathParams[name];
+      if (value === undefined) {
+        throw new Error(`Missing path parameter ${name} for ${operation.operationId}`);
+      }
+      return encodeURIComponent(value);
+    });
+    return this.send(`${operation.method} ${operation.path}`, () => this.client.request({
+      method: operation.method,
+      url,
+      ...(body !== undefined && { data: body }),
+      ...(operation.body === 'text' && { headers: { 'Content-Type': 'text/plain' } })
+    }), operation.idempotent);
+  }
+
+  /**
+   * Send a request through the endpoint's circuit breaker. Idempotent
+   * requests (GETs, except those that change data upstream) are retried
+   * with jittered exponential backoff after a timeout, a network error or
+   * a retryable status. Timeouts, network errors and 5xx responses count
+   * as failures of the endpoint; any other response shows it is up.
+   * Failures are thrown as UpstreamError.
+   */
+  private async send(
+    endpoint: string,
+    request: () => Promise<AxiosResponse<unknown>>,
+    idempotent: boolean
+  ): Promise<AxiosResponse<unknown>> {
+    if (isPreviewingUpstream()) {
+      // Nothing reaches the API during a dry run
+      return await request();
+    }
+
+    const breaker = this.circuits.get(endpoint);
+    const attempts = idempotent ? this.retries + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      breaker.acquire();
+      try {
+        const response = await request();
+        breaker.recordSuccess();
+        return response;
+      } catch (error) {
+        const status = isAxiosError(error) ? error.response?.status : undefined;
+        const unreachable = isAxiosError(error) && !error.response;
+        if (unreachable || (status !== undefined && status >= 500)) {
+          breaker.recordFailure(unreachable ? (error as Error).message : `HTTP ${status}`);
+        } else {
+          breaker.recordSuccess();
+        }
+
+        const retryable = unreachable || RETRYABLE_STATUSES.includes(status!);
+        if (attempt >= attempts || !retryable || breaker.status().state === 'open') {
+          throw upstreamErrorFrom(error, endpoint);
+        }
+        const delay = this.retryDelay(attempt, isAxiosError(error) ? error.response?.headers['retry-after'] : undefined);
+        console.error(`API Retry: ${endpoint} in ${delay}ms (attempt ${attempt + 1} of ${attempts})`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  // Half the exponential delay plus a random part up to the other half, so
+  // clients that failed together do not retry together. A Retry-After in
+  // seconds is honoured up to retryMaxDelayMs.
+  private retryDelay(attempt: number, retryAfter: unknown): number {
+    const exponential = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** (attempt - 1));
+    const delay = Math.round(exponential / 2 + Math.random() * exponential / 2);
+    const requested = Number(retryAfter) * 1000;
+    return Number.isFinite(requested) && requested > delay ? Math.min(requested, this.retryMaxDelayMs) : delay;
+  }
+
+  /**
+   * Run a write, then drop the cached entries tagged with `tags` (all of
+   * them when undefined). A failed write may still have reached the API,
+   * so entries are dropped either way, except for a dry-run preview.
+   */
+  private async write<T>(tags: string[] | undefined, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } finally {
+      if (!isPreviewingUpstream()) {
+        this.cache.invalidate(tags);
+      }
+    }
+  }
+
+  // Report the call to whoever is recording or metering upstream calls
+  // (audit log, rate limits)
+  private noteCall(config: InternalAxiosRequestConfig, status: number | undefined): void {
+    noteUpstreamCall({
+      method: config.method?.toUpperCase() || 'GET',
+      url: config.url || '',
+      ...(status !== undefined && { status }),
+      durationMs: Date.now() - (this.startedAt.get(config) ?? Date.now())
+    });
+  }
+
+  private describeRequest(config: InternalAxiosRequestConfig): UpstreamRequest {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.headers.toJSON())) {
+      if (value !== undefined && value !== null) {
+        headers[name] = name.toLowerCase() === this.authHeader.toLowerCase() ? '[redacted]' : String(value);
+      }
+    }
+
+    let body: unknown = config.data;
+    if (typeof body === 'string' && /json/i.test(headers['Content-Type'] ?? '')) {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Not JSON after all: show the raw text
+      }
+    }
+
+    return {
+      method: config.method?.toUpperCase() || 'GET',
+      url: this.client.getUri(config),
+      headers,
+      ...(body !== undefined && { body })
+    };
+  }
+
+  // swagger.yml declares every response as a string, so JSON bodies can
+  // arrive either decoded by axios or as raw text. Decode, then validate.
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, response: AxiosResponse<unknown>): T {
+    let data = response.data;
+    if (typeof data === 'string') {
+      try {
+        data = JSON.parse(data);
+      } catch {
+        // Not JSON: let the schema report the mismatch
+      }
+    }
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      const issues = result.error.issues
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(
+        `Unexpected response from ${response.config.method?.toUpperCase()} ${response.config.url}: ${issues}`
+      );
+    }
+    return result.data;
+  }
+
+  private text(response: AxiosResponse<unknown>): string {
+    return typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
   }
 }
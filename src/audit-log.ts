@@ -0,0 +1,268 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import winston from 'winston';
+import { v4 as uuidv4 } from 'uuid';
+import { ProjectResolver } from './project-resolver.js';
+import { ProjectReference } from './handlers/access-control.js';
+import { UpstreamCall } from './upstream-calls.js';
+import { currentUpstreamTenant, DEFAULT_TENANT } from './upstream-clients.js';
+import { AuthToken, TokenType } from './types.js';
+
+/**
+ * One mutating tool call. `projects` holds the codes of the projects the
+ * call touched and `entities` every story, feature, actor or project ID it
+ * named or created, so "who changed this story" is a filter on `entities`.
+ */
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  requestId: string;
+  tokenId: string;
+  tokenType: TokenType;
+  tool: string;
+  arguments: unknown;
+  projects: string[];
+  entities: string[];
+  outcome: 'success' | 'error';
+  // Status of the last HyperManager API response, when there was one
+  upstreamStatus?: number;
+  upstreamCalls: UpstreamCall[];
+  // HyperManager tenant the call used, when not the server's own key
+  upstream?: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface AuditQuery {
+  from?: Date;
+  to?: Date;
+  tokenId?: string;
+  tool?: string;
+  project?: string;
+  entityId?: string;
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+/**
+ * Append-only storage for audit entries. Queries return the newest
+ * matching entries first.
+ */
+export interface AuditStore {
+  append(entry: AuditEntry): Promise<void>;
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+export type AuditStoreKind = 'memory' | 'file';
+
+export interface AuditLogOptions {
+  kind?: AuditStoreKind;
+  path?: string;
+}
+
+export const DEFAULT_AUDIT_LOG_PATH = 'data/audit.jsonl';
+
+export function auditLogOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AuditLogOptions {
+  const kind = env['AUDIT_LOG'] || 'file';
+  if (kind !== 'memory' && kind !== 'file') {
+    throw new Error(`AUDIT_LOG must be "file" or "memory", got "${kind}"`);
+  }
+  return {
+    kind,
+    path: env['AUDIT_LOG_PATH'] || DEFAULT_AUDIT_LOG_PATH
+  };
+}
+
+export function createAuditStore(options: AuditLogOptions = {}): AuditStore {
+  if (options.kind === 'memory') {
+    return new MemoryAuditStore();
+  }
+  return new JsonlFileAuditStore(options.path || DEFAULT_AUDIT_LOG_PATH);
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  return (!query.from || time >= query.from.getTime())
+    && (!query.to || time <= query.to.getTime())
+    && (!query.tokenId || entry.tokenId === query.tokenId)
+    && (!query.tool || entry.tool === query.tool)
+    && (!query.project || entry.projects.includes(query.project))
+    && (!query.entityId || entry.entities.includes(query.entityId));
+}
+
+function queryLimit(query: AuditQuery): number {
+  return Math.min(Math.max(query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT, 1), MAX_AUDIT_QUERY_LIMIT);
+}
+
+export class MemoryAuditStore implements AuditStore {
+  private entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const limit = queryLimit(query);
+    const found: AuditEntry[] = [];
+    for (let i = this.entries.length - 1; i >= 0 && found.length < limit; i--) {
+      if (matches(this.entries[i]!, query)) {
+        found.push(this.entries[i]!);
+      }
+    }
+    return found;
+  }
+}
+
+/**
+ * One JSON entry per line, only ever appended to, so the file can be
+ * shipped or rotated with the usual log tooling. Queries scan the file.
+ */
+export class JsonlFileAuditStore implements AuditStore {
+  constructor(private readonly filePath: string) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const limit = queryLimit(query);
+    let input: fs.ReadStream;
+    try {
+      await fs.promises.access(this.filePath);
+      input = fs.createReadStream(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    // Entries are in time order; keep the last `limit` matches
+    const found: AuditEntry[] = [];
+    for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+      if (!line.trim()) {
+        continue;
+      }
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A line cut short by a crash must not hide the rest of the log
+        continue;
+      }
+      if (matches(entry, query)) {
+        found.push(entry);
+        if (found.length > limit) {
+          found.shift();
+        }
+      }
+    }
+    return found.reverse();
+  }
+}
+
+export interface AuditRecord {
+  requestId: string;
+  authToken: AuthToken;
+  tool: string;
+  arguments: unknown;
+  references: ProjectReference[];
+  result?: unknown;
+  error?: unknown;
+  upstreamCalls: UpstreamCall[];
+  durationMs: number;
+}
+
+/**
+ * Records mutating tool calls. Entries are resolved and written in the
+ * background, in call order; a failure to write is logged but never fails
+ * the tool call that produced it.
+ */
+export class AuditLog {
+  private store: AuditStore;
+  private projectResolver: ProjectResolver;
+  private logger: winston.Logger;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(store: AuditStore, projectResolver: ProjectResolver, logger: winston.Logger) {
+    this.store = store;
+    this.projectResolver = projectResolver;
+    this.logger = logger;
+  }
+
+  record(record: AuditRecord): void {
+    const upstream = currentUpstreamTenant();
+    this.pending = this.pending
+      .then(async () => {
+        const entry = await this.toEntry(record, upstream);
+        await this.store.append(entry);
+        this.logger.debug('Audit Entry Recorded', { id: entry.id, tool: entry.tool, outcome: entry.outcome });
+      })
+      .catch(error => {
+        this.logger.error('Audit Entry Not Recorded', {
+          requestId: record.requestId,
+          tool: record.tool,
+          tokenId: record.authToken.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    // Include calls that finished just before the query
+    await this.flush();
+    return await this.store.query(query);
+  }
+
+  /**
+   * Wait for every recorded entry to be written
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+
+  private async toEntry(record: AuditRecord, upstream: string): Promise<AuditEntry> {
+    const entities = new Set(record.references.map(reference => reference.id));
+    const result = record.result as { id?: unknown; projectId?: unknown } | undefined;
+    if (result && typeof result === 'object' && typeof result.id === 'string') {
+      entities.add(result.id);
+    }
+
+    const projects = await this.projectResolver.projectsOf(
+      result && typeof result === 'object' && typeof result.projectId === 'string'
+        ? [...record.references, { kind: 'project', id: result.projectId }]
+        : record.references,
+      record.authToken.projects
+    );
+
+    const lastCall = record.upstreamCalls[record.upstreamCalls.length - 1];
+    const errorStatus = (record.error as { status?: unknown; response?: { status?: unknown } } | undefined);
+    const upstreamStatus = lastCall?.status
+      ?? (typeof errorStatus?.status === 'number' ? errorStatus.status : undefined)
+      ?? (typeof errorStatus?.response?.status === 'number' ? errorStatus.response.status : undefined);
+
+    return {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      requestId: record.requestId,
+      tokenId: record.authToken.id,
+      tokenType: record.authToken.type,
+      tool: record.tool,
+      arguments: record.arguments ?? {},
+      projects,
+      entities: Array.from(entities),
+      outcome: record.error === undefined ? 'success' : 'error',
+      ...(upstreamStatus !== undefined && { upstreamStatus }),
+      upstreamCalls: record.upstreamCalls,
+      ...(upstream !== DEFAULT_TENANT && { upstream }),
+      durationMs: record.durationMs,
+      ...(record.error !== undefined && {
+        error: record.error instanceof Error ? record.error.message : 'Unknown error'
+      })
+    };
+  }
+}
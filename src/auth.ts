@@ -1,7 +1,11 @@
+import { createHash } from 'crypto';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import winston from 'winston';
-import { AuthToken, JWTPayload, TokenType, PERMISSION_SETS } from './types.js';
+import { AuthToken, JWTPayload, TokenType, PERMISSION_SETS, KNOWN_PERMISSIONS, RateLimits, UpstreamCredential } from './types.js';
+import { MemoryTokenStore, RevokedToken, TokenStore } from './token-store.js';
+import { normalizeRateLimits } from './rate-limiter.js';
+import { decryptApiKey, describeUpstreamCredential, encryptApiKey } from './upstream-credentials.js';
 
 // Setup logging for auth manager
 const logger = winston.createLogger({
@@ -21,29 +25,60 @@ const logger = winston.createLogger({
   ]
 });
 
+/**
+ * ID of an ALLOWED_TOKENS entry, derived from the token itself so that its
+ * revocation and usage stay with it when the list is reordered or edited
+ */
+export function staticTokenId(token: string): string {
+  return `static-${createHash('sha256').update(token).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Optional narrowing of a generated token: an explicit permission list
+ * (only with type `custom`), the project codes it may access, rate limits
+ * overriding those of its type and the HyperManager credentials it acts
+ * under. An `apiKey` given in clear is encrypted before it is stored.
+ */
+export interface TokenScope {
+  permissions?: string[];
+  projects?: string[];
+  rateLimits?: Partial<RateLimits>;
+  upstream?: UpstreamCredential | { apiKey: string };
+}
+
 export class AuthManager {
-  private tokens: Map<string, AuthToken> = new Map();
   private secret: string;
-  private revokedTokens: Set<string> = new Set();
+  private store: TokenStore;
+  // Static tokens from ALLOWED_TOKENS, raw token -> token ID
+  private staticTokens: Map<string, string> = new Map();
+  // Names of HYPERMANAGER_API_KEYS a token may refer to; any name when unset
+  private upstreamKeyNames: string[] | undefined;
 
-  constructor(secret: string, initialTokens: string[] = []) {
+  constructor(secret: string, initialTokens: string[] = [], store: TokenStore = new MemoryTokenStore(), upstreamKeyNames?: string[]) {
     this.secret = secret;
+    this.store = store;
+    this.upstreamKeyNames = upstreamKeyNames;
     
     logger.info('AuthManager Initializing:', {
       secretLength: secret.length,
-      initialTokensCount: initialTokens.length
+      initialTokensCount: initialTokens.length,
+      tokenStore: store.constructor.name
     });
     
     // Add initial static tokens if provided
     initialTokens.forEach((token, index) => {
+      const id = staticTokenId(token);
+      const existing = this.store.getToken(id);
       const authToken: AuthToken = {
-        id: `static-${index}`,
+        id,
         type: 'master',
         permissions: PERMISSION_SETS['master'] || [],
-        createdAt: new Date(),
-        description: `Initial static token ${index + 1}`
+        createdAt: existing?.createdAt ?? new Date(),
+        description: `Initial static token ${index + 1}`,
+        ...(existing?.lastUsed && { lastUsed: existing.lastUsed })
       };
-      this.tokens.set(token, authToken);
+      this.staticTokens.set(token, id);
+      this.store.saveToken(authToken);
       
       logger.debug('Static Token Added:', {
         tokenId: authToken.id,
@@ -54,19 +89,26 @@ export class AuthManager {
     });
     
     logger.info('AuthManager Initialized:', {
-      totalTokens: this.tokens.size,
+      totalTokens: this.store.listTokens().length,
+      revokedTokens: this.store.listRevoked().length,
       masterPermissions: PERMISSION_SETS['master'] || []
     });
   }
 
-  generateToken(type: TokenType, expiresIn?: string, description?: string): string {
+  generateToken(type: TokenType, expiresIn?: string, description?: string, scope: TokenScope = {}): string {
     const tokenId = uuidv4();
-    const permissions = PERMISSION_SETS[type] || [];
+    const permissions = this.resolvePermissions(type, scope.permissions);
+    const projects = this.normalizeProjects(type, scope.projects);
+    const rateLimits = scope.rateLimits && normalizeRateLimits(scope.rateLimits);
+    const upstream = this.normalizeUpstream(type, scope.upstream);
     
     const authToken: AuthToken = {
       id: tokenId,
       type,
       permissions,
+      ...(projects && { projects }),
+      ...(rateLimits && { rateLimits }),
+      ...(upstream && { upstream }),
       createdAt: new Date(),
       ...(description && { description })
     };
@@ -78,10 +120,13 @@ export class AuthManager {
       authToken.expiresAt = expiresAt;
     }
 
+    // The credential travels in the JWT too, so the token works without its stored metadata
     const payload: JWTPayload = {
       tokenId,
       type,
       permissions,
+      ...(projects && { projects }),
+      ...(upstream && { upstream }),
       iat: Math.floor(Date.now() / 1000)
     };
 
@@ -90,52 +135,55 @@ export class AuthManager {
     }
 
     const token = jwt.sign(payload, this.secret);
-    this.tokens.set(token, authToken);
+    this.store.saveToken(authToken);
+
+    logger.info('Token Generated:', {
+      tokenId,
+      tokenType: type,
+      upstream: describeUpstreamCredential(upstream)
+    });
     
     return token;
   }
 
+  /**
+   * Identity for local stdio sessions when no MCP_STDIO_TOKEN is configured.
+   * The process owner already controls the API key, so it gets master rights.
+   */
+  createLocalToken(): AuthToken {
+    return {
+      id: 'local-stdio',
+      type: 'master',
+      permissions: PERMISSION_SETS['master'] || [],
+      createdAt: new Date(),
+      description: 'Local stdio session'
+    };
+  }
+
   verifyToken(token: string): AuthToken | null {
     const tokenPrefix = token.substring(0, 10) + '...';
+    const staticTokenId = this.staticTokens.get(token);
     
     logger.debug('Token Verification Started:', {
       tokenPrefix,
       tokenLength: token.length,
-      isRevoked: this.revokedTokens.has(token),
-      isStatic: this.tokens.has(token)
+      isStatic: staticTokenId !== undefined
     });
 
-    // Check if token is revoked
-    if (this.revokedTokens.has(token)) {
-      logger.warn('Token Verification Failed - Revoked:', { tokenPrefix });
-      return null;
-    }
-
     // Check if it's a static token
-    if (this.tokens.has(token)) {
-      const authToken = this.tokens.get(token)!;
-      
-      logger.debug('Static Token Found:', {
-        tokenPrefix,
-        tokenId: authToken.id,
-        tokenType: authToken.type,
-        expiresAt: authToken.expiresAt,
-        isExpired: authToken.expiresAt ? authToken.expiresAt < new Date() : false
-      });
-      
-      // Check expiration
-      if (authToken.expiresAt && authToken.expiresAt < new Date()) {
-        logger.warn('Token Verification Failed - Expired:', {
-          tokenPrefix,
-          tokenId: authToken.id,
-          expiresAt: authToken.expiresAt
-        });
-        this.tokens.delete(token);
+    if (staticTokenId !== undefined) {
+      if (this.store.isRevoked(staticTokenId)) {
+        logger.warn('Token Verification Failed - Revoked:', { tokenPrefix, tokenId: staticTokenId });
         return null;
       }
 
-      // Update last used
-      authToken.lastUsed = new Date();
+      const authToken = this.store.getToken(staticTokenId);
+      if (!authToken) {
+        logger.warn('Token Verification Failed - Static Token Missing From Store:', { tokenPrefix, tokenId: staticTokenId });
+        return null;
+      }
+
+      this.markUsed(authToken);
       
       logger.info('Token Verification Successful - Static:', {
         tokenPrefix,
@@ -161,19 +209,34 @@ export class AuthManager {
         iat: payload.iat,
         exp: payload.exp
       });
+
+      // Check if token is revoked
+      if (payload.tokenId && this.store.isRevoked(payload.tokenId)) {
+        logger.warn('Token Verification Failed - Revoked:', { tokenPrefix, tokenId: payload.tokenId });
+        return null;
+      }
       
       // Check if we have the token in our store
-      if (this.tokens.has(token)) {
-        const authToken = this.tokens.get(token)!;
-        authToken.lastUsed = new Date();
+      const stored = payload.tokenId ? this.store.getToken(payload.tokenId) : undefined;
+      if (stored) {
+        if (stored.expiresAt && stored.expiresAt < new Date()) {
+          logger.warn('Token Verification Failed - Expired:', {
+            tokenPrefix,
+            tokenId: stored.id,
+            expiresAt: stored.expiresAt
+          });
+          return null;
+        }
+
+        this.markUsed(stored);
         
         logger.info('Token Verification Successful - JWT (Stored):', {
           tokenPrefix,
-          tokenId: authToken.id,
-          tokenType: authToken.type
+          tokenId: stored.id,
+          tokenType: stored.type
         });
         
-        return authToken;
+        return stored;
       }
 
       // Create auth token from JWT payload
@@ -181,6 +244,8 @@ export class AuthManager {
         id: payload.tokenId || 'unknown',
         type: payload.type,
         permissions: payload.permissions,
+        ...(payload.projects && { projects: payload.projects }),
+        ...(payload.upstream && { upstream: payload.upstream }),
         createdAt: new Date(payload.iat * 1000),
         lastUsed: new Date()
       };
@@ -210,24 +275,143 @@ export class AuthManager {
     }
   }
 
-  revokeToken(token: string): boolean {
-    this.revokedTokens.add(token);
-    return this.tokens.delete(token);
+  /**
+   * Revoke a token given either the raw token string or its token ID.
+   * The revocation is recorded by token ID, so it survives restarts and
+   * applies to every copy of the token. Returns false when no metadata was
+   * stored for the token (it is revoked regardless).
+   */
+  revokeToken(tokenOrId: string): boolean {
+    const tokenId = this.resolveTokenId(tokenOrId);
+    const stored = this.store.getToken(tokenId);
+
+    this.store.revoke(tokenId, stored?.expiresAt);
+
+    logger.info('Token Revoked:', {
+      tokenId,
+      known: stored !== undefined
+    });
+
+    return stored !== undefined;
   }
 
+  /**
+   * Active tokens: known to the store, not expired and not revoked
+   */
   listTokens(): AuthToken[] {
-    return Array.from(this.tokens.values()).filter(token => 
-      !token.expiresAt || token.expiresAt > new Date()
+    const now = new Date();
+    return this.store.listTokens().filter(token => 
+      (!token.expiresAt || token.expiresAt > now) && !this.store.isRevoked(token.id)
     );
   }
 
+  /**
+   * Whether a token ID is still usable: not revoked and, when its metadata
+   * is stored, not expired
+   */
+  isTokenActive(tokenId: string): boolean {
+    if (this.store.isRevoked(tokenId)) {
+      return false;
+    }
+    const stored = this.store.getToken(tokenId);
+    return !stored?.expiresAt || stored.expiresAt > new Date();
+  }
+
+  listRevokedTokens(): RevokedToken[] {
+    return this.store.listRevoked();
+  }
+
   hasPermission(token: AuthToken, requiredPermissions: string[]): boolean {
     return requiredPermissions.every(permission => 
       token.permissions.includes(permission)
     );
   }
 
-  private parseDuration(duration: string): number {
+  /**
+   * Whether the token may touch `project` (a project code). Tokens without
+   * a project list are not restricted.
+   */
+  canAccessProject(token: AuthToken, project: string): boolean {
+    return !token.projects || token.projects.includes(project);
+  }
+
+  private resolvePermissions(type: TokenType, permissions?: string[]): string[] {
+    if (type !== 'custom' && !PERMISSION_SETS[type]) {
+      throw new Error(`Invalid token type "${type}". Must be one of: master, team, readonly, custom`);
+    }
+    if (permissions !== undefined && (!Array.isArray(permissions) || permissions.some(permission => typeof permission !== 'string'))) {
+      throw new Error('Permissions must be a list of strings');
+    }
+    if (type !== 'custom') {
+      if (permissions) {
+        throw new Error('An explicit permission list requires token type "custom"');
+      }
+      return PERMISSION_SETS[type] || [];
+    }
+
+    if (!permissions || permissions.length === 0) {
+      throw new Error('Custom tokens need at least one permission');
+    }
+    const unknown = permissions.filter(permission => !KNOWN_PERMISSIONS.includes(permission));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown permissions: ${unknown.join(', ')}. Valid permissions: ${KNOWN_PERMISSIONS.join(', ')}`);
+    }
+    return Array.from(new Set(permissions));
+  }
+
+  private normalizeProjects(type: TokenType, projects?: string[]): string[] | undefined {
+    if (!projects) {
+      return undefined;
+    }
+    if (!Array.isArray(projects) || projects.some(project => typeof project !== 'string')) {
+      throw new Error('Projects must be a list of project codes');
+    }
+    // Master tokens can mint new tokens, so a project restriction on them would not hold
+    if (type === 'master') {
+      throw new Error('Master tokens cannot be restricted to projects');
+    }
+    const codes = Array.from(new Set(projects.map(project => project.trim()).filter(project => project.length > 0)));
+    if (codes.length === 0) {
+      throw new Error('Project list must contain at least one project code');
+    }
+    return codes;
+  }
+
+  private normalizeUpstream(type: TokenType, upstream?: TokenScope['upstream']): UpstreamCredential | undefined {
+    if (!upstream) {
+      return undefined;
+    }
+    // Like a project restriction, other credentials would not hold on a token that mints tokens
+    if (type === 'master') {
+      throw new Error('Master tokens always use the server\'s HyperManager API key');
+    }
+    if ('apiKey' in upstream) {
+      if (typeof upstream.apiKey !== 'string' || !upstream.apiKey.trim()) {
+        throw new Error('The upstream API key must be a non-empty string');
+      }
+      return { encryptedApiKey: encryptApiKey(upstream.apiKey.trim(), this.secret) };
+    }
+    if ('apiKeyRef' in upstream) {
+      if (typeof upstream.apiKeyRef !== 'string' || !upstream.apiKeyRef) {
+        throw new Error('The upstream API key name must be a non-empty string');
+      }
+      if (this.upstreamKeyNames && !this.upstreamKeyNames.includes(upstream.apiKeyRef)) {
+        throw new Error(`Unknown upstream API key ${upstream.apiKeyRef}. Keys named in HYPERMANAGER_API_KEYS: ${this.upstreamKeyNames.join(', ') || '(none)'}`);
+      }
+      return { apiKeyRef: upstream.apiKeyRef };
+    }
+    if ('encryptedApiKey' in upstream && typeof upstream.encryptedApiKey === 'string') {
+      // Passed on from another token (OAuth): it must be readable by this server
+      decryptApiKey(upstream.encryptedApiKey, this.secret);
+      return { encryptedApiKey: upstream.encryptedApiKey };
+    }
+    throw new Error('Upstream credentials need an apiKey or an apiKeyRef');
+  }
+
+  /**
+   * Convert a duration such as `30s`, `5m`, `2h` or `7d` to milliseconds
+   */
+  parseDuration(duration: string): number {
     const match = duration.match(/^(\d+)([smhd])$/);
     if (!match) {
       throw new Error('Invalid duration format. Use format like: 30s, 5m, 2h, 7d');
@@ -245,13 +429,34 @@ export class AuthManager {
     }
   }
 
-  // Clean up expired tokens
+  // Clean up expired tokens and revocations that no longer matter
   cleanup(): void {
     const now = new Date();
-    for (const [token, authToken] of this.tokens.entries()) {
+    for (const authToken of this.store.listTokens()) {
       if (authToken.expiresAt && authToken.expiresAt < now) {
-        this.tokens.delete(token);
+        this.store.deleteToken(authToken.id);
       }
     }
+    this.store.pruneRevoked(now);
+  }
+
+  // Persist pending usage timestamps before the process exits
+  shutdown(): void {
+    this.store.flush();
+  }
+
+  private markUsed(authToken: AuthToken): void {
+    authToken.lastUsed = new Date();
+    this.store.recordUsage(authToken.id, authToken.lastUsed);
+  }
+
+  private resolveTokenId(tokenOrId: string): string {
+    const staticTokenId = this.staticTokens.get(tokenOrId);
+    if (staticTokenId !== undefined) {
+      return staticTokenId;
+    }
+    // Decoding without verification is enough to find the ID to revoke
+    const decoded = jwt.decode(tokenOrId) as JWTPayload | null;
+    return decoded?.tokenId || tokenOrId;
   }
 }
@@ -0,0 +1,61 @@
+import {
+  DiagramCreateRequest,
+  DiagramUpdateRequest,
+  ProjectCreateRequest,
+  StoryUpdateRequest,
+  FeatureAddRequest,
+  ActorAddRequest,
+  StoryAddRequest,
+  Project,
+  ProjectTree,
+  Actor,
+  Story,
+  StoryTree,
+  Feature,
+  FeatureType,
+  Diagram
+} from './types.js';
+
+/**
+ * Operations the MCP server needs from a project backlog backend.
+ *
+ * Tools, resources and prompts depend on this interface rather than on
+ * HyperManagerAPIClient directly, so an in-memory implementation can be
+ * plugged in for tests and offline demos. Structured responses are returned
+ * as parsed domain objects; images, URLs and PlantUML text stay strings.
+ */
+export interface BacklogBackend {
+  // Diagram methods
+  createDiagram(data: DiagramCreateRequest): Promise<Diagram>;
+  listDiagrams(): Promise<Diagram[]>;
+  getDiagram(id: string): Promise<Diagram>;
+  updateDiagram(id: string, data: DiagramUpdateRequest): Promise<Diagram>;
+  getDiagramPng(diagramName: string): Promise<string>;
+  getDiagramPlantUmlUrl(diagramName: string): Promise<string>;
+  getDiagramDefinition(name: string): Promise<string>;
+  updateDiagramDefinition(name: string, definition: string): Promise<Diagram>;
+  updateDiagramGraphic(diagramName: string, data: string): Promise<string>;
+
+  // Project methods
+  createProject(data: ProjectCreateRequest): Promise<Project>;
+  listProjects(): Promise<Project[]>;
+  getProjectTree(project: string): Promise<ProjectTree>;
+
+  // Story methods
+  getStoryTree(storyId: string): Promise<StoryTree>;
+  updateStory(data: StoryUpdateRequest): Promise<Story>;
+
+  // Feature methods
+  refreshFeatureTypes(): Promise<FeatureType[]>;
+  listFeatureTypes(): Promise<FeatureType[]>;
+  addFeatureToStory(story: string, data: FeatureAddRequest): Promise<Feature>;
+  addChildFeature(parent: string, data: FeatureAddRequest): Promise<Feature>;
+  adoptChildFeature(parent: string, child: string): Promise<Feature>;
+
+  // Actor methods
+  addActor(project: string, data: ActorAddRequest): Promise<Actor>;
+  addStoryToActor(project: string, name: string, data: StoryAddRequest): Promise<Story>;
+
+  // Utility methods
+  normalizeTasks(): Promise<string>;
+}
@@ -0,0 +1,299 @@
+import { FeatureNode, ProjectTree, StoryTree } from './types.js';
+
+export const EXPORT_FORMATS = ['markdown', 'csv', 'json', 'jira-csv', 'github-json'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  'jira-csv': 'text/csv',
+  'github-json': 'application/json'
+};
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+// Normalized JSON: only known fields, in a fixed order, without upstream extras.
+// It is also a valid import_backlog document for the same project.
+export interface ExportedFeature {
+  id: string;
+  name: string;
+  type?: string;
+  description?: string;
+  children: ExportedFeature[];
+}
+
+export interface ExportedStory {
+  id: string;
+  action: string;
+  objective?: string;
+  scenario?: string;
+  features: ExportedFeature[];
+}
+
+export interface ExportedActor {
+  id: string;
+  name: string;
+  description?: string;
+  stories: ExportedStory[];
+}
+
+export interface ExportedProject {
+  project: string;
+  id: string;
+  name: string;
+  clientName?: string;
+  description?: string;
+  actors: ExportedActor[];
+}
+
+function normalizeFeature(feature: FeatureNode): ExportedFeature {
+  return {
+    id: feature.id,
+    name: feature.name,
+    ...(feature.type && { type: feature.type }),
+    ...(feature.description && { description: feature.description }),
+    children: feature.children.map(normalizeFeature)
+  };
+}
+
+function normalizeStory(story: StoryTree): ExportedStory {
+  return {
+    id: story.id,
+    action: story.action || `(story ${story.id})`,
+    ...(story.objective && { objective: story.objective }),
+    ...(story.scenario && { scenario: story.scenario }),
+    features: story.features.map(normalizeFeature)
+  };
+}
+
+export function normalizeProjectTree(tree: ProjectTree): ExportedProject {
+  return {
+    project: tree.code,
+    id: tree.id,
+    name: tree.name,
+    ...(tree.clientName && { clientName: tree.clientName }),
+    ...(tree.description && { description: tree.description }),
+    actors: tree.actors.map(actor => ({
+      id: actor.id,
+      name: actor.name,
+      ...(actor.description && { description: actor.description }),
+      stories: actor.stories.map(normalizeStory)
+    }))
+  };
+}
+
+// Outline lines cannot hold line breaks
+function oneLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
+
+// `- [ ] Name [type]: description`, indented two spaces per level
+function featureChecklist(features: ExportedFeature[], depth = 0): string[] {
+  return features.flatMap(feature => [
+    `${'  '.repeat(depth)}- [ ] ${feature.name}${feature.type ? ` [${feature.type}]` : ''}${feature.description ? `: ${oneLine(feature.description)}` : ''}`,
+    ...featureChecklist(feature.children, depth + 1)
+  ]);
+}
+
+/**
+ * Headings for the project, actors and stories, and a checklist for the
+ * feature hierarchy. The outline can be read back by import_backlog.
+ */
+export function projectToMarkdown(project: ExportedProject): string {
+  const lines: string[] = [`# Project: ${project.project}`, '', project.name];
+  if (project.clientName) {
+    lines.push('', `Client: ${project.clientName}`);
+  }
+  if (project.description) {
+    lines.push('', project.description);
+  }
+
+  for (const actor of project.actors) {
+    lines.push('', `## Actor: ${actor.name}`);
+    if (actor.description) {
+      lines.push('', actor.description);
+    }
+    for (const story of actor.stories) {
+      lines.push('', `### Story: ${story.action}`);
+      if (story.objective || story.scenario) {
+        lines.push('');
+      }
+      if (story.objective) {
+        lines.push(`Objective: ${oneLine(story.objective)}`);
+      }
+      if (story.scenario) {
+        lines.push(`Scenario: ${oneLine(story.scenario)}`);
+      }
+      if (story.features.length > 0) {
+        lines.push('', ...featureChecklist(story.features));
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export const CSV_COLUMNS = [
+  'project', 'actor', 'story_id', 'story', 'feature_id', 'feature', 'type', 'description', 'parent_id', 'path', 'depth'
+] as const;
+
+/**
+ * Quote a CSV field when needed (RFC 4180). Values a spreadsheet would run
+ * as a formula get a leading apostrophe.
+ */
+export function csvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(fields: (string | number | undefined)[]): string {
+  return fields.map(csvField).join(',');
+}
+
+/**
+ * One row per feature, with the names of its ancestors in `path`. A story
+ * without features still gets a row, with the feature columns empty.
+ */
+export function projectToCsv(project: ExportedProject): string {
+  const rows = [CSV_COLUMNS.join(',')];
+
+  for (const actor of project.actors) {
+    for (const story of actor.stories) {
+      const storyColumns = [project.project, actor.name, story.id, story.action];
+      if (story.features.length === 0) {
+        rows.push(csvRow([...storyColumns, '', '', '', '', '', '', '']));
+      }
+      const visit = (features: ExportedFeature[], parent: ExportedFeature | undefined, path: string[]) => {
+        for (const feature of features) {
+          const featurePath = [...path, feature.name];
+          rows.push(csvRow([
+            ...storyColumns,
+            feature.id,
+            feature.name,
+            feature.type,
+            feature.description,
+            parent?.id,
+            featurePath.join(' > '),
+            path.length
+          ]));
+          visit(feature.children, feature, featurePath);
+        }
+      };
+      visit(story.features, undefined, []);
+    }
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+export const JIRA_CSV_COLUMNS = [
+  'Issue Id', 'Parent Id', 'Issue Type', 'Summary', 'Description', 'Epic Name', 'Component', 'Labels', 'Feature Path'
+] as const;
+
+// Jira labels cannot contain spaces
+function jiraLabel(text: string | undefined): string | undefined {
+  return text ? text.trim().replace(/\s+/g, '-') : undefined;
+}
+
+function storyDetails(story: ExportedStory): string {
+  return [
+    ...(story.objective ? [`Objective: ${oneLine(story.objective)}`] : []),
+    ...(story.scenario ? [`Scenario: ${oneLine(story.scenario)}`] : [])
+  ].join('\n');
+}
+
+/**
+ * Jira's CSV import format. Stories become epics, top-level features tasks
+ * of their epic, and deeper features sub-tasks of their top-level task,
+ * since Jira stops at sub-tasks. `Issue Id` and `Parent Id` only link rows
+ * of the file; `Feature Path` keeps the full hierarchy for import_backlog.
+ */
+export function projectToJiraCsv(project: ExportedProject): string {
+  const rows = [JIRA_CSV_COLUMNS.join(',')];
+  let nextId = 1;
+
+  for (const actor of project.actors) {
+    for (const story of actor.stories) {
+      const epicId = nextId++;
+      rows.push(csvRow([epicId, undefined, 'Epic', story.action, storyDetails(story), story.action, actor.name, undefined, undefined]));
+
+      const visit = (features: ExportedFeature[], taskId: number | undefined, path: string[]) => {
+        for (const feature of features) {
+          const id = nextId++;
+          const featurePath = [...path, feature.name];
+          rows.push(csvRow([
+            id,
+            taskId ?? epicId,
+            taskId === undefined ? 'Task' : 'Sub-task',
+            feature.name,
+            feature.description,
+            undefined,
+            actor.name,
+            jiraLabel(feature.type),
+            featurePath.join(' > ')
+          ]));
+          visit(feature.children, taskId ?? id, featurePath);
+        }
+      };
+      visit(story.features, undefined, []);
+    }
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+// Body of a GitHub issue created with POST /repos/{owner}/{repo}/issues
+export interface GitHubIssue {
+  title: string;
+  body: string;
+  labels: string[];
+}
+
+/**
+ * One GitHub issue per story, labelled with its actor, and its features as
+ * a nested task list in the body
+ */
+export function projectToGitHubIssues(project: ExportedProject): GitHubIssue[] {
+  const issues: GitHubIssue[] = [];
+
+  for (const actor of project.actors) {
+    for (const story of actor.stories) {
+      const lines = [`**Actor:** ${actor.name}`];
+      if (story.objective) {
+        lines.push(`**Objective:** ${oneLine(story.objective)}`);
+      }
+      if (story.scenario) {
+        lines.push(`**Scenario:** ${oneLine(story.scenario)}`);
+      }
+      if (story.features.length > 0) {
+        lines.push('', '### Features', '', ...featureChecklist(story.features));
+      }
+      issues.push({
+        title: story.action,
+        body: lines.join('\n'),
+        labels: ['story', `actor:${actor.name}`]
+      });
+    }
+  }
+  return issues;
+}
+
+export function exportProject(tree: ProjectTree, format: ExportFormat): string {
+  const project = normalizeProjectTree(tree);
+  switch (format) {
+    case 'markdown':
+      return projectToMarkdown(project);
+    case 'csv':
+      return projectToCsv(project);
+    case 'json':
+      return JSON.stringify(project, null, 2);
+    case 'jira-csv':
+      return projectToJiraCsv(project);
+    case 'github-json':
+      return JSON.stringify(projectToGitHubIssues(project), null, 2);
+  }
+}
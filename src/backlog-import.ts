@@ -0,0 +1,675 @@
+import { z } from 'zod';
+import YAML from 'yaml';
+import { BacklogBackend } from './backend.js';
+import { ActorTree, FeatureNode, StoryTree } from './types.js';
+
+export const BACKLOG_FORMATS = ['yaml', 'json', 'markdown', 'jira-csv', 'github-json'] as const;
+
+export type BacklogFormat = typeof BACKLOG_FORMATS[number];
+
+// A planned backlog: project → actors → stories → features → child features, plus diagrams
+export interface FeatureOutline {
+  name: string;
+  description?: string | undefined;
+  type?: string | undefined;
+  children: FeatureOutline[];
+}
+
+const FeatureOutlineSchema: z.ZodType<FeatureOutline, z.ZodTypeDef, unknown> = z.object({
+  name: z.string().min(1, 'Feature name is required'),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  children: z.lazy(() => z.array(FeatureOutlineSchema)).default([])
+});
+
+const StoryOutlineSchema = z.object({
+  action: z.string().min(1, 'Story action is required'),
+  objective: z.string().optional(),
+  scenario: z.string().optional(),
+  features: z.array(FeatureOutlineSchema).default([])
+});
+
+const ActorOutlineSchema = z.object({
+  name: z.string().min(1, 'Actor name is required'),
+  description: z.string().optional(),
+  stories: z.array(StoryOutlineSchema).default([])
+});
+
+const DiagramOutlineSchema = z.object({
+  name: z.string().min(1, 'Diagram name is required'),
+  definition: z.string().min(1, 'Diagram definition is required')
+});
+
+export const BacklogDocumentSchema = z.object({
+  project: z.string().min(1, 'project is required'),
+  actors: z.array(ActorOutlineSchema).default([]),
+  diagrams: z.array(DiagramOutlineSchema).default([])
+});
+
+export type BacklogDocument = z.output<typeof BacklogDocumentSchema>;
+type ActorOutline = z.output<typeof ActorOutlineSchema>;
+type StoryOutline = z.output<typeof StoryOutlineSchema>;
+type DiagramOutline = z.output<typeof DiagramOutlineSchema>;
+
+/**
+ * Raised when a backlog document cannot be read. `issues` holds one
+ * message per problem, with a line number or field path.
+ */
+export class BacklogDocumentError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid backlog document: ${issues.join('; ')}`);
+    this.name = 'BacklogDocumentError';
+  }
+}
+
+/**
+ * Format of a backlog file, from its extension
+ */
+export function backlogFormatOf(fileName: string): BacklogFormat | undefined {
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'yml':
+    case 'yaml':
+      return 'yaml';
+    case 'json':
+      return 'json';
+    case 'md':
+    case 'markdown':
+      return 'markdown';
+    default:
+      return undefined;
+  }
+}
+
+export interface BacklogParseOptions {
+  // Project to import into, instead of the one named in the document.
+  // Required for Jira and GitHub files, which do not name one.
+  project?: string;
+  // Actor for Jira issues without a component and GitHub issues without an actor label
+  defaultActor?: string;
+}
+
+export const DEFAULT_IMPORT_ACTOR = 'User';
+
+export function parseBacklogDocument(text: string, format: BacklogFormat, options: BacklogParseOptions = {}): BacklogDocument {
+  if ((format === 'jira-csv' || format === 'github-json') && !options.project) {
+    throw new BacklogDocumentError([`project is required to import a ${format} file`]);
+  }
+  const defaultActor = options.defaultActor || DEFAULT_IMPORT_ACTOR;
+
+  let raw: unknown;
+  try {
+    switch (format) {
+      case 'markdown':
+        raw = parseMarkdownOutline(text);
+        break;
+      case 'json':
+        raw = JSON.parse(text);
+        break;
+      case 'yaml':
+        raw = YAML.parse(text);
+        break;
+      case 'jira-csv':
+        raw = parseJiraCsv(text, defaultActor);
+        break;
+      case 'github-json':
+        raw = parseGitHubIssues(text, defaultActor);
+        break;
+    }
+  } catch (error) {
+    if (error instanceof BacklogDocumentError) {
+      throw error;
+    }
+    throw new BacklogDocumentError([error instanceof Error ? error.message : `Unreadable ${format}`]);
+  }
+  if (options.project && raw && typeof raw === 'object') {
+    raw = { ...raw, project: options.project };
+  }
+
+  const parsed = BacklogDocumentSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new BacklogDocumentError(parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`));
+  }
+  return parsed.data;
+}
+
+const HEADING = /^(#{1,3})\s+(.*?)\s*#*\s*$/;
+// An optional checklist box is ignored, so exported outlines read back
+const LIST_ITEM = /^(\s*)[-*+]\s+(?:\[[ xX]\]\s+)?(.*?)\s*$/;
+const STORY_FIELD = /^(objective|scenario)\s*:\s*(.*?)\s*$/i;
+// "Name [type]: description", type and description optional
+const FEATURE_ITEM = /^(.+?)(?:\s+\[([^\]]+)\])?(?::\s+(.+))?$/;
+
+/**
+ * Builds a feature tree from list items, nesting each item under the
+ * closest previous item with less indentation
+ */
+class FeatureListBuilder {
+  private open: { indent: number; feature: FeatureOutline }[] = [];
+
+  constructor(private readonly root: FeatureOutline[]) {}
+
+  add(indentation: string, text: string): void {
+    const indent = indentation.replace(/\t/g, '  ').length;
+    const [, name, type, description] = text.match(FEATURE_ITEM) ?? [];
+    const feature: FeatureOutline = {
+      name: name ?? text,
+      ...(type && { type }),
+      ...(description && { description }),
+      children: []
+    };
+    while (this.open.length > 0 && this.open[this.open.length - 1]!.indent >= indent) {
+      this.open.pop();
+    }
+    (this.open[this.open.length - 1]?.feature.children ?? this.root).push(feature);
+    this.open.push({ indent, feature });
+  }
+}
+
+function withoutPrefix(text: string, prefix: string): string {
+  const match = text.match(new RegExp(`^${prefix}\\s*:\\s*(.*)$`, 'i'));
+  return match ? match[1]! : text;
+}
+
+/**
+ * Read a Markdown outline:
+ *
+ *     # DEMO                       project code ("Project:" prefix optional), then notes
+ *     ## Customer                  actor ("Actor:" prefix optional), then its description
+ *     ### Pay by card              story action ("Story:" prefix optional)
+ *     Objective: ...               story objective and scenario
+ *     - Payment form [frontend]: description   ("- [ ]" checklist items too)
+ *       - Card validation [backend]
+ *     ## Diagram: Checkout         a diagram, defined by the next fenced code block
+ */
+function parseMarkdownOutline(text: string): unknown {
+  // Diagrams lack their definition until their code block is read; the schema reports any still missing
+  const document: { project?: string; actors: ActorOutline[]; diagrams: Partial<DiagramOutline>[] } = { actors: [], diagrams: [] };
+  const issues: string[] = [];
+  let actor: ActorOutline | undefined;
+  let story: StoryOutline | undefined;
+  let diagram: Partial<DiagramOutline> | undefined;
+  let fence: { lines: string[]; diagram: Partial<DiagramOutline> } | undefined;
+  let features: FeatureListBuilder | undefined;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = index + 1;
+
+    if (fence) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        fence.diagram.definition = fence.lines.join('\n');
+        fence = undefined;
+        diagram = undefined;
+      } else {
+        fence.lines.push(line);
+      }
+      return;
+    }
+    if (/^\s*(```|~~~)/.test(line)) {
+      if (!diagram) {
+        issues.push(`line ${lineNumber}: code block outside a "## Diagram:" section`);
+      }
+      fence = { lines: [], diagram: diagram ?? {} };
+      return;
+    }
+    if (!line.trim()) {
+      return;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1]!.length;
+      const title = heading[2]!;
+      features = undefined;
+      diagram = undefined;
+      if (level === 1) {
+        document.project = withoutPrefix(title, 'project');
+        actor = story = undefined;
+      } else if (level === 2 && /^diagram\s*:/i.test(title)) {
+        diagram = { name: withoutPrefix(title, 'diagram') };
+        document.diagrams.push(diagram);
+        actor = story = undefined;
+      } else if (level === 2) {
+        actor = { name: withoutPrefix(title, 'actor'), stories: [] };
+        document.actors.push(actor);
+        story = undefined;
+      } else if (!actor) {
+        issues.push(`line ${lineNumber}: story "${title}" is not under an actor heading`);
+      } else {
+        story = { action: withoutPrefix(title, 'story'), features: [] };
+        actor.stories.push(story);
+        features = new FeatureListBuilder(story.features);
+      }
+      return;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      if (!features) {
+        issues.push(`line ${lineNumber}: feature "${item[2]}" is not under a story heading`);
+        return;
+      }
+      features.add(item[1]!, item[2]!);
+      return;
+    }
+
+    const field = line.trim().match(STORY_FIELD);
+    if (story && field && story.features.length === 0) {
+      story[field[1]!.toLowerCase() as 'objective' | 'scenario'] = field[2]!;
+      return;
+    }
+    if (!actor && !diagram && document.project !== undefined) {
+      // Notes on the project itself
+      return;
+    }
+    if (actor && !story) {
+      actor.description = actor.description ? `${actor.description} ${line.trim()}` : line.trim();
+      return;
+    }
+    issues.push(`line ${lineNumber}: unexpected text "${line.trim()}"`);
+  });
+
+  if (fence) {
+    issues.push('unterminated code block');
+  }
+  if (issues.length > 0) {
+    throw new BacklogDocumentError(issues);
+  }
+  return document;
+}
+
+/**
+ * Rows of an RFC 4180 CSV file: quoted fields may hold commas, doubled
+ * quotes and line breaks
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new BacklogDocumentError(['unterminated quoted CSV field']);
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+// Undo the apostrophe exports put before cells a spreadsheet would run as a formula
+function unprotect(value: string): string {
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+}
+
+// "Objective: ..." and "Scenario: ..." lines; any other text is taken as the objective
+function storyFields(description: string): { objective?: string; scenario?: string } {
+  const fields: { objective?: string; scenario?: string } = {};
+  const other: string[] = [];
+  for (const line of description.split(/\r?\n/)) {
+    const field = line.trim().match(STORY_FIELD);
+    if (field) {
+      fields[field[1]!.toLowerCase() as 'objective' | 'scenario'] = field[2]!;
+    } else if (line.trim()) {
+      other.push(line.trim());
+    }
+  }
+  if (!fields.objective && other.length > 0) {
+    fields.objective = other.join(' ');
+  }
+  return fields;
+}
+
+/**
+ * Group stories by actor name, keeping the order actors first appear in
+ */
+function byActor(stories: { actor: string; story: StoryOutline }[]): ActorOutline[] {
+  const actors = new Map<string, ActorOutline>();
+  for (const { actor, story } of stories) {
+    const key = actor.trim().toLowerCase();
+    if (!actors.has(key)) {
+      actors.set(key, { name: actor, stories: [] });
+    }
+    actors.get(key)!.stories.push(story);
+  }
+  return Array.from(actors.values());
+}
+
+/**
+ * Read a Jira CSV file, as written by export_project or by Jira's own CSV
+ * export. Epics, and other issues without a parent, become stories of the
+ * actor named in their component; their child issues become features, and
+ * sub-tasks child features. `Feature Path` restores nesting deeper than Jira's.
+ */
+function parseJiraCsv(text: string, defaultActor: string): unknown {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new BacklogDocumentError(['the CSV file is empty']);
+  }
+  const columns = header.map(name => name.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name));
+  const at = {
+    id: column('issue id', 'issue key', 'key'),
+    parent: column('parent id', 'parent'),
+    type: column('issue type'),
+    summary: column('summary'),
+    description: column('description'),
+    component: column('component', 'component/s', 'components'),
+    path: column('feature path')
+  };
+  const labelColumns = columns.flatMap((name, index) => name === 'labels' ? [index] : []);
+  if (at.summary < 0 || at.type < 0) {
+    throw new BacklogDocumentError(['the CSV file needs "Summary" and "Issue Type" columns']);
+  }
+
+  const records = rows.map((row, index) => {
+    const value = (column: number) => column < 0 ? '' : unprotect(row[column] ?? '').trim();
+    return {
+      line: index + 2,
+      id: value(at.id),
+      parent: value(at.parent),
+      type: value(at.type).toLowerCase(),
+      summary: value(at.summary),
+      description: value(at.description),
+      component: value(at.component),
+      label: labelColumns.map(value).find(label => label !== ''),
+      path: value(at.path)
+    };
+  });
+  type JiraRecord = typeof records[number];
+  const byId = new Map(records.filter(record => record.id).map(record => [record.id, record]));
+  const isSubTask = (record: JiraRecord) => /^sub[- ]?task$/.test(record.type);
+  const isStory = (record: JiraRecord) => record.type === 'epic' || (!isSubTask(record) && !byId.has(record.parent));
+
+  const issues: string[] = [];
+  const stories = new Map<JiraRecord, StoryOutline>();
+  const features = new Map<JiraRecord, FeatureOutline>();
+  for (const record of records) {
+    if (isStory(record)) {
+      stories.set(record, { action: record.summary, ...storyFields(record.description), features: [] });
+    } else {
+      features.set(record, {
+        name: record.summary,
+        ...(record.label && { type: record.label }),
+        ...(record.description && { description: record.description }),
+        children: []
+      });
+    }
+  }
+
+  // The story a feature belongs to, through its chain of parents
+  const storyOf = (record: JiraRecord): JiraRecord | undefined => {
+    let current: JiraRecord | undefined = record;
+    for (let depth = 0; current && !stories.has(current) && depth <= records.length; depth++) {
+      current = byId.get(current.parent);
+    }
+    return current && stories.has(current) ? current : undefined;
+  };
+
+  for (const [record, feature] of features) {
+    const story = storyOf(record);
+    if (!story) {
+      issues.push(`line ${record.line}: parent "${record.parent}" of "${record.summary}" is not in the file`);
+      continue;
+    }
+    const pathParent = record.path.split('>').map(part => part.trim()).slice(0, -1).join(' > ');
+    const parent = pathParent
+      ? records.find(candidate => features.has(candidate) && storyOf(candidate) === story
+        && candidate.path.split('>').map(part => part.trim()).join(' > ') === pathParent)
+      : byId.get(record.parent);
+    const parentFeature = parent && features.get(parent);
+    (parentFeature ? parentFeature.children : stories.get(story)!.features).push(feature);
+  }
+  if (issues.length > 0) {
+    throw new BacklogDocumentError(issues);
+  }
+
+  return {
+    actors: byActor(Array.from(stories, ([record, story]) => ({ actor: record.component || defaultActor, story })))
+  };
+}
+
+// The fields read from a GitHub issue; anything else the API returns is ignored
+const GitHubIssueSchema = z.object({
+  title: z.string({ required_error: 'title is required' }).trim().min(1, 'title is required'),
+  body: z.string().nullish(),
+  labels: z.array(z.union([z.string(), z.object({ name: z.string() })])).default([]),
+  pull_request: z.unknown().optional()
+});
+
+const ISSUE_FIELD = /^\*\*(actor|objective|scenario):\*\*\s*(.*?)\s*$/i;
+const TASK_ITEM = /^(\s*)[-*+]\s+\[[ xX]\]\s+(.*?)\s*$/;
+
+/**
+ * Read GitHub issues, as written by export_project or returned by the
+ * GitHub API: each issue is a story, its `actor:` label (or `**Actor:**`
+ * line) names the actor and the task list in its body holds the features.
+ * Pull requests are ignored.
+ */
+function parseGitHubIssues(text: string, defaultActor: string): unknown {
+  const raw = JSON.parse(text);
+  const issues: unknown = Array.isArray(raw) ? raw : raw?.issues;
+  if (!Array.isArray(issues)) {
+    throw new BacklogDocumentError(['expected an array of issues or an object with an "issues" array']);
+  }
+
+  const problems: string[] = [];
+  const stories: { actor: string; story: StoryOutline }[] = [];
+  issues.forEach((raw, index) => {
+    const parsed = GitHubIssueSchema.safeParse(raw);
+    if (!parsed.success) {
+      problems.push(...parsed.error.issues.map(issue => `issues.${[index, ...issue.path].join('.')}: ${issue.message}`));
+      return;
+    }
+    const issue = parsed.data;
+    if (issue.pull_request) {
+      return;
+    }
+
+    const labels = issue.labels.map(label => typeof label === 'string' ? label : label.name);
+    const fields: Record<string, string> = {};
+    const features: FeatureOutline[] = [];
+    const builder = new FeatureListBuilder(features);
+    for (const line of (issue.body ?? '').split(/\r?\n/)) {
+      const field = line.trim().match(ISSUE_FIELD);
+      const item = line.match(TASK_ITEM);
+      if (field) {
+        fields[field[1]!.toLowerCase()] = field[2]!;
+      } else if (item) {
+        builder.add(item[1]!, item[2]!);
+      }
+    }
+
+    const actor = labels.find(label => /^actor:/i.test(label))?.replace(/^actor:\s*/i, '') || fields['actor'] || defaultActor;
+    stories.push({
+      actor,
+      story: {
+        action: issue.title,
+        ...(fields['objective'] && { objective: fields['objective'] }),
+        ...(fields['scenario'] && { scenario: fields['scenario'] }),
+        features
+      }
+    });
+  });
+  if (problems.length > 0) {
+    throw new BacklogDocumentError(problems);
+  }
+
+  return { actors: byActor(stories) };
+}
+
+// The reads and creations an import needs, from the API client or through the tool dispatcher
+export type ImportTarget = Pick<
+  BacklogBackend,
+  'getProjectTree' | 'listDiagrams' | 'addActor' | 'addStoryToActor' | 'addFeatureToStory' | 'addChildFeature' | 'createDiagram'
+>;
+
+export interface ImportItem {
+  kind: 'actor' | 'story' | 'feature' | 'diagram';
+  // Names from the actor down, e.g. "Customer / Pay by card / Payment form"
+  path: string;
+  // `planned` is what a dry run would create; `skipped` was not tried after a failure
+  status: 'exists' | 'created' | 'planned' | 'failed' | 'skipped';
+  id?: string;
+  error?: string;
+}
+
+export interface ImportReport {
+  project: string;
+  dryRun: boolean;
+  created: number;
+  existing: number;
+  planned: number;
+  failed: number;
+  items: ImportItem[];
+}
+
+function sameName(a: string | undefined, b: string): boolean {
+  return (a ?? '').trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Create what the document describes and the project tree lacks. Actors,
+ * stories, features and diagrams are matched by name (stories by action),
+ * ignoring case; existing entities are never modified. The import stops at
+ * the first failed creation and can simply be run again to resume it.
+ */
+export async function importBacklog(
+  target: ImportTarget,
+  document: BacklogDocument,
+  options: { dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  const dryRun = options.dryRun ?? false;
+  const items: ImportItem[] = [];
+  let failed = false;
+
+  /**
+   * Record one entity and create it when missing. Returns the ID to create
+   * children under, or undefined when there is none (planned or failed).
+   */
+  const ensure = async (
+    kind: ImportItem['kind'],
+    path: string,
+    existingId: string | undefined,
+    parentKnown: boolean,
+    create: () => Promise<{ id?: unknown; dryRun?: unknown }>
+  ): Promise<string | undefined> => {
+    if (existingId) {
+      items.push({ kind, path, status: 'exists', id: existingId });
+      return existingId;
+    }
+    if (failed) {
+      items.push({ kind, path, status: 'skipped' });
+      return undefined;
+    }
+    if (dryRun || !parentKnown) {
+      items.push({ kind, path, status: 'planned' });
+      return undefined;
+    }
+    try {
+      const created = await create();
+      // A server-wide dry run answers with a preview instead of an entity
+      if (created.dryRun === true || typeof created.id !== 'string') {
+        items.push({ kind, path, status: 'planned' });
+        return undefined;
+      }
+      items.push({ kind, path, status: 'created', id: created.id });
+      return created.id;
+    } catch (error) {
+      failed = true;
+      items.push({ kind, path, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+      return undefined;
+    }
+  };
+
+  const ensureFeatures = async (
+    outlines: FeatureOutline[],
+    existing: FeatureNode[],
+    parent: { kind: 'story' | 'feature'; id: string | undefined; path: string }
+  ): Promise<void> => {
+    for (const outline of outlines) {
+      const match = existing.find(feature => sameName(feature.name, outline.name));
+      const path = `${parent.path} / ${outline.name}`;
+      const data = {
+        name: outline.name,
+        ...(outline.description && { description: outline.description }),
+        ...(outline.type && { type: outline.type })
+      };
+      const id = await ensure('feature', path, match?.id, parent.id !== undefined, () => parent.kind === 'story'
+        ? target.addFeatureToStory(parent.id!, data)
+        : target.addChildFeature(parent.id!, data));
+      await ensureFeatures(outline.children, match?.children ?? [], { kind: 'feature', id, path });
+    }
+  };
+
+  const tree = await target.getProjectTree(document.project);
+
+  for (const actorOutline of document.actors) {
+    const actor: ActorTree | undefined = tree.actors.find(candidate => sameName(candidate.name, actorOutline.name));
+    const actorId = await ensure('actor', actorOutline.name, actor?.id, true, () => target.addActor(document.project, {
+      name: actorOutline.name,
+      ...(actorOutline.description && { description: actorOutline.description })
+    }));
+
+    for (const storyOutline of actorOutline.stories) {
+      const story: StoryTree | undefined = actor?.stories.find(candidate => sameName(candidate.action, storyOutline.action));
+      const path = `${actorOutline.name} / ${storyOutline.action}`;
+      // Stories are added by actor name, so a newly created actor is enough
+      const storyId = await ensure('story', path, story?.id, actorId !== undefined, () => target.addStoryToActor(document.project, actor?.name ?? actorOutline.name, {
+        action: storyOutline.action,
+        ...(storyOutline.objective && { objective: storyOutline.objective }),
+        ...(storyOutline.scenario && { scenario: storyOutline.scenario })
+      }));
+      await ensureFeatures(storyOutline.features, story?.features ?? [], { kind: 'story', id: storyId, path });
+    }
+  }
+
+  if (document.diagrams.length > 0) {
+    const diagrams = await target.listDiagrams();
+    for (const outline of document.diagrams) {
+      const diagram = diagrams.find(candidate => sameName(candidate.name, outline.name));
+      await ensure('diagram', outline.name, diagram?.id, true, () => target.createDiagram(outline));
+    }
+  }
+
+  const count = (status: ImportItem['status']) => items.filter(item => item.status === status).length;
+  return {
+    project: document.project,
+    dryRun,
+    created: count('created'),
+    existing: count('exists'),
+    planned: count('planned'),
+    failed: count('failed'),
+    items
+  };
+}
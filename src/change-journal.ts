@@ -0,0 +1,529 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import { v4 as uuidv4 } from 'uuid';
+import { BacklogBackend } from './backend.js';
+import { ProjectResolver } from './project-resolver.js';
+import { toolProjectReferences } from './handlers/access-control.js';
+import { bypassPreview } from './upstream-calls.js';
+import { bypassResponseCache } from './response-cache.js';
+import { currentUpstreamTenant, DEFAULT_TENANT } from './upstream-clients.js';
+import { AuthToken, FeatureNode, StoryTree, StoryUpdateRequest } from './types.js';
+
+/**
+ * A call that puts a changed entity back as it was, through an existing
+ * HyperManager endpoint
+ */
+export type UndoStep =
+  | { tool: 'update_story'; arguments: { data: StoryUpdateRequest } }
+  | { tool: 'adopt_child_feature'; arguments: { parent: string; child: string } }
+  | { tool: 'update_diagram'; arguments: { id: string; name: string } }
+  | { tool: 'update_diagram_definition'; arguments: { name: string; definition: string } };
+
+/**
+ * One successful mutating tool call. `before` and `after` are snapshots of
+ * what the call changed; `undo` restores `before`, and `irreversible`
+ * explains why there is no `undo`.
+ */
+export interface ChangeEntry {
+  id: string;
+  timestamp: string;
+  requestId: string;
+  tokenId: string;
+  tool: string;
+  arguments: unknown;
+  projects: string[];
+  entities: string[];
+  // Upstream tenant the change was made in, when not the default one
+  upstream?: string;
+  before?: unknown;
+  after?: unknown;
+  undo?: UndoStep;
+  irreversible?: string;
+  undone?: { at: string; tokenId: string };
+}
+
+export interface ChangeQuery {
+  tokenId?: string;
+  tool?: string;
+  project?: string;
+  entityId?: string;
+  limit?: number;
+}
+
+export interface UndoOptions {
+  // Restore even when the entity changed again since
+  force?: boolean;
+  authToken: AuthToken;
+}
+
+export interface UndoOutcome {
+  changeId: string;
+  tool: string;
+  restored: UndoStep;
+  result: unknown;
+}
+
+/**
+ * A mutating call about to run, with the snapshot taken before it
+ */
+export interface PendingChange {
+  tool: string;
+  arguments: unknown;
+  authToken: AuthToken;
+  before?: unknown;
+  snapshotError?: string;
+}
+
+interface SnapshotContext {
+  client: BacklogBackend;
+  projectResolver: ProjectResolver;
+  authToken: AuthToken;
+}
+
+interface ChangeSpec {
+  // Read what the call is about to change; read again afterwards for `after`
+  snapshot?: (context: SnapshotContext, args: any) => Promise<unknown>;
+  // The part of a snapshot that `undo` restores, compared to detect later edits
+  restored?: (snapshot: any, args: any) => unknown;
+  // How to restore `before`, or why that is impossible
+  undo: (before: any, args: any, result: any) => UndoStep | string;
+}
+
+const STORY_FIELDS = ['action', 'objective', 'scenario'] as const;
+
+function changedStoryFields(args: any): (typeof STORY_FIELDS)[number][] {
+  return STORY_FIELDS.filter(field => args?.data?.[field] !== undefined);
+}
+
+interface FeatureLocation {
+  project: string;
+  storyId: string;
+  parentId: string | null;
+  story: StoryTree;
+}
+
+/**
+ * Find the story and parent of a feature in the project trees the token may see
+ */
+async function locateFeature(context: SnapshotContext, featureId: string): Promise<FeatureLocation> {
+  const candidates = context.authToken.projects
+    ?? (await context.projectResolver.listProjects()).map(project => project.code);
+  const project = await context.projectResolver.owningProject(featureId, candidates);
+  if (project) {
+    const tree = await context.client.getProjectTree(project);
+    for (const actor of tree.actors) {
+      for (const story of actor.stories) {
+        const search = (features: FeatureNode[], parentId: string | null): string | null | undefined => {
+          for (const feature of features) {
+            if (feature.id === featureId) {
+              return parentId;
+            }
+            const found = search(feature.children, feature.id);
+            if (found !== undefined) {
+              return found;
+            }
+          }
+          return undefined;
+        };
+        const parentId = search(story.features, null);
+        if (parentId !== undefined) {
+          return { project, storyId: story.id, parentId, story };
+        }
+      }
+    }
+  }
+  throw new Error(`Feature ${featureId} not found`);
+}
+
+const diagramDefinitionSpec = (nameArgument: 'name' | 'diagramName'): ChangeSpec => ({
+  snapshot: (context, args) => context.client.getDiagramDefinition(args[nameArgument]),
+  restored: snapshot => snapshot,
+  undo: (before, args) => before
+    ? { tool: 'update_diagram_definition', arguments: { name: args[nameArgument], definition: before } }
+    : `Diagram ${args[nameArgument]} had no definition before the change`
+});
+
+const CHANGE_SPECS: Record<string, ChangeSpec> = {
+  update_story: {
+    snapshot: (context, args) => context.client.getStoryTree(args.data.id),
+    restored: (snapshot, args) => Object.fromEntries(changedStoryFields(args).map(field => [field, snapshot[field] ?? null])),
+    undo: (before, args) => {
+      const fields = changedStoryFields(args);
+      const empty = fields.filter(field => !before[field]);
+      if (empty.length > 0) {
+        return `Story ${args.data.id} had no ${empty.join(', ')} before the change, and update_story cannot clear a field`;
+      }
+      return {
+        tool: 'update_story',
+        arguments: { data: { id: args.data.id, ...Object.fromEntries(fields.map(field => [field, before[field]])) } }
+      };
+    }
+  },
+  adopt_child_feature: {
+    snapshot: (context, args) => locateFeature(context, args.child),
+    restored: (snapshot: FeatureLocation) => ({ storyId: snapshot.storyId, parentId: snapshot.parentId }),
+    undo: (before: FeatureLocation, args) => before.parentId
+      ? { tool: 'adopt_child_feature', arguments: { parent: before.parentId, child: args.child } }
+      : `Feature ${args.child} was a top-level feature of story ${before.storyId}, and no endpoint detaches a feature from its parent`
+  },
+  update_diagram: {
+    snapshot: (context, args) => context.client.getDiagram(args.id),
+    restored: snapshot => ({ name: snapshot.name }),
+    undo: (before, args) => ({ tool: 'update_diagram', arguments: { id: args.id, name: before.name } })
+  },
+  update_diagram_definition: diagramDefinitionSpec('name'),
+  update_diagram_graphic: diagramDefinitionSpec('diagramName'),
+  add_feature_to_story: {
+    undo: (_before, args, result) => `No endpoint deletes a feature: remove feature ${result?.id} from story ${args.story} by hand`
+  },
+  add_child_feature: {
+    undo: (_before, args, result) => `No endpoint deletes a feature: remove feature ${result?.id} under feature ${args.parent} by hand`
+  },
+  add_actor: {
+    undo: (_before, args, result) => `No endpoint deletes an actor: remove actor ${result?.name ?? args.data?.name} from project ${args.project} by hand`
+  },
+  add_story_to_actor: {
+    undo: (_before, args, result) => `No endpoint deletes a story: remove story ${result?.id} from actor ${args.name} by hand`
+  },
+  create_project: {
+    undo: (_before, args) => `No endpoint deletes a project: remove project ${args.code} by hand`
+  },
+  create_diagram: {
+    undo: (_before, args) => `No endpoint deletes a diagram: remove diagram ${args.name} by hand`
+  },
+  refresh_feature_types: {
+    undo: () => 'Feature types are reloaded from HyperManager; there is no previous list to restore'
+  },
+  normalize_tasks: {
+    undo: () => 'normalize_tasks rewrites tasks inside HyperManager without reporting what it changed'
+  },
+  undo_change: {
+    undo: (_before, args) => `This reverted change ${args.changeId}; to restore it, repeat the original call`
+  }
+};
+
+const UNKNOWN_CHANGE_SPEC: ChangeSpec = {
+  undo: () => 'No undo is known for this tool'
+};
+
+export type ChangeJournalKind = 'memory' | 'file';
+
+export interface ChangeJournalOptions {
+  kind?: ChangeJournalKind;
+  path?: string;
+  // Most recent changes kept, and loaded back at startup
+  maxEntries?: number;
+}
+
+export const DEFAULT_CHANGE_JOURNAL_PATH = 'data/changes.jsonl';
+export const DEFAULT_CHANGE_JOURNAL_SIZE = 1000;
+export const DEFAULT_CHANGE_QUERY_LIMIT = 50;
+
+// The journal file is rewritten with the kept changes once it has this many times more lines
+const COMPACTION_FACTOR = 2;
+
+export function changeJournalOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ChangeJournalOptions {
+  const kind = env['CHANGE_JOURNAL'] || 'file';
+  if (kind !== 'memory' && kind !== 'file') {
+    throw new Error(`CHANGE_JOURNAL must be "file" or "memory", got "${kind}"`);
+  }
+  const maxEntries = parseInt(env['CHANGE_JOURNAL_SIZE'] || String(DEFAULT_CHANGE_JOURNAL_SIZE));
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new Error('CHANGE_JOURNAL_SIZE must be a positive integer');
+  }
+  return {
+    kind,
+    path: env['CHANGE_JOURNAL_PATH'] || DEFAULT_CHANGE_JOURNAL_PATH,
+    maxEntries
+  };
+}
+
+// Lines of the journal file: a change, or the later undo of one
+type JournalLine =
+  | { change: ChangeEntry }
+  | { undone: { id: string; at: string; tokenId: string } };
+
+/**
+ * Journal of mutating tool calls with the snapshots needed to undo them.
+ * The most recent `maxEntries` changes are kept in memory; with
+ * CHANGE_JOURNAL=file they are also appended to a JSON Lines file, undo
+ * markers included, and reloaded at startup. The file is compacted to the
+ * kept changes when it grows past COMPACTION_FACTOR times their number.
+ */
+export class ChangeJournal {
+  private client: BacklogBackend;
+  private projectResolver: ProjectResolver;
+  private logger: winston.Logger;
+  private filePath: string | undefined;
+  private maxEntries: number;
+  private entries: ChangeEntry[] = [];
+  private pending: Promise<void> = Promise.resolve();
+  // Changes with an undo under way, so a concurrent undo of the same change is refused
+  private undoing: Set<string> = new Set();
+  // Lines in the journal file, once written
+  private fileLines = 0;
+
+  constructor(client: BacklogBackend, projectResolver: ProjectResolver, logger: winston.Logger, options: ChangeJournalOptions = {}) {
+    this.client = client;
+    this.projectResolver = projectResolver;
+    this.logger = logger;
+    this.filePath = options.kind === 'memory' ? undefined : (options.path || DEFAULT_CHANGE_JOURNAL_PATH);
+    this.maxEntries = options.maxEntries ?? DEFAULT_CHANGE_JOURNAL_SIZE;
+    this.load();
+  }
+
+  /**
+   * Snapshot what a mutating call is about to change. Never throws: without
+   * a snapshot the change is journaled as irreversible.
+   */
+  async prepare(tool: string, args: unknown, authToken: AuthToken): Promise<PendingChange> {
+    const pending: PendingChange = { tool, arguments: args, authToken };
+    const spec = CHANGE_SPECS[tool] ?? UNKNOWN_CHANGE_SPEC;
+    if (spec.snapshot) {
+      try {
+        // Snapshots read the current state, not what the API client cached
+        pending.before = await bypassResponseCache(() => spec.snapshot!(this.context(authToken), args));
+      } catch (error) {
+        pending.snapshotError = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn('Change Snapshot Failed', { tool, tokenId: authToken.id, error: pending.snapshotError });
+      }
+    }
+    return pending;
+  }
+
+  /**
+   * Journal a call that succeeded, after taking the `after` snapshot
+   */
+  async complete(pending: PendingChange, requestId: string, result: unknown): Promise<void> {
+    const spec = CHANGE_SPECS[pending.tool] ?? UNKNOWN_CHANGE_SPEC;
+    try {
+      let after: unknown;
+      if (spec.snapshot && pending.before !== undefined) {
+        after = await bypassResponseCache(() => spec.snapshot!(this.context(pending.authToken), pending.arguments)).catch(() => undefined);
+      }
+
+      const undo = spec.snapshot && pending.before === undefined
+        ? `No snapshot could be taken before the change (${pending.snapshotError ?? 'unknown error'})`
+        : spec.undo(pending.before, pending.arguments, result);
+
+      const references = toolProjectReferences(pending.tool, pending.arguments);
+      const created = result as { id?: unknown; projectId?: unknown } | undefined;
+      const entities = new Set(references.map(reference => reference.id));
+      if (created && typeof created === 'object' && typeof created.id === 'string') {
+        entities.add(created.id);
+      }
+      const location = pending.before as Partial<FeatureLocation> | undefined;
+      const projects = await this.projectResolver.projectsOf(
+        [
+          ...references,
+          ...(created && typeof created === 'object' && typeof created.projectId === 'string' ? [{ kind: 'project' as const, id: created.projectId }] : []),
+          ...(pending.tool === 'adopt_child_feature' && typeof location?.project === 'string' ? [{ kind: 'project' as const, id: location.project }] : [])
+        ],
+        pending.authToken.projects
+      );
+
+      const entry: ChangeEntry = {
+        id: uuidv4(),
+        timestamp: new Date().toISOString(),
+        requestId,
+        tokenId: pending.authToken.id,
+        tool: pending.tool,
+        arguments: pending.arguments ?? {},
+        projects,
+        entities: Array.from(entities),
+        ...(currentUpstreamTenant() !== DEFAULT_TENANT && { upstream: currentUpstreamTenant() }),
+        ...(pending.before !== undefined && { before: pending.before }),
+        ...(after !== undefined && { after }),
+        ...(typeof undo === 'string' ? { irreversible: undo } : { undo })
+      };
+
+      this.entries.push(entry);
+      if (this.entries.length > this.maxEntries) {
+        this.entries.splice(0, this.entries.length - this.maxEntries);
+      }
+      this.append({ change: entry });
+      this.logger.debug('Change Journaled', { id: entry.id, tool: entry.tool, reversible: entry.undo !== undefined });
+    } catch (error) {
+      this.logger.error('Change Not Journaled', {
+        requestId,
+        tool: pending.tool,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Changes of other upstream tenants are not visible
+  get(changeId: string): ChangeEntry | undefined {
+    return this.entries.find(entry => entry.id === changeId && this.inCurrentTenant(entry));
+  }
+
+  /**
+   * Journaled changes of the current upstream tenant, newest first
+   */
+  list(query: ChangeQuery = {}): ChangeEntry[] {
+    const limit = Math.max(query.limit ?? DEFAULT_CHANGE_QUERY_LIMIT, 1);
+    const found: ChangeEntry[] = [];
+    for (let i = this.entries.length - 1; i >= 0 && found.length < limit; i--) {
+      const entry = this.entries[i]!;
+      if (this.inCurrentTenant(entry)
+        && (!query.tokenId || entry.tokenId === query.tokenId)
+        && (!query.tool || entry.tool === query.tool)
+        && (!query.project || entry.projects.includes(query.project))
+        && (!query.entityId || entry.entities.includes(query.entityId))) {
+        found.push(entry);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Restore what a change overwrote. Refuses irreversible changes, changes
+   * already undone, and, unless `force` is set, entities edited again since.
+   */
+  async undo(changeId: string, options: UndoOptions): Promise<UndoOutcome> {
+    const entry = this.get(changeId);
+    if (!entry) {
+      throw new Error(`Unknown change ${changeId}, or too old to be kept in the journal`);
+    }
+    if (entry.undone) {
+      throw new Error(`Change ${changeId} was already undone at ${entry.undone.at}`);
+    }
+    if (!entry.undo) {
+      throw new Error(`Change ${changeId} (${entry.tool}) cannot be undone: ${entry.irreversible}`);
+    }
+    if (this.undoing.has(entry.id)) {
+      throw new Error(`Change ${changeId} is already being undone`);
+    }
+
+    // Claimed before the first await; released whether the undo succeeds, fails or is only previewed
+    this.undoing.add(entry.id);
+    try {
+      const spec = CHANGE_SPECS[entry.tool] ?? UNKNOWN_CHANGE_SPEC;
+      if (!options.force && spec.snapshot && spec.restored && entry.after !== undefined) {
+        const current = await bypassPreview(() => bypassResponseCache(() => spec.snapshot!(this.context(options.authToken), entry.arguments)));
+        if (JSON.stringify(spec.restored(current, entry.arguments)) !== JSON.stringify(spec.restored(entry.after, entry.arguments))) {
+          throw new Error(`What change ${changeId} modified has been edited again since; pass force: true to overwrite the newer edit`);
+        }
+      }
+
+      const result = await this.apply(entry.undo);
+
+      entry.undone = { at: new Date().toISOString(), tokenId: options.authToken.id };
+      this.append({ undone: { id: entry.id, ...entry.undone } });
+      this.logger.info('Change Undone', { changeId, tool: entry.tool, tokenId: options.authToken.id });
+
+      return { changeId, tool: entry.tool, restored: entry.undo, result };
+    } finally {
+      this.undoing.delete(entry.id);
+    }
+  }
+
+  /**
+   * Wait for every journal line to be written
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+
+  private inCurrentTenant(entry: ChangeEntry): boolean {
+    return (entry.upstream ?? DEFAULT_TENANT) === currentUpstreamTenant();
+  }
+
+  private async apply(step: UndoStep): Promise<unknown> {
+    switch (step.tool) {
+      case 'update_story':
+        return await this.client.updateStory(step.arguments.data);
+      case 'adopt_child_feature':
+        return await this.client.adoptChildFeature(step.arguments.parent, step.arguments.child);
+      case 'update_diagram':
+        return await this.client.updateDiagram(step.arguments.id, { name: step.arguments.name });
+      case 'update_diagram_definition':
+        return await this.client.updateDiagramDefinition(step.arguments.name, step.arguments.definition);
+    }
+  }
+
+  private context(authToken: AuthToken): SnapshotContext {
+    return { client: this.client, projectResolver: this.projectResolver, authToken };
+  }
+
+  private append(line: JournalLine): void {
+    if (!this.filePath) {
+      return;
+    }
+    if (++this.fileLines > this.maxEntries * COMPACTION_FACTOR) {
+      // The rewritten file already holds this line
+      this.compact();
+      return;
+    }
+    this.write(async filePath => {
+      await fs.promises.appendFile(filePath, JSON.stringify(line) + '\n', 'utf8');
+    });
+  }
+
+  /**
+   * Replace the file with the kept changes, undo markers folded in. The
+   * content is taken now, so later appends queue up behind the rewrite.
+   */
+  private compact(): void {
+    const content = this.entries.map(entry => JSON.stringify({ change: entry } satisfies JournalLine) + '\n').join('');
+    this.fileLines = this.entries.length;
+    this.write(async filePath => {
+      const temporary = `${filePath}.tmp`;
+      await fs.promises.writeFile(temporary, content, 'utf8');
+      await fs.promises.rename(temporary, filePath);
+      this.logger.debug('Change Journal Compacted', { path: filePath, entries: this.entries.length });
+    });
+  }
+
+  private write(operation: (filePath: string) => Promise<void>): void {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return;
+    }
+    this.pending = this.pending
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await operation(filePath);
+      })
+      .catch(error => {
+        this.logger.error('Change Journal Write Failed', {
+          path: filePath,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const byId = new Map<string, ChangeEntry>();
+    for (const raw of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!raw.trim()) {
+        continue;
+      }
+      this.fileLines++;
+      let line: JournalLine;
+      try {
+        line = JSON.parse(raw);
+      } catch {
+        // A line cut short by a crash must not hide the rest of the journal
+        continue;
+      }
+      if ('change' in line) {
+        byId.set(line.change.id, line.change);
+      } else if ('undone' in line) {
+        const entry = byId.get(line.undone.id);
+        if (entry) {
+          entry.undone = { at: line.undone.at, tokenId: line.undone.tokenId };
+        }
+      }
+    }
+    this.entries = Array.from(byId.values()).slice(-this.maxEntries);
+    if (this.fileLines > this.maxEntries * COMPACTION_FACTOR) {
+      this.compact();
+    }
+  }
+}
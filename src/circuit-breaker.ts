@@ -0,0 +1,143 @@
+import { UpstreamUnavailableError } from './upstream-errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold?: number;
+  // How long an open circuit fails fast before letting one trial request through
+  resetTimeoutMs?: number;
+}
+
+export const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
+export const DEFAULT_CIRCUIT_RESET_TIMEOUT_MS = 30000;
+
+export interface CircuitStatus {
+  endpoint: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  // When the circuit last changed state
+  since: Date;
+  // When an open circuit lets the next trial request through
+  retryAt?: Date;
+  lastError?: string;
+}
+
+/**
+ * Thrown in place of sending a request while the endpoint's circuit is open
+ */
+export class CircuitOpenError extends UpstreamUnavailableError {
+  constructor(endpoint: string, public readonly retryAt: Date) {
+    super(endpoint, `Unavailable after repeated failures (circuit open), next try after ${retryAt.toISOString()}`);
+  }
+}
+
+export type CircuitStateListener = (status: CircuitStatus, previous: CircuitState) => void;
+
+/**
+ * Circuit breaker for one upstream endpoint. After `failureThreshold`
+ * consecutive failures the circuit opens and requests fail fast; once
+ * `resetTimeoutMs` has passed, a single trial request is let through
+ * (half-open) and its outcome closes or reopens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private since = Date.now();
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastError: string | undefined;
+
+  constructor(
+    readonly endpoint: string,
+    private readonly options: Required<CircuitBreakerOptions>,
+    private readonly onStateChange?: CircuitStateListener
+  ) {}
+
+  /**
+   * Reserve the right to send a request, or throw CircuitOpenError
+   */
+  acquire(): void {
+    if (this.state === 'open') {
+      const retryAt = this.openedAt + this.options.resetTimeoutMs;
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(this.endpoint, new Date(retryAt));
+      }
+      this.transition('half-open');
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.endpoint, new Date(Date.now() + this.options.resetTimeoutMs));
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    this.lastError = undefined;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(error: string): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+    this.lastError = error;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  status(): CircuitStatus {
+    return {
+      endpoint: this.endpoint,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      since: new Date(this.since),
+      ...(this.state === 'open' && { retryAt: new Date(this.openedAt + this.options.resetTimeoutMs) }),
+      ...(this.lastError && { lastError: this.lastError })
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.since = Date.now();
+    this.onStateChange?.(this.status(), previous);
+  }
+}
+
+/**
+ * One circuit breaker per endpoint, created on first use
+ */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private options: Required<CircuitBreakerOptions>;
+
+  constructor(options: CircuitBreakerOptions = {}, private readonly onStateChange?: CircuitStateListener) {
+    this.options = {
+      failureThreshold: options.failureThreshold ?? DEFAULT_CIRCUIT_FAILURE_THRESHOLD,
+      resetTimeoutMs: options.resetTimeoutMs ?? DEFAULT_CIRCUIT_RESET_TIMEOUT_MS
+    };
+  }
+
+  get(endpoint: string): CircuitBreaker {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(endpoint, this.options, this.onStateChange);
+      this.breakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  // Every endpoint called so far, sorted by name
+  status(): CircuitStatus[] {
+    return Array.from(this.breakers.values())
+      .map(breaker => breaker.status())
+      .sort((a, b) => a.endpoint.localeCompare(b.endpoint));
+  }
+}
@@ -0,0 +1,156 @@
+import winston from 'winston';
+import { BacklogBackend } from './backend.js';
+import { ProjectResolver } from './project-resolver.js';
+import { toolProjectReferences } from './handlers/access-control.js';
+import { previewUpstreamRequest, UpstreamRequest } from './upstream-calls.js';
+import { ToolContext, ToolHandler } from './tools/define-tool.js';
+import { AuthToken } from './types.js';
+
+export interface DryRunOptions {
+  // Preview every write tool call, whatever its `dryRun` argument
+  serverWide?: boolean;
+}
+
+export function dryRunOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): DryRunOptions {
+  return { serverWide: env['DRY_RUN'] === 'true' };
+}
+
+/**
+ * An entity named in the tool arguments, as found in the backlog before
+ * the change. `exists: false` usually means the real call would fail,
+ * except for the project a `create_project` call would create.
+ */
+export interface ResolvedEntity {
+  kind: 'project' | 'story' | 'feature' | 'actor' | 'diagram';
+  id: string;
+  exists: boolean;
+  // Code of the owning project, for stories, features and actors
+  project?: string;
+  name?: string;
+}
+
+export interface DryRunPreview {
+  dryRun: true;
+  tool: string;
+  resolved: ResolvedEntity[];
+  // Undefined when the tool would not have called the HyperManager API
+  request?: UpstreamRequest;
+}
+
+type EntityReference = { kind: ResolvedEntity['kind']; id: string; project?: string };
+
+// References the project access checks do not need: diagrams and actors
+const EXTRA_REFERENCES: Record<string, (args: any) => (EntityReference | undefined)[]> = {
+  update_diagram: args => [diagram(args?.id)],
+  update_diagram_definition: args => [diagram(args?.name)],
+  update_diagram_graphic: args => [diagram(args?.diagramName)],
+  add_story_to_actor: args => [
+    typeof args?.name === 'string' && typeof args?.project === 'string'
+      ? { kind: 'actor', id: args.name, project: args.project }
+      : undefined
+  ]
+};
+
+function diagram(id: unknown): EntityReference | undefined {
+  return typeof id === 'string' && id ? { kind: 'diagram', id } : undefined;
+}
+
+/**
+ * Previews write tool calls: validates the arguments, looks up the entities
+ * they name, and captures the HyperManager API request the tool would have
+ * sent, without sending it. Reads made to resolve entities do reach the API.
+ */
+export class DryRunPreviewer {
+  private client: BacklogBackend;
+  private projectResolver: ProjectResolver;
+  private logger: winston.Logger;
+  readonly serverWide: boolean;
+
+  constructor(client: BacklogBackend, projectResolver: ProjectResolver, logger: winston.Logger, options: DryRunOptions = {}) {
+    this.client = client;
+    this.projectResolver = projectResolver;
+    this.logger = logger;
+    this.serverWide = options.serverWide ?? false;
+  }
+
+  /**
+   * Whether a call to a write tool with `args` should only be previewed
+   */
+  appliesTo(args: unknown): boolean {
+    return this.serverWide || (args as { dryRun?: unknown } | undefined)?.dryRun === true;
+  }
+
+  async preview(toolName: string, args: unknown, handler: ToolHandler, context: ToolContext): Promise<DryRunPreview> {
+    const { authToken } = context;
+    // The handler validates the arguments before it reaches the API client
+    const request = await previewUpstreamRequest(() => handler(args, context));
+
+    const references: EntityReference[] = [
+      ...toolProjectReferences(toolName, args),
+      ...(EXTRA_REFERENCES[toolName]?.(args) ?? []).filter((reference): reference is EntityReference => reference !== undefined)
+    ];
+    const resolved: ResolvedEntity[] = [];
+    for (const reference of references) {
+      resolved.push(await this.resolve(reference, authToken));
+    }
+
+    this.logger.info('Dry Run Previewed', {
+      toolName,
+      tokenId: authToken.id,
+      request: request ? `${request.method} ${request.url}` : '(none)',
+      missing: resolved.filter(entity => !entity.exists).map(entity => `${entity.kind} ${entity.id}`)
+    });
+
+    return {
+      dryRun: true,
+      tool: toolName,
+      resolved,
+      ...(request && { request })
+    };
+  }
+
+  private async resolve(reference: EntityReference, authToken: AuthToken): Promise<ResolvedEntity> {
+    switch (reference.kind) {
+      case 'project': {
+        const projects = await this.projectResolver.listProjects(true);
+        const project = projects.find(candidate => candidate.code === reference.id || candidate.id === reference.id);
+        return {
+          kind: 'project',
+          id: reference.id,
+          exists: project !== undefined,
+          ...(project && { project: project.code, name: project.name })
+        };
+      }
+
+      case 'story':
+      case 'feature': {
+        const candidates = authToken.projects
+          ?? (await this.projectResolver.listProjects()).map(project => project.code);
+        const project = await this.projectResolver.owningProject(reference.id, candidates);
+        return { kind: reference.kind, id: reference.id, exists: project !== undefined, ...(project && { project }) };
+      }
+
+      case 'actor': {
+        const project = await this.projectResolver.projectCode(reference.project!);
+        try {
+          const tree = await this.client.getProjectTree(project);
+          const actor = tree.actors.find(candidate => candidate.name === reference.id);
+          return { kind: 'actor', id: actor?.id ?? reference.id, exists: actor !== undefined, project, name: reference.id };
+        } catch {
+          return { kind: 'actor', id: reference.id, exists: false, project, name: reference.id };
+        }
+      }
+
+      case 'diagram': {
+        const diagrams = await this.client.listDiagrams();
+        const found = diagrams.find(candidate => candidate.id === reference.id || candidate.name === reference.id);
+        return {
+          kind: 'diagram',
+          id: found?.id ?? reference.id,
+          exists: found !== undefined,
+          ...(found && { name: found.name })
+        };
+      }
+    }
+  }
+}
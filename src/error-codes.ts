@@ -0,0 +1,15 @@
+/**
+ * Server-defined JSON-RPC error codes, taken from the -32000 to -32099 range
+ * that JSON-RPC 2.0 reserves for implementation errors. The handlers raise
+ * them; transports and tools read them back from the errors they get.
+ */
+export const ServerErrorCode = {
+  PermissionDenied: -32001,
+  SessionNotFound: -32002,
+  RateLimited: -32003,
+  UpstreamNotFound: -32004,
+  UpstreamValidationFailed: -32005,
+  UpstreamUnauthorized: -32006,
+  UpstreamUnavailable: -32007,
+  UpstreamTimeout: -32008
+} as const;
@@ -0,0 +1,566 @@
+// Generated from swagger.yml by scripts/generate-api.js. Do not edit by hand:
+// change swagger.yml and run `npm run generate`.
+import type { AxiosResponse } from 'axios';
+import { z } from 'zod';
+
+export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type ApiReferenceKind = 'project' | 'story' | 'feature';
+
+export interface ApiOperation {
+  operationId: string;
+  method: ApiMethod;
+  // Swagger path, with a {placeholder} per path parameter
+  path: string;
+  description: string;
+  // Path parameters, in path order
+  pathParams: readonly string[];
+  // How the request body is sent, for operations that take one
+  body?: 'json' | 'text';
+  // Safe to retry: GETs, except those that change data upstream
+  idempotent: boolean;
+  // Default MCP tool for the operation and the permission it needs
+  tool: string;
+  permission: string;
+  // Path parameters naming a project, story or feature, checked for project-scoped tokens
+  references: readonly { param: string; kind: ApiReferenceKind }[];
+  // Arguments of the default tool: the path parameters, and the request `body`
+  input: z.AnyZodObject;
+}
+
+export interface AddDiagramBody {
+  name: string;
+  definition: string;
+}
+
+export interface UpdateDiagramBody {
+  name?: string | undefined;
+}
+
+export interface AddProjectBody {
+  name: string;
+  code: string;
+  clientName?: string | undefined;
+  description?: string | undefined;
+}
+
+export const API_OPERATIONS = {
+  'get-list-diagrams': {
+    operationId: 'get-list-diagrams',
+    method: 'GET',
+    path: '/diagrams',
+    description: 'Get a list of diagrams',
+    pathParams: [],
+    idempotent: true,
+    tool: 'get_list_diagrams',
+    permission: 'diagrams:read',
+    references: [],
+    input: z.object({})
+  },
+  'add-diagram': {
+    operationId: 'add-diagram',
+    method: 'POST',
+    path: '/diagrams',
+    description: 'Creates a diagram',
+    pathParams: [],
+    body: 'json',
+    idempotent: false,
+    tool: 'add_diagram',
+    permission: 'diagrams:write',
+    references: [],
+    input: z.object({
+      body: z.object({ name: z.string(), definition: z.string() }).optional().describe('Creates a diagram in our database')
+    })
+  },
+  'update-diagram-graphic': {
+    operationId: 'update-diagram-graphic',
+    method: 'PATCH',
+    path: '/diagram/update-graphic/{diagram_name}',
+    description: 'Updates a diagram and returns image',
+    pathParams: ['diagram_name'],
+    body: 'text',
+    idempotent: false,
+    tool: 'update_diagram_graphic',
+    permission: 'diagrams:write',
+    references: [],
+    input: z.object({
+      diagram_name: z.string().min(1, 'diagram_name is required').describe('Mongo id of the diagram'),
+      body: z.string().optional().describe('Json body in the the updates')
+    })
+  },
+  'update-diagram': {
+    operationId: 'update-diagram',
+    method: 'PATCH',
+    path: '/diagrams/{id}',
+    description: 'Updates a diagram',
+    pathParams: ['id'],
+    body: 'json',
+    idempotent: false,
+    tool: 'update_diagram',
+    permission: 'diagrams:write',
+    references: [],
+    input: z.object({
+      id: z.string().min(1, 'id is required').describe('Mongo id of the diagram'),
+      body: z.object({ name: z.string().optional() }).optional().describe('Json body in the the updates')
+    })
+  },
+  'get-png-diagram': {
+    operationId: 'get-png-diagram',
+    method: 'GET',
+    path: '/diagram/png/{diagram_name}',
+    description: 'Gets a diagram as png',
+    pathParams: ['diagram_name'],
+    idempotent: true,
+    tool: 'get_png_diagram',
+    permission: 'diagrams:read',
+    references: [],
+    input: z.object({
+      diagram_name: z.string().min(1, 'diagram_name is required').describe('Mongo id of the diagram')
+    })
+  },
+  'get-plant-url-diagram': {
+    operationId: 'get-plant-url-diagram',
+    method: 'GET',
+    path: '/diagram/plant-url/{diagram_name}',
+    description: 'Gets a diagram as plantUML url',
+    pathParams: ['diagram_name'],
+    idempotent: true,
+    tool: 'get_plant_url_diagram',
+    permission: 'diagrams:read',
+    references: [],
+    input: z.object({
+      diagram_name: z.string().min(1, 'diagram_name is required').describe('Mongo id of the diagram')
+    })
+  },
+  'get-diagram': {
+    operationId: 'get-diagram',
+    method: 'GET',
+    path: '/diagram/{id}',
+    description: 'Get a diagram by its ID',
+    pathParams: ['id'],
+    idempotent: true,
+    tool: 'get_diagram',
+    permission: 'diagrams:read',
+    references: [],
+    input: z.object({
+      id: z.string().min(1, 'id is required').describe('MongoDB ID of the diagram')
+    })
+  },
+  'get-list-projects': {
+    operationId: 'get-list-projects',
+    method: 'GET',
+    path: '/project-command/all',
+    description: 'Get a lists of projects',
+    pathParams: [],
+    idempotent: true,
+    tool: 'get_list_projects',
+    permission: 'projects:read',
+    references: [],
+    input: z.object({})
+  },
+  'get-projects-tree': {
+    operationId: 'get-projects-tree',
+    method: 'GET',
+    path: '/project-command/{project}/tree',
+    description: 'Get the tree of a project',
+    pathParams: ['project'],
+    idempotent: true,
+    tool: 'get_projects_tree',
+    permission: 'projects:read',
+    references: [{ param: 'project', kind: 'project' }],
+    input: z.object({
+      project: z.string().min(1, 'project is required').describe('Code or ID of the project')
+    })
+  },
+  'get-list-feature-types': {
+    operationId: 'get-list-feature-types',
+    method: 'GET',
+    path: '/featuretypes',
+    description: 'Get a lists of feature-types',
+    pathParams: [],
+    idempotent: true,
+    tool: 'get_list_feature_types',
+    permission: 'features:read',
+    references: [],
+    input: z.object({})
+  },
+  'add-project': {
+    operationId: 'add-project',
+    method: 'POST',
+    path: '/projects',
+    description: 'Creates a project',
+    pathParams: [],
+    body: 'json',
+    idempotent: false,
+    tool: 'add_project',
+    permission: 'projects:write',
+    references: [],
+    input: z.object({
+      body: z.object({ name: z.string(), code: z.string(), clientName: z.string().optional(), description: z.string().optional() }).optional().describe('Creates a project in our database')
+    })
+  },
+  'get-story-tree': {
+    operationId: 'get-story-tree',
+    method: 'GET',
+    path: '/story-command/{storyID}/tree',
+    description: 'Get the story tree by story ID',
+    pathParams: ['storyID'],
+    idempotent: true,
+    tool: 'get_story_tree',
+    permission: 'stories:read',
+    references: [{ param: 'storyID', kind: 'story' }],
+    input: z.object({
+      storyID: z.string().min(1, 'storyID is required').describe('ID of the story')
+    })
+  },
+  'update-story': {
+    operationId: 'update-story',
+    method: 'POST',
+    path: '/story-command/update',
+    description: 'Update a story',
+    pathParams: [],
+    body: 'json',
+    idempotent: false,
+    tool: 'update_story',
+    permission: 'stories:write',
+    references: [],
+    input: z.object({
+      body: z.record(z.unknown()).optional().describe('Story data to update')
+    })
+  },
+  'refresh-feature-types': {
+    operationId: 'refresh-feature-types',
+    method: 'GET',
+    path: '/feature-command/refresh-types',
+    description: 'Refresh feature types',
+    pathParams: [],
+    idempotent: false,
+    tool: 'refresh_feature_types',
+    permission: 'features:write',
+    references: [],
+    input: z.object({})
+  },
+  'add-feature-to-story': {
+    operationId: 'add-feature-to-story',
+    method: 'POST',
+    path: '/feature-command/{story}/add',
+    description: 'Add a feature to a story',
+    pathParams: ['story'],
+    body: 'json',
+    idempotent: false,
+    tool: 'add_feature_to_story',
+    permission: 'features:write',
+    references: [{ param: 'story', kind: 'story' }],
+    input: z.object({
+      story: z.string().min(1, 'story is required').describe('ID of the story'),
+      body: z.record(z.unknown()).optional().describe('Feature data to add')
+    })
+  },
+  'add-child-feature': {
+    operationId: 'add-child-feature',
+    method: 'POST',
+    path: '/feature-command/{parent}/add-child',
+    description: 'Add a child feature to a parent feature',
+    pathParams: ['parent'],
+    body: 'json',
+    idempotent: false,
+    tool: 'add_child_feature',
+    permission: 'features:write',
+    references: [{ param: 'parent', kind: 'feature' }],
+    input: z.object({
+      parent: z.string().min(1, 'parent is required').describe('ID of the parent feature'),
+      body: z.record(z.unknown()).optional().describe('Child feature data to add')
+    })
+  },
+  'adopt-child-feature': {
+    operationId: 'adopt-child-feature',
+    method: 'POST',
+    path: '/feature-command/{parent}/adopt/{child}',
+    description: 'Adopt a child feature',
+    pathParams: ['parent', 'child'],
+    idempotent: false,
+    tool: 'adopt_child_feature',
+    permission: 'features:write',
+    references: [{ param: 'parent', kind: 'feature' }, { param: 'child', kind: 'feature' }],
+    input: z.object({
+      parent: z.string().min(1, 'parent is required').describe('ID of the parent feature'),
+      child: z.string().min(1, 'child is required').describe('ID of the child feature')
+    })
+  },
+  'add-actor': {
+    operationId: 'add-actor',
+    method: 'POST',
+    path: '/actor-command/{project}/add',
+    description: 'Add an actor to a project',
+    pathParams: ['project'],
+    body: 'json',
+    idempotent: false,
+    tool: 'add_actor',
+    permission: 'actors:write',
+    references: [{ param: 'project', kind: 'project' }],
+    input: z.object({
+      project: z.string().min(1, 'project is required').describe('ID of the project'),
+      body: z.record(z.unknown()).optional().describe('Actor data to add')
+    })
+  },
+  'add-story-to-actor': {
+    operationId: 'add-story-to-actor',
+    method: 'POST',
+    path: '/actor-command/{project}/{name}/add-story',
+    description: 'Add a story to an actor',
+    pathParams: ['project', 'name'],
+    body: 'json',
+    idempotent: false,
+    tool: 'add_story_to_actor',
+    permission: 'actors:write',
+    references: [{ param: 'project', kind: 'project' }],
+    input: z.object({
+      project: z.string().min(1, 'project is required').describe('ID of the project'),
+      name: z.string().min(1, 'name is required').describe('Name of the actor'),
+      body: z.record(z.unknown()).optional().describe('Story data to add')
+    })
+  },
+  'normalize-tasks': {
+    operationId: 'normalize-tasks',
+    method: 'GET',
+    path: '/normalize-tasks',
+    description: 'Normalize tasks',
+    pathParams: [],
+    idempotent: false,
+    tool: 'normalize_tasks',
+    permission: 'utilities:write',
+    references: [],
+    input: z.object({})
+  },
+  'get-diagram-definition': {
+    operationId: 'get-diagram-definition',
+    method: 'GET',
+    path: '/diagram/plant-definition/{name}',
+    description: 'Get a diagram definition',
+    pathParams: ['name'],
+    idempotent: true,
+    tool: 'get_diagram_definition',
+    permission: 'diagrams:read',
+    references: [],
+    input: z.object({
+      name: z.string().min(1, 'name is required').describe('Name of the diagram')
+    })
+  },
+  'update-diagram-definition': {
+    operationId: 'update-diagram-definition',
+    method: 'PATCH',
+    path: '/diagram/update/{name}',
+    description: 'Update a diagram definition',
+    pathParams: ['name'],
+    body: 'text',
+    idempotent: false,
+    tool: 'update_diagram_definition',
+    permission: 'diagrams:write',
+    references: [],
+    input: z.object({
+      name: z.string().min(1, 'name is required').describe('Name of the diagram'),
+      body: z.string().optional().describe('Diagram definition data')
+    })
+  }
+} satisfies Record<string, ApiOperation>;
+
+export type OperationId = keyof typeof API_OPERATIONS;
+
+// Sends an operation; path parameters are substituted by the implementation
+export type ApiRequester = (operation: ApiOperation, pathParams: Record<string, string>, body?: unknown) => Promise<AxiosResponse<unknown>>;
+
+/**
+ * One method per swagger operation. Responses are returned as received,
+ * since swagger.yml declares every response body as a string.
+ */
+export class HyperManagerOperations {
+  constructor(private readonly requester: ApiRequester) {}
+
+  request(operationId: OperationId, pathParams: Record<string, string>, body?: unknown): Promise<AxiosResponse<unknown>> {
+    return this.requester(API_OPERATIONS[operationId], pathParams, body);
+  }
+
+  // GET /diagrams: Get a list of diagrams
+  getListDiagrams(): Promise<AxiosResponse<unknown>> {
+    return this.request('get-list-diagrams', {});
+  }
+
+  // POST /diagrams: Creates a diagram
+  addDiagram(body?: AddDiagramBody): Promise<AxiosResponse<unknown>> {
+    return this.request('add-diagram', {}, body);
+  }
+
+  // PATCH /diagram/update-graphic/{diagram_name}: Updates a diagram and returns image
+  updateDiagramGraphic(diagram_name: string, body?: string): Promise<AxiosResponse<unknown>> {
+    return this.request('update-diagram-graphic', { diagram_name }, body);
+  }
+
+  // PATCH /diagrams/{id}: Updates a diagram
+  updateDiagram(id: string, body?: UpdateDiagramBody): Promise<AxiosResponse<unknown>> {
+    return this.request('update-diagram', { id }, body);
+  }
+
+  // GET /diagram/png/{diagram_name}: Gets a diagram as png
+  getPngDiagram(diagram_name: string): Promise<AxiosResponse<unknown>> {
+    return this.request('get-png-diagram', { diagram_name });
+  }
+
+  // GET /diagram/plant-url/{diagram_name}: Gets a diagram as plantUML url
+  getPlantUrlDiagram(diagram_name: string): Promise<AxiosResponse<unknown>> {
+    return this.request('get-plant-url-diagram', { diagram_name });
+  }
+
+  // GET /diagram/{id}: Get a diagram by its ID
+  getDiagram(id: string): Promise<AxiosResponse<unknown>> {
+    return this.request('get-diagram', { id });
+  }
+
+  // GET /project-command/all: Get a lists of projects
+  getListProjects(): Promise<AxiosResponse<unknown>> {
+    return this.request('get-list-projects', {});
+  }
+
+  // GET /project-command/{project}/tree: Get the tree of a project
+  getProjectsTree(project: string): Promise<AxiosResponse<unknown>> {
+    return this.request('get-projects-tree', { project });
+  }
+
+  // GET /featuretypes: Get a lists of feature-types
+  getListFeatureTypes(): Promise<AxiosResponse<unknown>> {
+    return this.request('get-list-feature-types', {});
+  }
+
+  // POST /projects: Creates a project
+  addProject(body?: AddProjectBody): Promise<AxiosResponse<unknown>> {
+    return this.request('add-project', {}, body);
+  }
+
+  // GET /story-command/{storyID}/tree: Get the story tree by story ID
+  getStoryTree(storyID: string): Promise<AxiosResponse<unknown>> {
+    return this.request('get-story-tree', { storyID });
+  }
+
+  // POST /story-command/update: Update a story
+  updateStory(body?: object): Promise<AxiosResponse<unknown>> {
+    return this.request('update-story', {}, body);
+  }
+
+  // GET /feature-command/refresh-types: Refresh feature types
+  refreshFeatureTypes(): Promise<AxiosResponse<unknown>> {
+    return this.request('refresh-feature-types', {});
+  }
+
+  // POST /feature-command/{story}/add: Add a feature to a story
+  addFeatureToStory(story: string, body?: object): Promise<AxiosResponse<unknown>> {
+    return this.request('add-feature-to-story', { story }, body);
+  }
+
+  // POST /feature-command/{parent}/add-child: Add a child feature to a parent feature
+  addChildFeature(parent: string, body?: object): Promise<AxiosResponse<unknown>> {
+    return this.request('add-child-feature', { parent }, body);
+  }
+
+  // POST /feature-command/{parent}/adopt/{child}: Adopt a child feature
+  adoptChildFeature(parent: string, child: string): Promise<AxiosResponse<unknown>> {
+    return this.request('adopt-child-feature', { parent, child });
+  }
+
+  // POST /actor-command/{project}/add: Add an actor to a project
+  addActor(project: string, body?: object): Promise<AxiosResponse<unknown>> {
+    return this.request('add-actor', { project }, body);
+  }
+
+  // POST /actor-command/{project}/{name}/add-story: Add a story to an actor
+  addStoryToActor(project: string, name: string, body?: object): Promise<AxiosResponse<unknown>> {
+    return this.request('add-story-to-actor', { project, name }, body);
+  }
+
+  // GET /normalize-tasks: Normalize tasks
+  normalizeTasks(): Promise<AxiosResponse<unknown>> {
+    return this.request('normalize-tasks', {});
+  }
+
+  // GET /diagram/plant-definition/{name}: Get a diagram definition
+  getDiagramDefinition(name: string): Promise<AxiosResponse<unknown>> {
+    return this.request('get-diagram-definition', { name });
+  }
+
+  // PATCH /diagram/update/{name}: Update a diagram definition
+  updateDiagramDefinition(name: string, body?: string): Promise<AxiosResponse<unknown>> {
+    return this.request('update-diagram-definition', { name }, body);
+  }
+}
+
+export const GENERATED_TOOL_PERMISSIONS = {
+  'get_list_diagrams': ['diagrams:read'],
+  'add_diagram': ['diagrams:write'],
+  'update_diagram_graphic': ['diagrams:write'],
+  'update_diagram': ['diagrams:write'],
+  'get_png_diagram': ['diagrams:read'],
+  'get_plant_url_diagram': ['diagrams:read'],
+  'get_diagram': ['diagrams:read'],
+  'get_list_projects': ['projects:read'],
+  'get_projects_tree': ['projects:read'],
+  'get_list_feature_types': ['features:read'],
+  'add_project': ['projects:write'],
+  'get_story_tree': ['stories:read'],
+  'update_story': ['stories:write'],
+  'refresh_feature_types': ['features:write'],
+  'add_feature_to_story': ['features:write'],
+  'add_child_feature': ['features:write'],
+  'adopt_child_feature': ['features:write'],
+  'add_actor': ['actors:write'],
+  'add_story_to_actor': ['actors:write'],
+  'normalize_tasks': ['utilities:write'],
+  'get_diagram_definition': ['diagrams:read'],
+  'update_diagram_definition': ['diagrams:write']
+} as const;
+
+export const API_ENDPOINT_SUMMARY: Record<string, { endpoints: string[] }> = {
+  diagrams: {
+    endpoints: [
+      'GET /diagrams - Get a list of diagrams',
+      'POST /diagrams - Creates a diagram',
+      'PATCH /diagram/update-graphic/{diagram_name} - Updates a diagram and returns image',
+      'PATCH /diagrams/{id} - Updates a diagram',
+      'GET /diagram/png/{diagram_name} - Gets a diagram as png',
+      'GET /diagram/plant-url/{diagram_name} - Gets a diagram as plantUML url',
+      'GET /diagram/{id} - Get a diagram by its ID',
+      'GET /diagram/plant-definition/{name} - Get a diagram definition',
+      'PATCH /diagram/update/{name} - Update a diagram definition'
+    ]
+  },
+  projects: {
+    endpoints: [
+      'GET /project-command/all - Get a lists of projects',
+      'GET /project-command/{project}/tree - Get the tree of a project',
+      'POST /projects - Creates a project'
+    ]
+  },
+  features: {
+    endpoints: [
+      'GET /featuretypes - Get a lists of feature-types',
+      'GET /feature-command/refresh-types - Refresh feature types',
+      'POST /feature-command/{story}/add - Add a feature to a story',
+      'POST /feature-command/{parent}/add-child - Add a child feature to a parent feature',
+      'POST /feature-command/{parent}/adopt/{child} - Adopt a child feature'
+    ]
+  },
+  stories: {
+    endpoints: [
+      'GET /story-command/{storyID}/tree - Get the story tree by story ID',
+      'POST /story-command/update - Update a story'
+    ]
+  },
+  actors: {
+    endpoints: [
+      'POST /actor-command/{project}/add - Add an actor to a project',
+      'POST /actor-command/{project}/{name}/add-story - Add a story to an actor'
+    ]
+  },
+  utilities: {
+    endpoints: [
+      'GET /normalize-tasks - Normalize tasks'
+    ]
+  }
+};
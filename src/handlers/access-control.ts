@@ -0,0 +1,120 @@
+import { API_OPERATIONS, ApiOperation } from '../generated/hypermanager-api.js';
+import { RESOURCE_PERMISSIONS, TOOL_PERMISSIONS } from '../types.js';
+
+/**
+ * Something in a request that belongs to a project: a project code or ID,
+ * or a story or feature ID whose project has to be looked up.
+ */
+export type ProjectReference =
+  | { kind: 'project'; id: string }
+  | { kind: 'story'; id: string }
+  | { kind: 'feature'; id: string };
+
+type ReferenceExtractor = (args: any) => (ProjectReference | undefined)[];
+
+const project = (id: unknown): ProjectReference | undefined =>
+  typeof id === 'string' && id ? { kind: 'project', id } : undefined;
+const story = (id: unknown): ProjectReference | undefined =>
+  typeof id === 'string' && id ? { kind: 'story', id } : undefined;
+const feature = (id: unknown): ProjectReference | undefined =>
+  typeof id === 'string' && id ? { kind: 'feature', id } : undefined;
+
+// Tool arguments that point into a project. Tools not listed here (diagrams,
+// feature types, utilities) are not tied to a project.
+const TOOL_REFERENCES: Record<string, ReferenceExtractor> = {
+  create_project: args => [project(args?.code)],
+  get_project_tree: args => [project(args?.project)],
+  export_project: args => [project(args?.project)],
+  add_actor: args => [project(args?.project)],
+  add_story_to_actor: args => [project(args?.project)],
+  get_story_tree: args => [story(args?.storyId)],
+  update_story: args => [story(args?.data?.id)],
+  add_feature_to_story: args => [story(args?.story)],
+  add_child_feature: args => [feature(args?.parent)],
+  adopt_child_feature: args => [feature(args?.parent), feature(args?.child)],
+  query_audit_log: args => [project(args?.project)],
+  list_changes: args => [project(args?.project)]
+};
+
+// Generated default tools: the path parameters swagger.yml names project,
+// story or feature IDs. Hand-written tools use TOOL_REFERENCES instead.
+const GENERATED_TOOL_REFERENCES: Record<string, ReferenceExtractor> = Object.fromEntries(
+  (Object.values(API_OPERATIONS) as ApiOperation[]).map(operation => [
+    operation.tool,
+    (args: any) => operation.references.map(({ param, kind }) => kind === 'project'
+      ? project(args?.[param])
+      : kind === 'story' ? story(args?.[param]) : feature(args?.[param]))
+  ])
+);
+
+// Prompts that fetch project data to build their messages
+const PROMPT_REFERENCES: Record<string, ReferenceExtractor> = {
+  analyze_project: args => [project(args?.project)],
+  generate_user_stories: args => [project(args?.project)],
+  optimize_project_structure: args => [project(args?.project)],
+  review_story_tree: args => [story(args?.story_id)]
+};
+
+function present(references: (ProjectReference | undefined)[]): ProjectReference[] {
+  return references.filter((reference): reference is ProjectReference => reference !== undefined);
+}
+
+export function toolProjectReferences(toolName: string, args: unknown): ProjectReference[] {
+  const extract = TOOL_REFERENCES[toolName] ?? GENERATED_TOOL_REFERENCES[toolName];
+  return extract ? present(extract(args)) : [];
+}
+
+export function promptProjectReferences(promptName: string, args: unknown): ProjectReference[] {
+  const extract = PROMPT_REFERENCES[promptName];
+  return extract ? present(extract(args)) : [];
+}
+
+export const PROJECT_LIST_RESOURCE = 'resource://projects/';
+export const PROJECT_TREE_RESOURCE = 'resource://projects/{project}/tree';
+
+export function projectTreeResourceUri(code: string): string {
+  return PROJECT_TREE_RESOURCE.replace('{project}', encodeURIComponent(code));
+}
+
+export function resourceProjectReferences(uri: string): ProjectReference[] {
+  const projectTree = uri.match(/^resource:\/\/projects\/([^\/]+)\/(?:tree|export\/[^\/]+)$/);
+  if (projectTree) {
+    return present([project(decodeURIComponent(projectTree[1]!))]);
+  }
+  const storyTree = uri.match(/^resource:\/\/stories\/([^\/]+)\/tree$/);
+  if (storyTree) {
+    return present([story(decodeURIComponent(storyTree[1]!))]);
+  }
+  return [];
+}
+
+/**
+ * Permissions needed to read a resource URI or URI template
+ */
+export function resourcePermissions(uri: string): string[] {
+  return RESOURCE_PERMISSIONS.find(entry => uri.startsWith(entry.prefix))?.permissions ?? [];
+}
+
+// Tools whose work is the tool calls they make through ToolContext.callTool
+const ORCHESTRATING_TOOLS: readonly string[] = ['apply_backlog_batch', 'import_backlog'];
+
+/**
+ * Whether a tool only runs other tools. Its nested calls are rate limited
+ * one by one, so the tool itself takes no budget slot.
+ */
+export function orchestratesTools(toolName: string): boolean {
+  return ORCHESTRATING_TOOLS.includes(toolName);
+}
+
+/**
+ * Whether a tool call counts against the read or the write budget: any
+ * tool needing a :write permission is a write
+ */
+export function toolOperation(toolName: string): 'read' | 'write' {
+  if (toolName === 'undo_change') {
+    // Its permissions are those of the reverted tool, only known per call
+    return 'write';
+  }
+  const permissions: readonly string[] = TOOL_PERMISSIONS[toolName as keyof typeof TOOL_PERMISSIONS] || [];
+  return permissions.some(permission => permission.endsWith(':write')) ? 'write' : 'read';
+}
@@ -0,0 +1,169 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AuthToken } from '../types.js';
+import { ServerErrorCode } from '../error-codes.js';
+import { handleMCPMessage, MCPMessageHandlerDependencies, MCPNotifier, toJSONRPCError } from './mcp-message.js';
+
+export const JSONRPC_VERSION = '2.0';
+
+export type JSONRPCId = string | number | null;
+
+export interface JSONRPCErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JSONRPCSuccessResponse {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id: JSONRPCId;
+  result: unknown;
+}
+
+export interface JSONRPCErrorResponse {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id: JSONRPCId;
+  error: JSONRPCErrorObject;
+}
+
+export type JSONRPCResponse = JSONRPCSuccessResponse | JSONRPCErrorResponse;
+
+export function jsonRPCResult(id: JSONRPCId, result: unknown): JSONRPCSuccessResponse {
+  return { jsonrpc: JSONRPC_VERSION, id, result };
+}
+
+export function jsonRPCError(id: JSONRPCId, error: JSONRPCErrorObject): JSONRPCErrorResponse {
+  return { jsonrpc: JSONRPC_VERSION, id, error };
+}
+
+export function jsonRPCParseError(): JSONRPCErrorResponse {
+  return jsonRPCError(null, { code: ErrorCode.ParseError, message: 'Parse error: request body is not valid JSON' });
+}
+
+function isValidId(id: unknown): id is string | number {
+  return typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id));
+}
+
+/**
+ * True for a message that expects a response: it has a method and an id.
+ */
+export function isJSONRPCRequest(message: any): boolean {
+  return typeof message === 'object' && message !== null && typeof message.method === 'string' && 'id' in message;
+}
+
+/**
+ * True for a client's reply to a server-initiated request.
+ */
+export function isJSONRPCResponse(message: any): boolean {
+  return typeof message === 'object' && message !== null && message.jsonrpc === JSONRPC_VERSION &&
+    !('method' in message) && ('result' in message || 'error' in message);
+}
+
+/**
+ * Return why `message` is not a usable JSON-RPC 2.0 request or
+ * notification, or undefined when it is one.
+ */
+function envelopeProblem(message: any): string | undefined {
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    return 'Request must be a JSON object';
+  }
+  if (message.jsonrpc !== JSONRPC_VERSION) {
+    return 'Request must include "jsonrpc": "2.0"';
+  }
+  if (typeof message.method !== 'string' || message.method.length === 0) {
+    return 'Request must include a "method" string';
+  }
+  if ('id' in message && !isValidId(message.id)) {
+    return 'Request "id" must be a string or a number';
+  }
+  if (message.params !== undefined && (typeof message.params !== 'object' || message.params === null)) {
+    return 'Request "params" must be an object or an array';
+  }
+  return undefined;
+}
+
+/**
+ * Handle a single JSON-RPC message and build its response envelope.
+ * Notifications (messages without an `id`) are dispatched but produce no
+ * response, so the caller gets `null` back, as do client responses.
+ */
+export async function processJSONRPCMessage(
+  message: any,
+  authToken: AuthToken,
+  requestId: string,
+  deps: MCPMessageHandlerDependencies,
+  notify?: MCPNotifier
+): Promise<JSONRPCResponse | null> {
+  // The server sends no requests of its own, so replies from the client are acknowledged and dropped
+  if (isJSONRPCResponse(message)) {
+    deps.logger.debug('Ignoring JSON-RPC Response From Client', { requestId, rpcId: message.id });
+    return null;
+  }
+
+  const problem = envelopeProblem(message);
+  if (problem) {
+    deps.logger.warn('Invalid JSON-RPC Request', { requestId, problem });
+    const id = isValidId(message?.id) ? message.id : null;
+    return jsonRPCError(id, { code: ErrorCode.InvalidRequest, message: `Invalid Request: ${problem}` });
+  }
+
+  const isNotification = !('id' in message);
+
+  try {
+    const response = await handleMCPMessage(message, authToken, requestId, deps, notify);
+    return isNotification ? null : jsonRPCResult(message.id, response.result);
+  } catch (error) {
+    const rpcError = toJSONRPCError(error);
+    deps.logger.error('MCP JSON-RPC Error', {
+      requestId,
+      method: message.method,
+      rpcId: message.id,
+      code: rpcError.code,
+      error: rpcError.message,
+      notification: isNotification
+    });
+    return isNotification ? null : jsonRPCError(message.id, rpcError);
+  }
+}
+
+/**
+ * Seconds to put in a Retry-After header when a response (or any response
+ * of a batch) was refused by a rate limit
+ */
+export function retryAfterSeconds(response: JSONRPCResponse | JSONRPCResponse[] | null): number | undefined {
+  const responses = Array.isArray(response) ? response : response ? [response] : [];
+  const delays = responses
+    .map(entry => 'error' in entry && entry.error.code === ServerErrorCode.RateLimited
+      ? (entry.error.data as { retryAfter?: number } | undefined)?.retryAfter
+      : undefined)
+    .filter((delay): delay is number => typeof delay === 'number');
+  return delays.length > 0 ? Math.max(...delays) : undefined;
+}
+
+/**
+ * Handle a request body that is either one JSON-RPC message or a batch.
+ * Batch entries run in order; the response array leaves out notifications
+ * and is replaced by `null` when nothing needs an answer.
+ */
+export async function processJSONRPCPayload(
+  payload: unknown,
+  authToken: AuthToken,
+  requestId: string,
+  deps: MCPMessageHandlerDependencies
+): Promise<JSONRPCResponse | JSONRPCResponse[] | null> {
+  if (!Array.isArray(payload)) {
+    return processJSONRPCMessage(payload, authToken, requestId, deps);
+  }
+
+  if (payload.length === 0) {
+    return jsonRPCError(null, { code: ErrorCode.InvalidRequest, message: 'Invalid Request: batch must not be empty' });
+  }
+
+  const responses: JSONRPCResponse[] = [];
+  for (const [index, message] of payload.entries()) {
+    const response = await processJSONRPCMessage(message, authToken, `${requestId}-${index}`, deps);
+    if (response) {
+      responses.push(response);
+    }
+  }
+  return responses.length > 0 ? responses : null;
+}
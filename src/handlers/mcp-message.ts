@@ -1,41 +1,418 @@
 import winston from 'winston';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { ResourceManager } from '../resources.js';
 import { PromptManager } from '../prompts.js';
 import { AuthManager } from '../auth.js';
-import { TOOL_PERMISSIONS } from '../types.js';
+import { ProjectResolver } from '../project-resolver.js';
+import { RateLimitedOperation, RateLimitManager } from '../rate-limiter.js';
+import { AuditEntry, AuditLog } from '../audit-log.js';
+import { DryRunPreviewer } from '../dry-run.js';
+import { ChangeEntry, ChangeJournal } from '../change-journal.js';
+import { meterUpstreamCalls, recordUpstreamCalls } from '../upstream-calls.js';
+import { currentUpstreamTenant, UpstreamClientPool, UpstreamTenant } from '../upstream-clients.js';
+import { ServerErrorCode } from '../error-codes.js';
+import { UpstreamError, UpstreamErrorKind } from '../upstream-errors.js';
+import { ToolRegistry } from '../tools/registry.js';
+import { ToolArgumentsError, ToolContext, ToolProgress } from '../tools/define-tool.js';
+import {
+  orchestratesTools,
+  PROJECT_LIST_RESOURCE,
+  PROJECT_TREE_RESOURCE,
+  ProjectReference,
+  projectTreeResourceUri,
+  promptProjectReferences,
+  resourcePermissions,
+  resourceProjectReferences,
+  toolOperation,
+  toolProjectReferences
+} from './access-control.js';
+import { AuthToken, TOOL_PERMISSIONS } from '../types.js';
+
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-03-26", "2024-11-05"];
+
+export const SERVER_INFO = {
+  name: "project-backlog-mcp-server",
+  version: "1.0.0"
+};
+
+export const SUPPORTED_METHODS = [
+  'initialize', 'initialized', 'notifications/initialized', 'ping',
+  'tools/list', 'tools/call',
+  'resources/list', 'resources/read',
+  'prompts/list', 'prompts/get'
+];
+
+const UPSTREAM_ERROR_CODES: Record<UpstreamErrorKind, number> = {
+  not_found: ServerErrorCode.UpstreamNotFound,
+  validation_failed: ServerErrorCode.UpstreamValidationFailed,
+  unauthorized: ServerErrorCode.UpstreamUnauthorized,
+  unavailable: ServerErrorCode.UpstreamUnavailable,
+  timeout: ServerErrorCode.UpstreamTimeout
+};
+
+/**
+ * An McpError whose message is the description alone. The SDK prefixes it
+ * with "MCP error <code>: ", which clients would otherwise see next to the
+ * error code.
+ */
+function mcpError(code: number, message: string, data?: unknown): McpError {
+  const error = new McpError(code, message, data);
+  error.message = message;
+  return error;
+}
+
+/**
+ * The McpError for a failed HyperManager call, with the upstream status,
+ * endpoint and message as error data
+ */
+export function upstreamMcpError(error: UpstreamError, message: string = error.message): McpError {
+  return mcpError(UPSTREAM_ERROR_CODES[error.kind], message, {
+    code: UPSTREAM_ERROR_CODES[error.kind],
+    ...error.toJSON()
+  });
+}
+
+/**
+ * Sends a JSON-RPC notification to the client that made the current request
+ */
+export type MCPNotifier = (notification: { method: string; params: Record<string, unknown> }) => void;
 
 export interface MCPMessageHandlerDependencies {
   resourceManager: ResourceManager;
   promptManager: PromptManager;
   authManager: AuthManager;
-  allTools: any[];
-  allHandlers: Record<string, (args: any) => Promise<any>>;
+  toolRegistry: ToolRegistry;
+  projectResolver: ProjectResolver;
+  rateLimiter: RateLimitManager;
+  auditLog: AuditLog;
+  dryRunPreviewer: DryRunPreviewer;
+  changeJournal: ChangeJournal;
+  upstreamClients: UpstreamClientPool;
   logger: winston.Logger;
 }
 
+/**
+ * Pick the protocol version for a session: the client's when we support it,
+ * otherwise our latest.
+ */
+export function negotiateProtocolVersion(clientVersion: unknown): string {
+  return typeof clientVersion === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(clientVersion)
+    ? clientVersion
+    : SUPPORTED_PROTOCOL_VERSIONS[0]!;
+}
+
+/**
+ * Shape any error thrown while dispatching into a JSON-RPC error object.
+ * McpError codes are kept, failed HyperManager calls get their upstream
+ * error code and everything else becomes an internal error.
+ */
+export function toJSONRPCError(error: unknown): { code: number; message: string; data?: unknown } {
+  if (error instanceof UpstreamError) {
+    error = upstreamMcpError(error);
+  }
+  if (error instanceof McpError) {
+    return {
+      code: error.code,
+      message: error.message,
+      ...(error.data !== undefined && { data: error.data })
+    };
+  }
+  return {
+    code: ErrorCode.InternalError,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  };
+}
+
+/**
+ * Reject a request that touches a project outside the token's allow-list.
+ * Project IDs are mapped to codes and story or feature IDs to the project
+ * that owns them before the allow-list is consulted.
+ */
+async function assertProjectAccess(
+  authToken: AuthToken,
+  references: ProjectReference[],
+  target: string,
+  requestId: string,
+  deps: MCPMessageHandlerDependencies
+): Promise<void> {
+  const allowedProjects = authToken.projects;
+  if (!allowedProjects) {
+    return;
+  }
+
+  for (const reference of references) {
+    const project = reference.kind === 'project'
+      ? await deps.projectResolver.projectCode(reference.id)
+      : await deps.projectResolver.owningProject(reference.id, allowedProjects);
+    if (project && deps.authManager.canAccessProject(authToken, project)) {
+      continue;
+    }
+
+    deps.logger.warn('Project Access Denied', {
+      requestId,
+      target,
+      reference,
+      resolvedProject: project,
+      allowedProjects,
+      tokenId: authToken.id
+    });
+    throw mcpError(
+      ServerErrorCode.PermissionDenied,
+      reference.kind === 'project'
+        ? `Token is not allowed to access project ${reference.id}`
+        : `The ${reference.kind} ${reference.id} does not belong to a project this token may access`,
+      { reference, allowedProjects }
+    );
+  }
+}
+
+/**
+ * Count a call that reaches the backend against the token's read or write
+ * budget, refusing it once that budget or the daily upstream quota is used up
+ */
+function consumeRateLimit(
+  authToken: AuthToken,
+  operation: RateLimitedOperation,
+  target: string,
+  requestId: string,
+  deps: MCPMessageHandlerDependencies
+): void {
+  const decision = deps.rateLimiter.consume(authToken, operation);
+  if (decision.allowed) {
+    return;
+  }
+
+  deps.logger.warn('MCP Call Rate Limited', {
+    requestId,
+    target,
+    bucket: decision.bucket,
+    tokenId: authToken.id
+  });
+  throw mcpError(ServerErrorCode.RateLimited, `Rate limit exceeded (${decision.bucket}), retry in ${decision.retryAfterSeconds}s`, {
+    bucket: decision.bucket,
+    limit: decision.limit,
+    retryAfter: decision.retryAfterSeconds,
+    resetAt: decision.resetAt.toISOString()
+  });
+}
+
+/**
+ * Drop projects outside the token's allow-list from a project listing
+ */
+function visibleProjects<T extends { code: string }>(authToken: AuthToken, projects: T[], deps: MCPMessageHandlerDependencies): T[] {
+  return projects.filter(project => deps.authManager.canAccessProject(authToken, project.code));
+}
+
+/**
+ * Run one tool call on behalf of `authToken` with every check a tools/call
+ * request gets: permissions, project access, rate limits, dry runs, the
+ * audit log and the change journal. Protocol-level refusals are thrown as
+ * McpError; any other error is the tool's own failure.
+ */
+async function callTool(
+  name: string,
+  args: any,
+  authToken: AuthToken,
+  requestId: string,
+  deps: MCPMessageHandlerDependencies,
+  reportProgress?: (progress: ToolProgress) => void
+): Promise<unknown> {
+  const { authManager, toolRegistry, auditLog, dryRunPreviewer, changeJournal, logger } = deps;
+
+  logger.info('Tool Call Request', {
+    requestId,
+    toolName: name,
+    arguments: args ? JSON.stringify(args, null, 2) : 'No arguments'
+  });
+  
+  // Undoing a change takes the permissions and project access of the call that made it
+  const reverted = name === 'undo_change' && typeof args?.changeId === 'string'
+    ? changeJournal.get(args.changeId)
+    : undefined;
+
+  // Check permissions
+  const requiredPermissions = TOOL_PERMISSIONS[(reverted?.tool ?? name) as keyof typeof TOOL_PERMISSIONS] || [];
+  const hasPermission = authManager.hasPermission(authToken, [...requiredPermissions]);
+  
+  logger.debug('Tool Permission Check', {
+    requestId,
+    toolName: name,
+    requiredPermissions,
+    userPermissions: authToken.permissions,
+    hasPermission
+  });
+  
+  if (!hasPermission) {
+    logger.warn('Tool Access Denied - Insufficient Permissions', {
+      requestId,
+      toolName: name,
+      requiredPermissions,
+      userPermissions: authToken.permissions,
+      tokenId: authToken.id
+    });
+    throw mcpError(ServerErrorCode.PermissionDenied, 'Insufficient permissions for this tool', {
+      requiredPermissions
+    });
+  }
+
+  const references = reverted
+    ? toolProjectReferences(reverted.tool, reverted.arguments)
+    : toolProjectReferences(name, args);
+  await assertProjectAccess(authToken, references, name, requestId, deps);
+
+  const handler = toolRegistry.getHandler(name);
+  if (!handler) {
+    logger.error('Tool Not Found', {
+      requestId,
+      toolName: name,
+      availableTools: toolRegistry.names()
+    });
+    throw mcpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+  }
+
+  // A previewed write only reads from the backlog
+  const dryRun = toolOperation(name) === 'write' && dryRunPreviewer.appliesTo(args);
+  if (!orchestratesTools(name)) {
+    consumeRateLimit(authToken, dryRun ? 'read' : toolOperation(name), name, requestId, deps);
+  }
+
+  logger.info('Executing Tool', {
+    requestId,
+    toolName: name,
+    dryRun,
+    startTime: new Date().toISOString()
+  });
+
+  // Snapshot what a write is about to change, for undo_change
+  const change = toolOperation(name) === 'write' && !dryRun
+    ? await changeJournal.prepare(name, args, authToken)
+    : undefined;
+
+  const toolStartTime = Date.now();
+  let nestedCalls = 0;
+  const context: ToolContext = {
+    authToken,
+    requestId,
+    callTool: (tool, toolArgs) => callTool(tool, toolArgs, authToken, `${requestId}-${++nestedCalls}`, deps),
+    ...(reportProgress && { reportProgress })
+  };
+  const outcome = await recordUpstreamCalls(() => dryRun
+    ? dryRunPreviewer.preview(name, args, handler, context)
+    : handler(args, context));
+  let result = outcome.result;
+
+  if (toolOperation(name) === 'write' && !dryRun) {
+    auditLog.record({
+      requestId,
+      authToken,
+      tool: name,
+      arguments: args,
+      references,
+      ...('error' in outcome ? { error: outcome.error } : { result }),
+      upstreamCalls: outcome.calls,
+      durationMs: Date.now() - toolStartTime
+    });
+  }
+
+  if (change && !('error' in outcome)) {
+    await changeJournal.complete(change, requestId, result);
+  }
+
+  if ('error' in outcome) {
+    const error = outcome.error;
+    if (error instanceof ToolArgumentsError) {
+      logger.warn('Tool Arguments Invalid', {
+        requestId,
+        toolName: name,
+        issues: error.issues
+      });
+      throw mcpError(ErrorCode.InvalidParams, error.message, { issues: error.issues });
+    }
+
+    logger.error('Tool Execution Failed', {
+      requestId,
+      toolName: name,
+      duration: `${Date.now() - toolStartTime}ms`,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof UpstreamError && { upstream: error.toJSON() })
+    });
+    throw error;
+  }
+  const toolDuration = Date.now() - toolStartTime;
+
+  if (name === 'list_projects' && Array.isArray(result)) {
+    result = visibleProjects(authToken, result, deps);
+  }
+  if ((name === 'query_audit_log' || name === 'list_changes') && Array.isArray(result) && authToken.projects) {
+    // Scoped tokens only see changes confined to their projects
+    result = (result as (AuditEntry | ChangeEntry)[]).filter(entry => entry.projects.length > 0
+      && entry.projects.every(project => authManager.canAccessProject(authToken, project)));
+  }
+  
+  logger.info('Tool Execution Completed', {
+    requestId,
+    toolName: name,
+    duration: `${toolDuration}ms`,
+    resultType: typeof result,
+    resultLength: typeof result === 'string' ? result.length : JSON.stringify(result).length
+  });
+  
+  return result;
+}
+
+/**
+ * Dispatch one MCP request on behalf of `authToken`. This is the only place
+ * where protocol negotiation, permission checks and tool execution happen:
+ * the stdio SDK server and every HTTP transport call into it. Transports
+ * that can push messages while a request runs pass `notify`, which carries
+ * the progress notifications of long tool calls. Every HyperManager call of
+ * the request is made with the token's upstream credentials.
+ */
 export async function handleMCPMessage(
   message: any, 
-  authToken: any, 
+  authToken: AuthToken, 
   requestId: string,
-  deps: MCPMessageHandlerDependencies
-) {
+  deps: MCPMessageHandlerDependencies,
+  notify?: MCPNotifier
+): Promise<{ result: any }> {
+  let tenant: UpstreamTenant;
+  try {
+    tenant = deps.upstreamClients.tenantFor(authToken);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    deps.logger.error('Upstream Credentials Unusable', { requestId, tokenId: authToken.id, error: reason });
+    throw mcpError(ServerErrorCode.UpstreamUnauthorized, `The HyperManager credentials of this token cannot be used: ${reason}`);
+  }
+  // Every HyperManager request made for the token counts against its daily quota
+  return await deps.upstreamClients.run(tenant, () => meterUpstreamCalls(
+    () => deps.rateLimiter.countUpstreamCall(authToken),
+    () => dispatchMCPMessage(message, authToken, requestId, deps, notify)
+  ));
+}
+
+async function dispatchMCPMessage(
+  message: any,
+  authToken: AuthToken,
+  requestId: string,
+  deps: MCPMessageHandlerDependencies,
+  notify?: MCPNotifier
+): Promise<{ result: any }> {
   const { method, params } = message;
-  const { resourceManager, promptManager, authManager, allTools, allHandlers, logger } = deps;
+  const { resourceManager, promptManager, authManager, toolRegistry, projectResolver, logger } = deps;
   
   logger.info('MCP Message Processing', {
     requestId,
     method,
     params: params ? JSON.stringify(params, null, 2) : 'No params',
     tokenId: authToken.id,
-    tokenType: authToken.type
+    tokenType: authToken.type,
+    upstream: currentUpstreamTenant()
   });
 
   if (method === 'initialize') {
     const clientVersion = params?.protocolVersion;
-    const supportedVersions = ["2025-03-26", "2024-11-05"];
     
-    // Use client's version if we support it, otherwise use our latest supported version
-    const negotiatedVersion = supportedVersions.includes(clientVersion) ? clientVersion : supportedVersions[0];
+    const negotiatedVersion = negotiateProtocolVersion(clientVersion);
     
     logger.info('MCP Initialize Request:', {
       requestId,
@@ -63,16 +440,13 @@ export async function handleMCPMessage(
           },
           logging: {}
         },
-        serverInfo: {
-          name: "project-backlog-mcp-server",
-          version: "1.0.0"
-        }
+        serverInfo: SERVER_INFO
       }
     };
   }
 
-  if (method === 'initialized') {
-    logger.info('MCP Initialized Notification (HTTP):', {
+  if (method === 'initialized' || method === 'notifications/initialized') {
+    logger.info('MCP Initialized Notification:', {
       requestId,
       clientInfo: params?.clientInfo,
       timestamp: new Date().toISOString(),
@@ -85,9 +459,14 @@ export async function handleMCPMessage(
     return { result: {} };
   }
 
+  if (method === 'ping') {
+    return { result: {} };
+  }
+
   if (method === 'tools/list') {
     logger.debug('Processing tools/list request', { requestId });
     
+    const allTools = toolRegistry.list();
     const filteredTools = allTools.filter(tool => {
       const requiredPermissions = TOOL_PERMISSIONS[tool.name as keyof typeof TOOL_PERMISSIONS] || [];
       const hasPermission = authManager.hasPermission(authToken, [...requiredPermissions]);
@@ -114,82 +493,78 @@ export async function handleMCPMessage(
   }
 
   if (method === 'tools/call') {
-    const { name, arguments: args } = params;
-    
-    logger.info('Tool Call Request', {
-      requestId,
-      toolName: name,
-      arguments: args ? JSON.stringify(args, null, 2) : 'No arguments'
-    });
-    
-    // Check permissions
-    const requiredPermissions = TOOL_PERMISSIONS[name as keyof typeof TOOL_PERMISSIONS] || [];
-    const hasPermission = authManager.hasPermission(authToken, [...requiredPermissions]);
-    
-    logger.debug('Tool Permission Check', {
-      requestId,
-      toolName: name,
-      requiredPermissions,
-      userPermissions: authToken.permissions,
-      hasPermission
-    });
-    
-    if (!hasPermission) {
-      logger.warn('Tool Access Denied - Insufficient Permissions', {
-        requestId,
-        toolName: name,
-        requiredPermissions,
-        userPermissions: authToken.permissions,
-        tokenId: authToken.id
-      });
-      throw new Error('Insufficient permissions for this tool');
-    }
-
-    if (!allHandlers[name as keyof typeof allHandlers]) {
-      logger.error('Tool Not Found', {
-        requestId,
-        toolName: name,
-        availableTools: Object.keys(allHandlers)
-      });
-      throw new Error(`Unknown tool: ${name}`);
-    }
+    const { name, arguments: args } = params ?? {};
+    const progressToken = params?._meta?.progressToken;
+    const reportProgress = notify && (typeof progressToken === 'string' || typeof progressToken === 'number')
+      ? (progress: ToolProgress) => notify({ method: 'notifications/progress', params: { progressToken, ...progress } })
+      : undefined;
 
-    logger.info('Executing Tool', {
-      requestId,
-      toolName: name,
-      startTime: new Date().toISOString()
-    });
-
-    const toolStartTime = Date.now();
-    const handler = allHandlers[name as keyof typeof allHandlers];
-    if (!handler) {
-      throw new Error(`Handler not found for tool: ${name}`);
-    }
-    const result = await handler(args);
-    const toolDuration = Date.now() - toolStartTime;
-    
-    logger.info('Tool Execution Completed', {
-      requestId,
-      toolName: name,
-      duration: `${toolDuration}ms`,
-      resultType: typeof result,
-      resultLength: typeof result === 'string' ? result.length : JSON.stringify(result).length
-    });
-    
-    return {
-      result: {
-        content: [{
-          type: 'text',
-          text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
-        }]
+    try {
+      const result = await callTool(name, args, authToken, requestId, deps, reportProgress);
+      return {
+        result: {
+          content: [{
+            type: 'text',
+            text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+          }]
+        }
+      };
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
       }
-    };
+      // Execution failures are reported to the model as tool results, not protocol errors
+      if (error instanceof UpstreamError) {
+        return {
+          result: {
+            content: [{
+              type: 'text',
+              text: `Error executing ${name}: ${error.message}`,
+            }, {
+              type: 'text',
+              text: JSON.stringify({ error: upstreamMcpError(error).data }, null, 2),
+            }],
+            isError: true
+          }
+        };
+      }
+      return {
+        result: {
+          content: [{
+            type: 'text',
+            text: `Error executing ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          }],
+          isError: true
+        }
+      };
+    }
   }
 
   if (method === 'resources/list') {
     logger.debug('Processing resources/list request', { requestId });
     
-    const resources = resourceManager.getAvailableResources();
+    const resources = resourceManager.getAvailableResources().filter(resource =>
+      authManager.hasPermission(authToken, resourcePermissions(resource.uri))
+    );
+
+    // One concrete tree resource per project the token may read
+    const projectTree = resources.find(resource => resource.uri === PROJECT_TREE_RESOURCE);
+    if (projectTree) {
+      try {
+        for (const project of visibleProjects(authToken, await projectResolver.listProjects(), deps)) {
+          resources.push({
+            ...projectTree,
+            uri: projectTreeResourceUri(project.code),
+            name: `Project Tree: ${project.name}`
+          });
+        }
+      } catch (error) {
+        logger.warn('Project Resources Unavailable', {
+          requestId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
     
     logger.info('Resources List Response', {
       requestId,
@@ -210,15 +585,34 @@ export async function handleMCPMessage(
   }
 
   if (method === 'resources/read') {
-    const { uri } = params;
+    const { uri } = params ?? {};
     
     logger.info('Resource Read Request', {
       requestId,
       uri
     });
+
+    const requiredPermissions = resourcePermissions(String(uri));
+    if (!authManager.hasPermission(authToken, requiredPermissions)) {
+      logger.warn('Resource Access Denied - Insufficient Permissions', {
+        requestId,
+        uri,
+        requiredPermissions,
+        userPermissions: authToken.permissions,
+        tokenId: authToken.id
+      });
+      throw mcpError(ServerErrorCode.PermissionDenied, 'Insufficient permissions for this resource', {
+        requiredPermissions
+      });
+    }
+    await assertProjectAccess(authToken, resourceProjectReferences(String(uri)), 'resources/read', requestId, deps);
+    consumeRateLimit(authToken, 'read', 'resources/read', requestId, deps);
     
     try {
-      const content = await resourceManager.readResource(uri);
+      let content = await resourceManager.readResource(uri);
+      if (uri === PROJECT_LIST_RESOURCE && authToken.projects) {
+        content = JSON.stringify(visibleProjects(authToken, JSON.parse(content), deps), null, 2);
+      }
       
       logger.info('Resource Read Completed', {
         requestId,
@@ -230,7 +624,7 @@ export async function handleMCPMessage(
         result: {
           contents: [{
             uri,
-            mimeType: 'text/plain',
+            mimeType: resourceManager.mimeTypeOf(String(uri)),
             text: content
           }]
         }
@@ -241,7 +635,13 @@ export async function handleMCPMessage(
         uri,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
-      throw new Error(`Failed to read resource ${uri}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof UpstreamError) {
+        throw upstreamMcpError(error, `Failed to read resource ${uri}: ${error.message}`);
+      }
+      throw mcpError(
+        ErrorCode.InternalError,
+        `Failed to read resource ${uri}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   }
 
@@ -268,13 +668,16 @@ export async function handleMCPMessage(
   }
 
   if (method === 'prompts/get') {
-    const { name, arguments: args } = params;
+    const { name, arguments: args } = params ?? {};
     
     logger.info('Prompt Get Request', {
       requestId,
       promptName: name,
       arguments: args ? JSON.stringify(args, null, 2) : 'No arguments'
     });
+
+    await assertProjectAccess(authToken, promptProjectReferences(name, args), `prompt ${name}`, requestId, deps);
+    consumeRateLimit(authToken, 'read', `prompt ${name}`, requestId, deps);
     
     try {
       const messages = await promptManager.getPrompt(name, args || {});
@@ -299,15 +702,21 @@ export async function handleMCPMessage(
         promptName: name,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
-      throw new Error(`Failed to get prompt ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof UpstreamError) {
+        throw upstreamMcpError(error, `Failed to get prompt ${name}: ${error.message}`);
+      }
+      throw mcpError(
+        ErrorCode.InternalError,
+        `Failed to get prompt ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   }
 
   logger.warn('Unsupported MCP Method', {
     requestId,
     method,
-    supportedMethods: ['initialize', 'initialized', 'tools/list', 'tools/call', 'resources/list', 'resources/read', 'prompts/list', 'prompts/get']
+    supportedMethods: SUPPORTED_METHODS
   });
   
-  throw new Error('Unsupported method');
+  throw mcpError(ErrorCode.MethodNotFound, `Unsupported method: ${method}`);
 }
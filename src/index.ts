@@ -4,34 +4,44 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
-  ErrorCode,
   InitializeRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
   ReadResourceRequestSchema,
-  McpError,
+  ServerNotification,
 } from '@modelcontextprotocol/sdk/types.js';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import winston from 'winston';
+import { v4 as uuidv4 } from 'uuid';
 
-import { HyperManagerAPIClient } from './api-client.js';
+import { clientOptionsFromEnv } from './api-client.js';
+import { UpstreamClientPool } from './upstream-clients.js';
+import { namedApiKeysFromEnv } from './upstream-credentials.js';
+import { BacklogBackend } from './backend.js';
 import { AuthManager } from './auth.js';
+import { createTokenStore, tokenStoreOptionsFromEnv } from './token-store.js';
 import { ResourceManager } from './resources.js';
 import { PromptManager } from './prompts.js';
+import { ProjectResolver } from './project-resolver.js';
+import { OAuthManager } from './oauth.js';
+import { RateLimitManager, rateLimitOptionsFromEnv } from './rate-limiter.js';
+import { AuditLog, auditLogOptionsFromEnv, createAuditStore } from './audit-log.js';
+import { DryRunPreviewer, dryRunOptionsFromEnv } from './dry-run.js';
+import { ChangeJournal, changeJournalOptionsFromEnv } from './change-journal.js';
 import { SSEManager } from './sse-manager.js';
+import { MCPSessionManager } from './session-manager.js';
 import { createLoggingMiddleware, createProxyMiddleware } from './middleware/logging.js';
 import { setupAllTransports, setupAdminEndpoints } from './transports/index.js';
-import { setupDiagramTools } from './tools/diagrams.js';
-import { setupProjectTools } from './tools/projects.js';
-import { setupStoryTools } from './tools/stories.js';
-import { setupFeatureTools } from './tools/features.js';
-import { setupActorTools } from './tools/actors.js';
-import { setupUtilityTools } from './tools/utilities.js';
+import { setupOAuthEndpoints, setupOAuthMetadata } from './transports/oauth.js';
+import { handleMCPMessage, MCPMessageHandlerDependencies, SERVER_INFO } from './handlers/mcp-message.js';
+import { jsonRPCParseError } from './handlers/jsonrpc.js';
+import { createToolRegistry } from './tools/index.js';
+import { AuthToken } from './types.js';
 
 // Environment variables
 const HYPERMANAGER_API_KEY = process.env['HYPERMANAGER_API_KEY'];
@@ -40,17 +50,48 @@ const ALLOWED_TOKENS = process.env['ALLOWED_TOKENS']?.split(',') || [];
 const PORT = parseInt(process.env['PORT'] || '3000');
 const NODE_ENV = process.env['NODE_ENV'] || 'development';
 const BASE_PATH = process.env['BASE_PATH'] || '';
+// Token whose identity and permissions apply to stdio sessions (optional)
+const MCP_STDIO_TOKEN = process.env['MCP_STDIO_TOKEN'];
 
 // Proxy configuration
 const TRUST_PROXY = process.env['TRUST_PROXY'] === 'true';
 const TRUSTED_PROXIES = process.env['TRUSTED_PROXIES']?.split(',').filter(ip => ip.trim()) || [];
 const PROXY_HOPS = parseInt(process.env['PROXY_HOPS'] || '1');
 
+// Streamable HTTP sessions and SSE replay
+const MCP_SESSION_IDLE_TIMEOUT_MS = parseInt(process.env['MCP_SESSION_IDLE_TIMEOUT_MS'] || '1800000');
+const MCP_EVENT_BUFFER_SIZE = parseInt(process.env['MCP_EVENT_BUFFER_SIZE'] || '100');
+
+// OAuth 2.1 authorization server
+const OAUTH_ACCESS_TOKEN_TTL = process.env['OAUTH_ACCESS_TOKEN_TTL'] || '1h';
+const OAUTH_REFRESH_TOKEN_TTL = process.env['OAUTH_REFRESH_TOKEN_TTL'] || '30d';
+
 // Validate required environment variables
 if (!HYPERMANAGER_API_KEY) {
   throw new Error('HYPERMANAGER_API_KEY environment variable is required');
 }
 
+// Upstream API configuration (base URL, timeout, auth header, retries, circuit breakers, response cache)
+const API_CLIENT_OPTIONS = clientOptionsFromEnv();
+
+// Named HyperManager keys tokens can use instead of HYPERMANAGER_API_KEY
+const HYPERMANAGER_API_KEYS = namedApiKeysFromEnv();
+
+// Token metadata and revocation storage, shared with the scripts/ CLIs
+const TOKEN_STORE_OPTIONS = tokenStoreOptionsFromEnv();
+
+// Per-type and per-token rate limit overrides
+const RATE_LIMIT_OPTIONS = rateLimitOptionsFromEnv();
+
+// Where mutating tool calls are recorded
+const AUDIT_LOG_OPTIONS = auditLogOptionsFromEnv();
+
+// Server-wide dry run: write tools only preview their upstream request
+const DRY_RUN_OPTIONS = dryRunOptionsFromEnv();
+
+// Before/after snapshots of mutating tool calls, for undo_change
+const CHANGE_JOURNAL_OPTIONS = changeJournalOptionsFromEnv();
+
 // Setup logging
 const logger = winston.createLogger({
   level: NODE_ENV === 'development' ? 'debug' : 'info',
@@ -76,55 +117,105 @@ logger.info('Environment Configuration:', {
   PORT,
   BASE_PATH: BASE_PATH || '(none)',
   HYPERMANAGER_API_KEY: HYPERMANAGER_API_KEY ? `${HYPERMANAGER_API_KEY.substring(0, 10)}...` : 'NOT SET',
+  HYPERMANAGER_BASE_URL: API_CLIENT_OPTIONS.baseURL || '(default)',
+  HYPERMANAGER_TIMEOUT_MS: API_CLIENT_OPTIONS.timeout || '(default)',
+  HYPERMANAGER_AUTH_HEADER: API_CLIENT_OPTIONS.authHeader || '(default)',
+  HYPERMANAGER_RETRIES: API_CLIENT_OPTIONS.retries ?? '(default)',
+  HYPERMANAGER_RETRY_BASE_DELAY_MS: API_CLIENT_OPTIONS.retryBaseDelayMs || '(default)',
+  HYPERMANAGER_RETRY_MAX_DELAY_MS: API_CLIENT_OPTIONS.retryMaxDelayMs || '(default)',
+  HYPERMANAGER_CIRCUIT_FAILURE_THRESHOLD: API_CLIENT_OPTIONS.circuitBreaker?.failureThreshold || '(default)',
+  HYPERMANAGER_CIRCUIT_RESET_MS: API_CLIENT_OPTIONS.circuitBreaker?.resetTimeoutMs || '(default)',
+  HYPERMANAGER_CACHE: API_CLIENT_OPTIONS.cache ?? '(default)',
+  HYPERMANAGER_API_KEYS: Object.keys(HYPERMANAGER_API_KEYS).length > 0 ? Object.keys(HYPERMANAGER_API_KEYS) : '(none)',
   MCP_SERVER_SECRET: MCP_SERVER_SECRET ? `${MCP_SERVER_SECRET.substring(0, 10)}...` : 'NOT SET',
   ALLOWED_TOKENS_COUNT: ALLOWED_TOKENS.length,
+  TOKEN_STORE: TOKEN_STORE_OPTIONS.kind,
+  TOKEN_STORE_PATH: TOKEN_STORE_OPTIONS.kind === 'file' ? TOKEN_STORE_OPTIONS.path : '(not used)',
   ALLOWED_ORIGINS: process.env['ALLOWED_ORIGINS'] || 'NOT SET',
   TRUST_PROXY: TRUST_PROXY,
   TRUSTED_PROXIES: TRUSTED_PROXIES.length > 0 ? TRUSTED_PROXIES : 'ALL (not recommended for production)',
-  PROXY_HOPS: PROXY_HOPS
+  PROXY_HOPS: PROXY_HOPS,
+  MCP_SESSION_IDLE_TIMEOUT_MS,
+  MCP_EVENT_BUFFER_SIZE,
+  OAUTH_ISSUER: process.env['OAUTH_ISSUER'] || '(from request)',
+  OAUTH_ACCESS_TOKEN_TTL,
+  OAUTH_REFRESH_TOKEN_TTL,
+  RATE_LIMITS: RATE_LIMIT_OPTIONS,
+  AUDIT_LOG: AUDIT_LOG_OPTIONS.kind,
+  AUDIT_LOG_PATH: AUDIT_LOG_OPTIONS.kind === 'file' ? AUDIT_LOG_OPTIONS.path : '(not used)',
+  DRY_RUN: DRY_RUN_OPTIONS.serverWide,
+  CHANGE_JOURNAL: CHANGE_JOURNAL_OPTIONS.kind,
+  CHANGE_JOURNAL_PATH: CHANGE_JOURNAL_OPTIONS.kind === 'file' ? CHANGE_JOURNAL_OPTIONS.path : '(not used)',
+  CHANGE_JOURNAL_SIZE: CHANGE_JOURNAL_OPTIONS.maxEntries
 });
 
 // Initialize clients and managers
-const apiClient = new HyperManagerAPIClient(HYPERMANAGER_API_KEY);
-const authManager = new AuthManager(MCP_SERVER_SECRET, ALLOWED_TOKENS);
+const upstreamClients = new UpstreamClientPool(HYPERMANAGER_API_KEY, {
+  client: API_CLIENT_OPTIONS,
+  namedKeys: HYPERMANAGER_API_KEYS,
+  secret: MCP_SERVER_SECRET
+});
+// Calls go out with the HyperManager key of the request's token
+const apiClient: BacklogBackend = upstreamClients.backend;
+const authManager = new AuthManager(
+  MCP_SERVER_SECRET,
+  ALLOWED_TOKENS,
+  createTokenStore(TOKEN_STORE_OPTIONS),
+  upstreamClients.keyNames()
+);
 const resourceManager = new ResourceManager(apiClient);
 const promptManager = new PromptManager(apiClient);
-const sseManager = new SSEManager(logger);
+const projectResolver = new ProjectResolver(apiClient, logger);
+const rateLimiter = new RateLimitManager(logger, RATE_LIMIT_OPTIONS);
+const auditLog = new AuditLog(createAuditStore(AUDIT_LOG_OPTIONS), projectResolver, logger);
+const dryRunPreviewer = new DryRunPreviewer(apiClient, projectResolver, logger, DRY_RUN_OPTIONS);
+const changeJournal = new ChangeJournal(apiClient, projectResolver, logger, CHANGE_JOURNAL_OPTIONS);
+const oauthManager = new OAuthManager(authManager, logger, {
+  accessTokenTtl: OAUTH_ACCESS_TOKEN_TTL,
+  refreshTokenTtl: OAUTH_REFRESH_TOKEN_TTL
+});
+const sseManager = new SSEManager(logger, { bufferSize: MCP_EVENT_BUFFER_SIZE });
+const sessionManager = new MCPSessionManager(logger, {
+  idleTimeoutMs: MCP_SESSION_IDLE_TIMEOUT_MS,
+  eventBufferSize: MCP_EVENT_BUFFER_SIZE
+});
 
 // Setup tools
-const diagramTools = setupDiagramTools(apiClient);
-const projectTools = setupProjectTools(apiClient);
-const storyTools = setupStoryTools(apiClient);
-const featureTools = setupFeatureTools(apiClient);
-const actorTools = setupActorTools(apiClient);
-const utilityTools = setupUtilityTools(apiClient);
-
-// Combine all tools
-const allTools = [
-  ...diagramTools.tools,
-  ...projectTools.tools,
-  ...storyTools.tools,
-  ...featureTools.tools,
-  ...actorTools.tools,
-  ...utilityTools.tools
-];
-
-const allHandlers = {
-  ...diagramTools.handlers,
-  ...projectTools.handlers,
-  ...storyTools.handlers,
-  ...featureTools.handlers,
-  ...actorTools.handlers,
-  ...utilityTools.handlers
-};
+const toolRegistry = createToolRegistry(apiClient, auditLog, changeJournal, upstreamClients.operations);
 
 // Log tools setup
 logger.info('Tools Setup Complete:', {
-  totalTools: allTools.length,
-  toolNames: allTools.map(t => t.name),
-  handlerCount: Object.keys(allHandlers).length
+  totalTools: toolRegistry.size,
+  toolNames: toolRegistry.names()
 });
 
+// Shared dispatcher dependencies for every transport
+const dispatchDeps: MCPMessageHandlerDependencies = {
+  resourceManager,
+  promptManager,
+  authManager,
+  toolRegistry,
+  projectResolver,
+  rateLimiter,
+  auditLog,
+  dryRunPreviewer,
+  changeJournal,
+  upstreamClients,
+  logger
+};
+
+// Identity used for stdio sessions: the configured token, or a local master identity
+let stdioAuthToken: AuthToken;
+if (MCP_STDIO_TOKEN) {
+  const verified = authManager.verifyToken(MCP_STDIO_TOKEN);
+  if (!verified) {
+    throw new Error('MCP_STDIO_TOKEN is invalid, expired or revoked');
+  }
+  stdioAuthToken = verified;
+} else {
+  stdioAuthToken = authManager.createLocalToken();
+}
+
 // Global error handlers
 process.on('uncaughtException', (error) => {
   logger.error('Uncaught Exception:', {
@@ -154,10 +245,7 @@ class BacklogMCPServer {
 
   constructor() {
     this.server = new Server(
-      {
-        name: 'project-backlog-mcp-server',
-        version: '1.0.0',
-      },
+      SERVER_INFO,
       {
         capabilities: {
           tools: {},
@@ -175,6 +263,12 @@ class BacklogMCPServer {
     process.on('SIGINT', async () => {
       logger.info('Shutting down server...');
       sseManager.shutdown();
+      sessionManager.shutdown();
+      oauthManager.shutdown();
+      rateLimiter.shutdown();
+      authManager.shutdown();
+      await auditLog.flush();
+      await changeJournal.flush();
       await this.server.close();
       process.exit(0);
     });
@@ -186,162 +280,27 @@ class BacklogMCPServer {
   }
 
   private setupMCPHandlers() {
-    // Initialize handler - REQUIRED for MCP protocol
-    this.server.setRequestHandler(InitializeRequestSchema, async (request) => {
-      const clientVersion = request.params.protocolVersion;
-      const supportedVersions = ["2025-03-26", "2024-11-05"];
-      
-      // Use client's version if we support it, otherwise use our latest supported version
-      const negotiatedVersion = supportedVersions.includes(clientVersion) ? clientVersion : supportedVersions[0];
-      
-      logger.info('MCP Initialize Request:', {
-        clientProtocolVersion: clientVersion,
-        negotiatedProtocolVersion: negotiatedVersion,
-        capabilities: request.params.capabilities,
-        clientInfo: request.params.clientInfo
+    // Every MCP method goes through the shared dispatcher, exactly like the HTTP transports
+    const schemas = [
+      InitializeRequestSchema,
+      ListToolsRequestSchema,
+      CallToolRequestSchema,
+      ListResourcesRequestSchema,
+      ReadResourceRequestSchema,
+      ListPromptsRequestSchema,
+      GetPromptRequestSchema
+    ];
+
+    for (const schema of schemas) {
+      this.server.setRequestHandler(schema, async (request) => {
+        const response = await handleMCPMessage(request, stdioAuthToken, `stdio-${uuidv4()}`, dispatchDeps, notification => {
+          this.server.notification(notification as ServerNotification).catch(error => {
+            logger.warn('Stdio Notification Failed', { method: notification.method, error: error instanceof Error ? error.message : 'Unknown error' });
+          });
+        });
+        return response.result;
       });
-
-      return {
-        protocolVersion: negotiatedVersion,
-        capabilities: {
-          tools: {
-            listChanged: true
-          },
-          resources: {
-            subscribe: false,
-            listChanged: false
-          },
-          prompts: {
-            listChanged: false
-          },
-          logging: {}
-        },
-        serverInfo: {
-          name: "project-backlog-mcp-server",
-          version: "1.0.0"
-        }
-      };
-    });
-
-    // Resources handlers
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      logger.debug('Listing available resources');
-      const resources = resourceManager.getAvailableResources();
-      
-      return {
-        resources: resources.map(resource => ({
-          uri: resource.uri,
-          name: resource.name,
-          description: resource.description,
-          mimeType: resource.mimeType
-        }))
-      };
-    });
-
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const { uri } = request.params;
-      logger.info('Reading resource:', { uri });
-      
-      try {
-        const content = await resourceManager.readResource(uri);
-        
-        return {
-          contents: [{
-            uri,
-            mimeType: 'text/plain', // Default, could be enhanced based on resource type
-            text: content
-          }]
-        };
-      } catch (error) {
-        logger.error('Error reading resource:', { uri, error });
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Failed to read resource ${uri}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-    });
-
-    // Prompts handlers
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
-      logger.debug('Listing available prompts');
-      const prompts = promptManager.getAvailablePrompts();
-      
-      return {
-        prompts: prompts.map(prompt => ({
-          name: prompt.name,
-          description: prompt.description,
-          arguments: prompt.arguments || []
-        }))
-      };
-    });
-
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      logger.info('Getting prompt:', { name, args });
-      
-      try {
-        const messages = await promptManager.getPrompt(name, args || {});
-        
-        return {
-          messages: messages.map(msg => ({
-            role: msg.role,
-            content: msg.content
-          }))
-        };
-      } catch (error) {
-        logger.error('Error getting prompt:', { name, args, error });
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Failed to get prompt ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-    });
-
-    // Tools handlers
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: allTools,
-    }));
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      
-      // Check if tool exists
-      if (!allHandlers[name as keyof typeof allHandlers]) {
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${name}`
-        );
-      }
-
-      // For HTTP requests, we'll handle auth in Express middleware
-      // For stdio, we skip auth for now (local usage)
-      
-      try {
-        const handler = allHandlers[name as keyof typeof allHandlers];
-        const result = await handler(args);
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        logger.error(`Tool execution error for ${name}:`, error);
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error executing ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-    });
+    }
   }
 
   private setupExpressApp() {
@@ -383,11 +342,13 @@ class BacklogMCPServer {
     this.expressApp.use(helmet());
     this.expressApp.use(cors({
       origin: process.env['ALLOWED_ORIGINS']?.split(',') || '*',
-      credentials: true
+      credentials: true,
+      exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate']
     }));
 
-    // Rate limiting with logging
-    const limiter = rateLimit({
+    // MCP and admin requests are limited per token by the auth middleware. Only the
+    // unauthenticated OAuth endpoints keep a per-IP limit.
+    const oauthLimiter = rateLimit({
       windowMs: 15 * 60 * 1000, // 15 minutes
       max: 100, // limit each IP to 100 requests per windowMs
       message: 'Too many requests from this IP, please try again later.',
@@ -403,7 +364,7 @@ class BacklogMCPServer {
         res.status(429).json({ error: 'Too many requests from this IP, please try again later.' });
       }
     });
-    this.expressApp.use(limiter);
+    this.expressApp.use([`${BASE_PATH}/oauth`, '/.well-known', `${BASE_PATH}/.well-known`], oauthLimiter);
 
     // JSON middleware - but skip for streaming endpoint
     this.expressApp.use((req, res, next) => {
@@ -423,6 +384,11 @@ class BacklogMCPServer {
           error: error.message,
           body: req.body
         });
+        // JSON-RPC clients of POST /mcp expect a parse error envelope
+        if (req.path.endsWith('/mcp')) {
+          res.status(400).json(jsonRPCParseError());
+          return;
+        }
         res.status(400).json({ error: 'Invalid JSON in request body' });
         return;
       }
@@ -434,35 +400,48 @@ class BacklogMCPServer {
 
     // Health check
     apiRouter.get('/health', (req, res) => {
+      // An open circuit means HyperManager calls on that endpoint fail fast
+      const tenants = upstreamClients.status();
+      const degraded = tenants.some(tenant => tenant.circuits.some(circuit => circuit.state !== 'closed'));
+      const defaultClient = upstreamClients.defaultClient;
       res.json({ 
-        status: 'healthy', 
+        status: degraded ? 'degraded' : 'healthy', 
         timestamp: new Date().toISOString(),
-        version: '1.0.0'
+        version: '1.0.0',
+        upstream: {
+          baseURL: defaultClient.baseURL,
+          circuits: defaultClient.circuitBreakerStatus(),
+          cache: defaultClient.cacheStats(),
+          tenants
+        }
       });
     });
 
     // Setup all transport protocols
-    const transportDeps = {
-      resourceManager,
-      promptManager,
-      authManager,
-      allTools,
-      allHandlers,
-      logger
-    };
-
     setupAllTransports(apiRouter, {
       authManager,
       sseManager,
+      sessionManager,
+      rateLimiter,
       logger,
-      deps: transportDeps
+      deps: dispatchDeps
     });
 
     // Setup admin endpoints
-    setupAdminEndpoints(apiRouter, authManager, logger);
+    setupAdminEndpoints(apiRouter, authManager, rateLimiter, auditLog, logger);
+
+    // OAuth 2.1 authorization server for MCP clients
+    setupOAuthEndpoints(apiRouter, oauthManager, authManager, logger);
 
     // Mount the router with BASE_PATH
     this.expressApp.use(BASE_PATH, apiRouter);
+
+    // Clients look for OAuth discovery documents at the root of the host
+    if (BASE_PATH) {
+      const wellKnownRouter = express.Router();
+      setupOAuthMetadata(wellKnownRouter);
+      this.expressApp.use(wellKnownRouter);
+    }
   }
 
   async runStdio() {
@@ -1,8 +1,10 @@
 import express from 'express';
 import winston from 'winston';
 import { AuthManager } from '../auth.js';
+import { protectedResourceMetadataUrl } from '../oauth.js';
+import { RateLimitManager } from '../rate-limiter.js';
 
-export function createAuthMiddleware(authManager: AuthManager, logger: winston.Logger) {
+export function createAuthMiddleware(authManager: AuthManager, logger: winston.Logger, rateLimiter?: RateLimitManager) {
   return (req: express.Request, res: express.Response, next: express.NextFunction): void => {
     const requestId = (req as any).requestId;
     
@@ -26,6 +28,8 @@ export function createAuthMiddleware(authManager: AuthManager, logger: winston.L
         url: req.url,
         ip: req.ip || req.connection.remoteAddress
       });
+      // Points OAuth-capable MCP clients at the authorization server
+      res.setHeader('WWW-Authenticate', `Bearer resource_metadata="${protectedResourceMetadataUrl(req)}"`);
       res.status(401).json({ error: 'Authentication token required' });
       return;
     }
@@ -39,6 +43,7 @@ export function createAuthMiddleware(authManager: AuthManager, logger: winston.L
         ip: req.ip || req.connection.remoteAddress,
         tokenPrefix: token.substring(0, 10) + '...'
       });
+      res.setHeader('WWW-Authenticate', `Bearer error="invalid_token", resource_metadata="${protectedResourceMetadataUrl(req)}"`);
       res.status(401).json({ error: 'Invalid or expired token' });
       return;
     }
@@ -52,6 +57,26 @@ export function createAuthMiddleware(authManager: AuthManager, logger: winston.L
       expiresAt: authToken.expiresAt
     });
 
+    // Request budget of the token, independent of the client's IP address
+    if (rateLimiter) {
+      const decision = rateLimiter.consume(authToken, 'request');
+      if (decision.limit > 0) {
+        res.setHeader('RateLimit-Limit', decision.limit);
+        res.setHeader('RateLimit-Remaining', decision.remaining);
+        res.setHeader('RateLimit-Reset', Math.max(0, Math.ceil((decision.resetAt.getTime() - Date.now()) / 1000)));
+      }
+      if (!decision.allowed) {
+        res.setHeader('Retry-After', decision.retryAfterSeconds!);
+        res.status(429).json({
+          error: 'Rate limit exceeded for this token, please try again later.',
+          bucket: decision.bucket,
+          limit: decision.limit,
+          retryAfter: decision.retryAfterSeconds
+        });
+        return;
+      }
+    }
+
     (req as any).authToken = authToken;
     next();
   };
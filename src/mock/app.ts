@@ -0,0 +1,109 @@
+import express from 'express';
+import winston from 'winston';
+import { InMemoryBacklogStore, MockBackendError } from './store.js';
+
+export interface MockServerOptions {
+  // When set, requests must carry this key in the auth header or `api_key` query
+  apiKey?: string;
+  authHeader?: string;
+  logger?: winston.Logger;
+}
+
+type RouteHandler = (req: express.Request) => Promise<unknown>;
+
+function param(req: express.Request, name: string): string {
+  return req.params[name] ?? '';
+}
+
+function textBody(req: express.Request): string {
+  if (typeof req.body === 'string') {
+    return req.body;
+  }
+  return req.body && Object.keys(req.body).length > 0 ? JSON.stringify(req.body) : '';
+}
+
+/**
+ * Build an Express app that serves every path in swagger.yml from an
+ * InMemoryBacklogStore, so HyperManagerAPIClient can target it through
+ * HYPERMANAGER_BASE_URL.
+ */
+export function createMockApp(store: InMemoryBacklogStore, options: MockServerOptions = {}): express.Application {
+  const { apiKey, logger } = options;
+  const authHeader = (options.authHeader || 'x-api-key').toLowerCase();
+  const app = express();
+
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.text({ type: 'text/*', limit: '10mb' }));
+
+  app.use((req, res, next) => {
+    logger?.debug('Mock API Request', { method: req.method, url: req.url });
+
+    if (apiKey) {
+      const provided = req.headers[authHeader] || req.query['api_key'];
+      if (provided !== apiKey) {
+        res.status(401).json({ message: 'Invalid or missing API key' });
+        return;
+      }
+    }
+    next();
+  });
+
+  const route = (status: number, handler: RouteHandler): express.RequestHandler => {
+    return async (req, res): Promise<void> => {
+      try {
+        const body = await handler(req);
+        if (typeof body === 'string') {
+          const isJson = body.startsWith('{') || body.startsWith('[');
+          res.status(status).type(isJson ? 'application/json' : 'text/plain').send(body);
+        } else {
+          res.status(status).json(body);
+        }
+      } catch (error) {
+        const statusCode = error instanceof MockBackendError ? error.status : 500;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger?.warn('Mock API Error', { method: req.method, url: req.url, status: statusCode, message });
+        res.status(statusCode).json({ status: statusCode, message });
+      }
+    };
+  };
+
+  // Diagrams
+  app.post('/diagrams', route(200, req => store.createDiagram(req.body ?? {})));
+  app.get('/diagrams', route(200, () => store.listDiagrams()));
+  app.patch('/diagrams/:id', route(200, req => store.updateDiagram(param(req, 'id'), req.body ?? {})));
+  app.get('/diagram/png/:diagramName', route(200, req => store.getDiagramPng(param(req, 'diagramName'))));
+  app.get('/diagram/plant-url/:diagramName', route(200, req => store.getDiagramPlantUmlUrl(param(req, 'diagramName'))));
+  app.get('/diagram/plant-definition/:name', route(200, req => store.getDiagramDefinition(param(req, 'name'))));
+  app.patch('/diagram/update/:name', route(200, req => store.updateDiagramDefinition(param(req, 'name'), textBody(req))));
+  app.patch('/diagram/update-graphic/:diagramName', route(200, req => store.updateDiagramGraphic(param(req, 'diagramName'), textBody(req))));
+  app.get('/diagram/:id', route(200, req => store.getDiagram(param(req, 'id'))));
+
+  // Projects
+  app.post('/projects', route(200, req => store.createProject(req.body ?? {})));
+  app.get('/project-command/all', route(200, () => store.listProjects()));
+  app.get('/project-command/:project/tree', route(200, req => store.getProjectTree(param(req, 'project'))));
+
+  // Stories
+  app.get('/story-command/:storyId/tree', route(200, req => store.getStoryTree(param(req, 'storyId'))));
+  app.post('/story-command/update', route(200, req => store.updateStory(req.body ?? {})));
+
+  // Features
+  app.get('/featuretypes', route(200, () => store.listFeatureTypes()));
+  app.get('/feature-command/refresh-types', route(200, () => store.refreshFeatureTypes()));
+  app.post('/feature-command/:story/add', route(201, req => store.addFeatureToStory(param(req, 'story'), req.body ?? {})));
+  app.post('/feature-command/:parent/add-child', route(201, req => store.addChildFeature(param(req, 'parent'), req.body ?? {})));
+  app.post('/feature-command/:parent/adopt/:child', route(201, req => store.adoptChildFeature(param(req, 'parent'), param(req, 'child'))));
+
+  // Actors
+  app.post('/actor-command/:project/add', route(201, req => store.addActor(param(req, 'project'), req.body ?? {})));
+  app.post('/actor-command/:project/:name/add-story', route(201, req => store.addStoryToActor(param(req, 'project'), param(req, 'name'), req.body ?? {})));
+
+  // Utilities
+  app.get('/normalize-tasks', route(200, () => store.normalizeTasks()));
+
+  app.use((req, res) => {
+    res.status(404).json({ status: 404, message: `No mock route for ${req.method} ${req.path}` });
+  });
+
+  return app;
+}
@@ -0,0 +1,34 @@
+import { deflateRawSync } from 'zlib';
+
+const PLANTUML_SERVER = 'https://www.plantuml.com/plantuml';
+const PLANTUML_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+
+// 1x1 transparent PNG, used in place of a rendered diagram
+export const PLACEHOLDER_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/**
+ * Encode a PlantUML definition the way plantuml.com expects it in URLs:
+ * raw deflate followed by PlantUML's own base64 alphabet.
+ */
+export function encodePlantUml(definition: string): string {
+  const bytes = deflateRawSync(Buffer.from(definition, 'utf-8'), { level: 9 });
+  let encoded = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b1 = bytes[i] ?? 0;
+    const b2 = bytes[i + 1] ?? 0;
+    const b3 = bytes[i + 2] ?? 0;
+
+    encoded += PLANTUML_ALPHABET[b1 >> 2];
+    encoded += PLANTUML_ALPHABET[((b1 & 0x3) << 4) | (b2 >> 4)];
+    encoded += PLANTUML_ALPHABET[((b2 & 0xf) << 2) | (b3 >> 6)];
+    encoded += PLANTUML_ALPHABET[b3 & 0x3f];
+  }
+
+  return encoded;
+}
+
+export function plantUmlUrl(definition: string, format: 'png' | 'svg' = 'png'): string {
+  return `${PLANTUML_SERVER}/${format}/${encodePlantUml(definition)}`;
+}
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import winston from 'winston';
+import { InMemoryBacklogStore } from './store.js';
+import { createMockApp } from './app.js';
+
+// Environment variables
+const MOCK_PORT = parseInt(process.env['MOCK_PORT'] || '4000');
+const MOCK_API_KEY = process.env['MOCK_API_KEY'];
+const MOCK_SEED = process.env['MOCK_SEED'] !== 'false';
+const NODE_ENV = process.env['NODE_ENV'] || 'development';
+
+const logger = winston.createLogger({
+  level: NODE_ENV === 'development' ? 'debug' : 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+const store = new InMemoryBacklogStore({ seed: MOCK_SEED });
+const app = createMockApp(store, {
+  logger,
+  ...(MOCK_API_KEY && { apiKey: MOCK_API_KEY }),
+  ...(process.env['HYPERMANAGER_AUTH_HEADER'] && { authHeader: process.env['HYPERMANAGER_AUTH_HEADER'] })
+});
+
+app.listen(MOCK_PORT, () => {
+  logger.info(`Mock HyperManager API running on http://localhost:${MOCK_PORT}`);
+  logger.info('Mock Configuration:', {
+    seeded: MOCK_SEED,
+    apiKeyRequired: !!MOCK_API_KEY
+  });
+  logger.info(`Point the MCP server at it with HYPERMANAGER_BASE_URL=http://localhost:${MOCK_PORT}`);
+});
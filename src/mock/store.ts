@@ -0,0 +1,517 @@
+import { BacklogBackend } from '../backend.js';
+import {
+  DiagramCreateRequest,
+  DiagramUpdateRequest,
+  ProjectCreateRequest,
+  StoryUpdateRequest,
+  FeatureAddRequest,
+  ActorAddRequest,
+  StoryAddRequest,
+  Project,
+  ProjectTree,
+  Actor,
+  Story,
+  StoryTree,
+  Feature,
+  FeatureNode,
+  FeatureType,
+  Diagram
+} from '../types.js';
+import { PLACEHOLDER_PNG_BASE64, plantUmlUrl } from './plantuml.js';
+
+/**
+ * Error raised by the in-memory store. The mock HTTP server turns `status`
+ * into the response status code, mirroring what HyperManager would send.
+ */
+export class MockBackendError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'MockBackendError';
+  }
+}
+
+// Records are type aliases rather than interfaces so they stay assignable to
+// the passthrough domain types, which carry an index signature.
+type ProjectRecord = {
+  id: string;
+  name: string;
+  code: string;
+  clientName?: string;
+  description?: string;
+  creationDate: string;
+};
+
+type ActorRecord = {
+  id: string;
+  projectId: string;
+  name: string;
+  description?: string;
+  creationDate: string;
+};
+
+type StoryRecord = {
+  id: string;
+  projectId: string;
+  actorId: string;
+  action: string;
+  objective?: string;
+  scenario?: string;
+  creationDate: string;
+};
+
+type FeatureRecord = {
+  id: string;
+  storyId: string;
+  parentId?: string;
+  name: string;
+  description?: string;
+  type?: string;
+  creationDate: string;
+};
+
+type DiagramRecord = {
+  id: string;
+  name: string;
+  definition: string;
+  creationDate: string;
+  lastUpdate: string;
+};
+
+type FeatureTypeRecord = {
+  name: string;
+  description: string;
+};
+
+const DEFAULT_FEATURE_TYPES: FeatureTypeRecord[] = [
+  { name: 'frontend', description: 'User interface work' },
+  { name: 'backend', description: 'Server-side logic and APIs' },
+  { name: 'database', description: 'Schema and data migrations' },
+  { name: 'test', description: 'Automated or manual testing' },
+  { name: 'documentation', description: 'User or technical documentation' }
+];
+
+// Hand out copies so callers cannot mutate the store behind its back
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function requiredString(value: unknown, field: string): string {
+  const result = optionalString(value);
+  if (!result) {
+    throw new MockBackendError(400, `${field} is required`);
+  }
+  return result;
+}
+
+/**
+ * In-memory stand-in for the HyperManager backlog API.
+ *
+ * Keeps a project → actor → story → feature tree plus diagrams and feature
+ * types. Identifiers are 24-character hex strings like MongoDB ObjectIds and
+ * are allocated sequentially, so a freshly seeded store is deterministic.
+ */
+export class InMemoryBacklogStore implements BacklogBackend {
+  private projects: Map<string, ProjectRecord> = new Map();
+  private actors: Map<string, ActorRecord> = new Map();
+  private stories: Map<string, StoryRecord> = new Map();
+  private features: Map<string, FeatureRecord> = new Map();
+  private diagrams: Map<string, DiagramRecord> = new Map();
+  private featureTypes: FeatureTypeRecord[] = [...DEFAULT_FEATURE_TYPES];
+  private sequence = 0;
+
+  constructor(options: { seed?: boolean } = {}) {
+    if (options.seed !== false) {
+      this.seed();
+    }
+  }
+
+  // Diagram methods
+  async createDiagram(data: DiagramCreateRequest): Promise<Diagram> {
+    const name = requiredString(data.name, 'name');
+    const definition = requiredString(data.definition, 'definition');
+    if (this.findDiagramByName(name)) {
+      throw new MockBackendError(400, `Diagram ${name} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const diagram: DiagramRecord = { id: this.nextId(), name, definition, creationDate: now, lastUpdate: now };
+    this.diagrams.set(diagram.id, diagram);
+    return clone(diagram);
+  }
+
+  async listDiagrams(): Promise<Diagram[]> {
+    return clone(Array.from(this.diagrams.values()));
+  }
+
+  async getDiagram(id: string): Promise<Diagram> {
+    return clone(this.requireDiagram(id));
+  }
+
+  async updateDiagram(id: string, data: DiagramUpdateRequest): Promise<Diagram> {
+    const diagram = this.requireDiagram(id);
+    const name = optionalString(data.name);
+    if (name && name !== diagram.name) {
+      if (this.findDiagramByName(name)) {
+        throw new MockBackendError(400, `Diagram ${name} already exists`);
+      }
+      diagram.name = name;
+    }
+    diagram.lastUpdate = new Date().toISOString();
+    return clone(diagram);
+  }
+
+  async getDiagramPng(diagramName: string): Promise<string> {
+    this.requireDiagram(diagramName);
+    return PLACEHOLDER_PNG_BASE64;
+  }
+
+  async getDiagramPlantUmlUrl(diagramName: string): Promise<string> {
+    return plantUmlUrl(this.requireDiagram(diagramName).definition);
+  }
+
+  async getDiagramDefinition(name: string): Promise<string> {
+    return this.requireDiagram(name).definition;
+  }
+
+  async updateDiagramDefinition(name: string, definition: string): Promise<Diagram> {
+    const diagram = this.requireDiagram(name);
+    diagram.definition = requiredString(definition, 'definition');
+    diagram.lastUpdate = new Date().toISOString();
+    return clone(diagram);
+  }
+
+  async updateDiagramGraphic(diagramName: string, data: string): Promise<string> {
+    const diagram = this.requireDiagram(diagramName);
+    let definition: unknown = data;
+    try {
+      const parsed = JSON.parse(data);
+      if (parsed && typeof parsed === 'object' && 'definition' in parsed) {
+        definition = parsed.definition;
+      }
+    } catch {
+      // Plain-text body: treat it as the PlantUML definition itself
+    }
+    diagram.definition = requiredString(definition, 'definition');
+    diagram.lastUpdate = new Date().toISOString();
+    return PLACEHOLDER_PNG_BASE64;
+  }
+
+  // Project methods
+  async createProject(data: ProjectCreateRequest): Promise<Project> {
+    const project = this.insertProject(data);
+    return clone(project);
+  }
+
+  async listProjects(): Promise<Project[]> {
+    return clone(Array.from(this.projects.values()));
+  }
+
+  async getProjectTree(project: string): Promise<ProjectTree> {
+    const record = this.requireProject(project);
+    const actors = this.actorsOf(record.id).map(actor => ({
+      ...actor,
+      stories: this.storiesOf(actor.id).map(story => this.storyTree(story))
+    }));
+    return clone({ ...record, actors });
+  }
+
+  // Story methods
+  async getStoryTree(storyId: string): Promise<StoryTree> {
+    return clone(this.storyTree(this.requireStory(storyId)));
+  }
+
+  async updateStory(data: StoryUpdateRequest): Promise<Story> {
+    const story = this.requireStory(requiredString(data.id, 'id'));
+    const action = optionalString(data.action);
+    if (action) story.action = action;
+    const objective = optionalString(data.objective);
+    if (objective) story.objective = objective;
+    const scenario = optionalString(data.scenario);
+    if (scenario) story.scenario = scenario;
+    return clone(story);
+  }
+
+  // Feature methods
+  async refreshFeatureTypes(): Promise<FeatureType[]> {
+    for (const type of DEFAULT_FEATURE_TYPES) {
+      if (!this.featureTypes.some(existing => existing.name === type.name)) {
+        this.featureTypes.push({ ...type });
+      }
+    }
+    return clone(this.featureTypes);
+  }
+
+  async listFeatureTypes(): Promise<FeatureType[]> {
+    return clone(this.featureTypes);
+  }
+
+  async addFeatureToStory(story: string, data: FeatureAddRequest): Promise<Feature> {
+    const record = this.requireStory(story);
+    return clone(this.insertFeature(record.id, undefined, data));
+  }
+
+  async addChildFeature(parent: string, data: FeatureAddRequest): Promise<Feature> {
+    const record = this.requireFeature(parent);
+    return clone(this.insertFeature(record.storyId, record.id, data));
+  }
+
+  async adoptChildFeature(parent: string, child: string): Promise<Feature> {
+    const parentRecord = this.requireFeature(parent);
+    const childRecord = this.requireFeature(child);
+
+    // Refuse to create a cycle: the parent must not be a descendant of the child
+    for (let cursor: FeatureRecord | undefined = parentRecord; cursor; cursor = cursor.parentId ? this.features.get(cursor.parentId) : undefined) {
+      if (cursor.id === childRecord.id) {
+        throw new MockBackendError(400, `Feature ${child} cannot adopt one of its own ancestors`);
+      }
+    }
+
+    childRecord.parentId = parentRecord.id;
+    childRecord.storyId = parentRecord.storyId;
+    for (const descendant of this.descendantsOf(childRecord.id)) {
+      descendant.storyId = parentRecord.storyId;
+    }
+    return clone(childRecord);
+  }
+
+  // Actor methods
+  async addActor(project: string, data: ActorAddRequest): Promise<Actor> {
+    const record = this.requireProject(project);
+    return clone(this.insertActor(record.id, data));
+  }
+
+  async addStoryToActor(project: string, name: string, data: StoryAddRequest): Promise<Story> {
+    const record = this.requireProject(project);
+    const actor = this.actorsOf(record.id).find(candidate => candidate.name === name);
+    if (!actor) {
+      throw new MockBackendError(404, `Actor ${name} not found in project ${project}`);
+    }
+    return clone(this.insertStory(actor, data));
+  }
+
+  // Utility methods
+  async normalizeTasks(): Promise<string> {
+    let normalized = 0;
+    const defaultType = this.featureTypes[0]?.name;
+
+    for (const feature of this.features.values()) {
+      let changed = false;
+      if (feature.parentId && !this.features.has(feature.parentId)) {
+        delete feature.parentId;
+        changed = true;
+      }
+      if (!feature.type && defaultType) {
+        feature.type = defaultType;
+        changed = true;
+      }
+      if (feature.name !== feature.name.trim()) {
+        feature.name = feature.name.trim();
+        changed = true;
+      }
+      if (changed) normalized++;
+    }
+
+    return JSON.stringify({ normalized, total: this.features.size });
+  }
+
+  private nextId(): string {
+    this.sequence++;
+    return this.sequence.toString(16).padStart(24, '0');
+  }
+
+  private insertProject(data: ProjectCreateRequest): ProjectRecord {
+    const code = requiredString(data.code, 'code');
+    if (Array.from(this.projects.values()).some(project => project.code === code)) {
+      throw new MockBackendError(400, `Project ${code} already exists`);
+    }
+
+    const project: ProjectRecord = {
+      id: this.nextId(),
+      name: requiredString(data.name, 'name'),
+      code,
+      creationDate: new Date().toISOString()
+    };
+    const clientName = optionalString(data.clientName);
+    if (clientName) project.clientName = clientName;
+    const description = optionalString(data.description);
+    if (description) project.description = description;
+
+    this.projects.set(project.id, project);
+    return project;
+  }
+
+  private insertActor(projectId: string, data: ActorAddRequest): ActorRecord {
+    const name = requiredString(data.name, 'name');
+    if (this.actorsOf(projectId).some(actor => actor.name === name)) {
+      throw new MockBackendError(400, `Actor ${name} already exists`);
+    }
+
+    const actor: ActorRecord = { id: this.nextId(), projectId, name, creationDate: new Date().toISOString() };
+    const description = optionalString(data.description);
+    if (description) actor.description = description;
+
+    this.actors.set(actor.id, actor);
+    return actor;
+  }
+
+  private insertStory(actor: ActorRecord, data: StoryAddRequest): StoryRecord {
+    const story: StoryRecord = {
+      id: this.nextId(),
+      projectId: actor.projectId,
+      actorId: actor.id,
+      action: requiredString(data.action, 'action'),
+      creationDate: new Date().toISOString()
+    };
+    const objective = optionalString(data.objective);
+    if (objective) story.objective = objective;
+    const scenario = optionalString(data.scenario);
+    if (scenario) story.scenario = scenario;
+
+    this.stories.set(story.id, story);
+    return story;
+  }
+
+  private insertFeature(storyId: string, parentId: string | undefined, data: FeatureAddRequest): FeatureRecord {
+    const feature: FeatureRecord = {
+      id: this.nextId(),
+      storyId,
+      name: requiredString(data.name, 'name'),
+      creationDate: new Date().toISOString()
+    };
+    if (parentId) feature.parentId = parentId;
+    const description = optionalString(data.description);
+    if (description) feature.description = description;
+    const type = optionalString(data.type);
+    if (type) {
+      if (!this.featureTypes.some(featureType => featureType.name === type)) {
+        throw new MockBackendError(400, `Unknown feature type ${type}`);
+      }
+      feature.type = type;
+    }
+
+    this.features.set(feature.id, feature);
+    return feature;
+  }
+
+  private requireProject(project: string): ProjectRecord {
+    const record = this.projects.get(project) ||
+      Array.from(this.projects.values()).find(candidate => candidate.code === project);
+    if (!record) {
+      throw new MockBackendError(404, `Project ${project} not found`);
+    }
+    return record;
+  }
+
+  private requireStory(storyId: string): StoryRecord {
+    const record = this.stories.get(storyId);
+    if (!record) {
+      throw new MockBackendError(404, `Story ${storyId} not found`);
+    }
+    return record;
+  }
+
+  private requireFeature(featureId: string): FeatureRecord {
+    const record = this.features.get(featureId);
+    if (!record) {
+      throw new MockBackendError(404, `Feature ${featureId} not found`);
+    }
+    return record;
+  }
+
+  // Diagrams are addressed by id on /diagrams routes and by name on /diagram routes
+  private requireDiagram(idOrName: string): DiagramRecord {
+    const record = this.diagrams.get(idOrName) || this.findDiagramByName(idOrName);
+    if (!record) {
+      throw new MockBackendError(404, `Diagram ${idOrName} not found`);
+    }
+    return record;
+  }
+
+  private findDiagramByName(name: string): DiagramRecord | undefined {
+    return Array.from(this.diagrams.values()).find(diagram => diagram.name === name);
+  }
+
+  private actorsOf(projectId: string): ActorRecord[] {
+    return Array.from(this.actors.values()).filter(actor => actor.projectId === projectId);
+  }
+
+  private storiesOf(actorId: string): StoryRecord[] {
+    return Array.from(this.stories.values()).filter(story => story.actorId === actorId);
+  }
+
+  private childrenOf(storyId: string, parentId: string | undefined): FeatureRecord[] {
+    return Array.from(this.features.values()).filter(feature =>
+      feature.storyId === storyId && feature.parentId === parentId
+    );
+  }
+
+  private descendantsOf(featureId: string): FeatureRecord[] {
+    const direct = Array.from(this.features.values()).filter(feature => feature.parentId === featureId);
+    return direct.flatMap(child => [child, ...this.descendantsOf(child.id)]);
+  }
+
+  private featureTree(feature: FeatureRecord): FeatureNode {
+    return {
+      ...feature,
+      children: this.childrenOf(feature.storyId, feature.id).map(child => this.featureTree(child))
+    };
+  }
+
+  private storyTree(story: StoryRecord): StoryTree {
+    return {
+      ...story,
+      features: this.childrenOf(story.id, undefined).map(feature => this.featureTree(feature))
+    };
+  }
+
+  private seed(): void {
+    const project = this.insertProject({
+      name: 'Demo Webshop',
+      code: 'DEMO',
+      clientName: 'Acme Retail',
+      description: 'Online shop used to demonstrate the backlog tools'
+    });
+
+    const customer = this.insertActor(project.id, { name: 'Customer', description: 'Person buying products online' });
+    const admin = this.insertActor(project.id, { name: 'Administrator', description: 'Back-office staff managing the catalog' });
+
+    const browse = this.insertStory(customer, {
+      action: 'browse the product catalog',
+      objective: 'find products I want to buy',
+      scenario: 'Given I am on the home page, when I open a category, then I see its products'
+    });
+    const checkout = this.insertStory(customer, {
+      action: 'pay for my cart',
+      objective: 'receive my order'
+    });
+    const catalog = this.insertStory(admin, {
+      action: 'manage products',
+      objective: 'keep the catalog up to date'
+    });
+
+    const listing = this.insertFeature(browse.id, undefined, { name: 'Category listing page', type: 'frontend' });
+    this.insertFeature(browse.id, listing.id, { name: 'Pagination', type: 'frontend' });
+    this.insertFeature(browse.id, listing.id, { name: 'Products by category endpoint', type: 'backend' });
+    this.insertFeature(browse.id, undefined, { name: 'Product search', description: 'Full-text search on name and description', type: 'backend' });
+
+    const payment = this.insertFeature(checkout.id, undefined, { name: 'Payment provider integration', type: 'backend' });
+    this.insertFeature(checkout.id, payment.id, { name: 'Payment webhook tests', type: 'test' });
+
+    this.insertFeature(catalog.id, undefined, { name: 'Product edit form', type: 'frontend' });
+    this.insertFeature(catalog.id, undefined, { name: 'Product table migration', type: 'database' });
+
+    const now = new Date().toISOString();
+    const diagram: DiagramRecord = {
+      id: this.nextId(),
+      name: 'demo-checkout',
+      definition: '@startuml\nactor Customer\nCustomer -> Webshop: pay cart\nWebshop -> PaymentProvider: charge\n@enduml',
+      creationDate: now,
+      lastUpdate: now
+    };
+    this.diagrams.set(diagram.id, diagram);
+  }
+}
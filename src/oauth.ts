@@ -0,0 +1,515 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+import { z } from 'zod';
+import { AuthManager } from './auth.js';
+import { AuthToken, JWTPayload, PERMISSION_SETS, TokenType, UpstreamCredential } from './types.js';
+
+// OAuth scopes are the token types, from least to most privileged
+export const OAUTH_SCOPES: TokenType[] = ['readonly', 'team', 'master'];
+
+export const OAUTH_GRANT_TYPES = ['authorization_code', 'refresh_token'];
+
+export type ClientAuthMethod = 'none' | 'client_secret_post' | 'client_secret_basic';
+
+/**
+ * Error answered with an RFC 6749 error body: `code` goes into `error`,
+ * the message into `error_description`.
+ */
+export class OAuthError extends Error {
+  constructor(readonly code: string, message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+export interface OAuthClient {
+  clientId: string;
+  clientName?: string;
+  redirectUris: string[];
+  grantTypes: string[];
+  tokenEndpointAuthMethod: ClientAuthMethod;
+  // SHA-256 of the secret for confidential clients
+  clientSecretHash?: string;
+  createdAt: Date;
+  lastUsed: Date;
+}
+
+export interface AuthorizationRequest {
+  client: OAuthClient;
+  redirectUri: string;
+  // Whether the request named redirectUri; the token request must then repeat it
+  redirectUriGiven: boolean;
+  codeChallenge: string;
+  requestedType?: TokenType;
+  state?: string;
+}
+
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token: string;
+  scope: TokenType;
+}
+
+export interface OAuthOptions {
+  accessTokenTtl?: string;
+  refreshTokenTtl?: string;
+  codeTtlMs?: number;
+  maxClients?: number;
+}
+
+// Authorization codes and refresh tokens are kept under their SHA-256
+interface Grant {
+  clientId: string;
+  type: TokenType;
+  projects?: string[];
+  // HyperManager credentials of the approving token, passed on to the client's tokens
+  upstream?: UpstreamCredential;
+  // Token that approved the client; revoking it ends the grant
+  approvedBy: string;
+  expiresAt: number;
+}
+
+interface AuthorizationCode extends Grant {
+  redirectUri: string;
+  redirectUriGiven: boolean;
+  codeChallenge: string;
+}
+
+const ClientRegistrationSchema = z.object({
+  redirect_uris: z.array(z.string()).min(1, 'redirect_uris must list at least one URI'),
+  client_name: z.string().optional(),
+  grant_types: z.array(z.string()).optional(),
+  response_types: z.array(z.string()).optional(),
+  token_endpoint_auth_method: z.enum(['none', 'client_secret_post', 'client_secret_basic']).optional()
+}).passthrough();
+
+// RFC 7636: 43 to 128 characters from the unreserved set
+const PKCE_VALUE = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function sameSecret(secret: string, hash: string): boolean {
+  const candidate = Buffer.from(sha256(secret), 'hex');
+  const expected = Buffer.from(hash, 'hex');
+  return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+}
+
+/**
+ * Redirect URIs allowed by OAuth 2.1: HTTPS, HTTP on a loopback address
+ * for native apps, or a private-use scheme. Fragments are not allowed.
+ */
+function redirectUriProblem(uri: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return `${uri} is not an absolute URI`;
+  }
+  if (url.hash) {
+    return `${uri} must not contain a fragment`;
+  }
+  if (url.protocol === 'http:' && !['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)) {
+    return `${uri} must use https unless it points to localhost`;
+  }
+  if (['javascript:', 'data:', 'file:'].includes(url.protocol)) {
+    return `${uri} uses a forbidden scheme`;
+  }
+  return undefined;
+}
+
+/**
+ * Public URL of the server including BASE_PATH, used as the OAuth issuer.
+ * OAUTH_ISSUER wins over the URL the request came in on.
+ */
+export function publicBaseUrl(req: express.Request): string {
+  const configured = process.env['OAUTH_ISSUER'];
+  if (configured) {
+    return configured.replace(/\/+$/, '');
+  }
+  return `${req.protocol}://${req.get('host')}${process.env['BASE_PATH'] || ''}`;
+}
+
+/**
+ * RFC 9728 metadata URL for the `/mcp` resource, announced in
+ * `WWW-Authenticate` so clients can discover the authorization server.
+ */
+export function protectedResourceMetadataUrl(req: express.Request): string {
+  const base = new URL(publicBaseUrl(req));
+  return `${base.origin}/.well-known/oauth-protected-resource${base.pathname.replace(/\/+$/, '')}/mcp`;
+}
+
+/**
+ * OAuth 2.1 authorization server for MCP clients: dynamic client
+ * registration, authorization code with PKCE (S256) and rotating refresh
+ * tokens. Access tokens are ordinary tokens minted by AuthManager with the
+ * permission set named by the granted scope. Clients, codes and refresh
+ * tokens live in memory, so clients register and authorize again after a
+ * restart.
+ */
+export class OAuthManager {
+  private authManager: AuthManager;
+  private logger: winston.Logger;
+  private accessTokenTtl: string;
+  private refreshTokenTtlMs: number;
+  private codeTtlMs: number;
+  private maxClients: number;
+  private clients: Map<string, OAuthClient> = new Map();
+  private codes: Map<string, AuthorizationCode> = new Map();
+  private refreshGrants: Map<string, Grant> = new Map();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(authManager: AuthManager, logger: winston.Logger, options: OAuthOptions = {}) {
+    this.authManager = authManager;
+    this.logger = logger;
+    this.accessTokenTtl = options.accessTokenTtl || '1h';
+    this.refreshTokenTtlMs = authManager.parseDuration(options.refreshTokenTtl || '30d');
+    this.codeTtlMs = options.codeTtlMs ?? 10 * 60 * 1000;
+    this.maxClients = options.maxClients ?? 1000;
+    // Fail at startup rather than on the first token request
+    authManager.parseDuration(this.accessTokenTtl);
+    this.startCleanup();
+  }
+
+  /**
+   * RFC 7591 dynamic client registration. Returns the client and, for
+   * confidential clients, the secret, which is not kept.
+   */
+  registerClient(metadata: unknown): { client: OAuthClient; clientSecret?: string } {
+    const parsed = ClientRegistrationSchema.safeParse(metadata);
+    if (!parsed.success) {
+      throw new OAuthError('invalid_client_metadata', parsed.error.issues
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; '));
+    }
+    const request = parsed.data;
+
+    for (const uri of request.redirect_uris) {
+      const problem = redirectUriProblem(uri);
+      if (problem) {
+        throw new OAuthError('invalid_redirect_uri', problem);
+      }
+    }
+
+    const grantTypes = request.grant_types ?? OAUTH_GRANT_TYPES;
+    const unsupportedGrant = grantTypes.find(grant => !OAUTH_GRANT_TYPES.includes(grant));
+    if (unsupportedGrant) {
+      throw new OAuthError('invalid_client_metadata', `Unsupported grant type ${unsupportedGrant}`);
+    }
+    if (request.response_types && request.response_types.some(type => type !== 'code')) {
+      throw new OAuthError('invalid_client_metadata', 'Only the "code" response type is supported');
+    }
+
+    if (this.clients.size >= this.maxClients) {
+      throw new OAuthError('temporarily_unavailable', 'Too many registered clients', 503);
+    }
+
+    const tokenEndpointAuthMethod = request.token_endpoint_auth_method ?? 'none';
+    const clientSecret = tokenEndpointAuthMethod === 'none' ? undefined : randomToken();
+    const now = new Date();
+    const client: OAuthClient = {
+      clientId: uuidv4(),
+      ...(request.client_name && { clientName: request.client_name }),
+      redirectUris: request.redirect_uris,
+      grantTypes,
+      tokenEndpointAuthMethod,
+      ...(clientSecret && { clientSecretHash: sha256(clientSecret) }),
+      createdAt: now,
+      lastUsed: now
+    };
+    this.clients.set(client.clientId, client);
+
+    this.logger.info('OAuth Client Registered', {
+      clientId: client.clientId,
+      clientName: client.clientName,
+      redirectUris: client.redirectUris,
+      tokenEndpointAuthMethod
+    });
+
+    return { client, ...(clientSecret && { clientSecret }) };
+  }
+
+  /**
+   * Check the client and redirect URI of an authorization request. These
+   * errors must be shown to the user instead of being sent to the
+   * redirect URI.
+   */
+  resolveRedirect(clientId: unknown, redirectUri: unknown): { client: OAuthClient; redirectUri: string; redirectUriGiven: boolean } {
+    const client = typeof clientId === 'string' ? this.clients.get(clientId) : undefined;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client_id; register the client again');
+    }
+
+    // A client with a single redirect URI may leave it out
+    const redirectUriGiven = typeof redirectUri === 'string' && redirectUri !== '';
+    const uri = redirectUriGiven
+      ? redirectUri
+      : client.redirectUris.length === 1 ? client.redirectUris[0]! : undefined;
+    if (!uri || !client.redirectUris.includes(uri)) {
+      throw new OAuthError('invalid_request', 'redirect_uri does not match a registered redirect URI');
+    }
+
+    return { client, redirectUri: uri, redirectUriGiven };
+  }
+
+  /**
+   * Validate the remaining authorization request parameters. Errors from
+   * here may be reported to the client through its redirect URI.
+   */
+  validateAuthorizationRequest(
+    redirect: { client: OAuthClient; redirectUri: string; redirectUriGiven: boolean },
+    params: Record<string, unknown>
+  ): AuthorizationRequest {
+    if (params['response_type'] !== 'code') {
+      throw new OAuthError('unsupported_response_type', 'response_type must be "code"');
+    }
+    if (!redirect.client.grantTypes.includes('authorization_code')) {
+      throw new OAuthError('unauthorized_client', 'Client is not registered for the authorization_code grant');
+    }
+    const codeChallenge = params['code_challenge'];
+    if (typeof codeChallenge !== 'string' || !PKCE_VALUE.test(codeChallenge)) {
+      throw new OAuthError('invalid_request', 'code_challenge is required (PKCE)');
+    }
+    if (params['code_challenge_method'] !== 'S256') {
+      throw new OAuthError('invalid_request', 'code_challenge_method must be "S256"');
+    }
+
+    const requestedType = this.scopeToType(params['scope']);
+    const state = params['state'];
+    return {
+      ...redirect,
+      codeChallenge,
+      ...(requestedType && { requestedType }),
+      ...(typeof state === 'string' && { state })
+    };
+  }
+
+  /**
+   * Scopes the `approver` token can grant: types whose permission set it
+   * holds entirely. Scoped approvers pass their project list and their
+   * HyperManager credentials on.
+   */
+  grantableTypes(approver: AuthToken): TokenType[] {
+    return OAUTH_SCOPES.filter(type =>
+      this.authManager.hasPermission(approver, PERMISSION_SETS[type] || []) &&
+      !(type === 'master' && (approver.projects || approver.upstream))
+    );
+  }
+
+  /**
+   * Issue a single-use authorization code after `approver` allowed the client
+   */
+  createAuthorizationCode(request: AuthorizationRequest, approver: AuthToken, type: TokenType): string {
+    if (!this.grantableTypes(approver).includes(type)) {
+      throw new OAuthError('access_denied', `This token cannot grant ${type} access`, 403);
+    }
+
+    const code = randomToken();
+    this.codes.set(sha256(code), {
+      clientId: request.client.clientId,
+      redirectUri: request.redirectUri,
+      redirectUriGiven: request.redirectUriGiven,
+      codeChallenge: request.codeChallenge,
+      type,
+      ...(approver.projects && { projects: approver.projects }),
+      ...(approver.upstream && { upstream: approver.upstream }),
+      approvedBy: approver.id,
+      expiresAt: Date.now() + this.codeTtlMs
+    });
+
+    this.logger.info('OAuth Authorization Granted', {
+      clientId: request.client.clientId,
+      clientName: request.client.clientName,
+      scope: type,
+      projects: approver.projects,
+      approvedBy: approver.id
+    });
+
+    return code;
+  }
+
+  /**
+   * Authenticate the client at the token endpoint. Public clients only
+   * identify themselves.
+   */
+  authenticateClient(clientId: unknown, clientSecret: unknown, method: ClientAuthMethod): OAuthClient {
+    const client = typeof clientId === 'string' ? this.clients.get(clientId) : undefined;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client', 401);
+    }
+
+    if (client.tokenEndpointAuthMethod !== 'none') {
+      if (method !== client.tokenEndpointAuthMethod || typeof clientSecret !== 'string' ||
+          !client.clientSecretHash || !sameSecret(clientSecret, client.clientSecretHash)) {
+        throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+      }
+    }
+
+    client.lastUsed = new Date();
+    return client;
+  }
+
+  /**
+   * authorization_code grant: check the code, its redirect URI, the PKCE
+   * verifier and that the approving token is still active, then issue an
+   * access and a refresh token
+   */
+  exchangeAuthorizationCode(client: OAuthClient, params: Record<string, unknown>): OAuthTokenResponse {
+    const code = params['code'];
+    const key = typeof code === 'string' ? sha256(code) : undefined;
+    const grant = key ? this.codes.get(key) : undefined;
+    // Codes are single use, whatever happens next
+    if (key) {
+      this.codes.delete(key);
+    }
+
+    if (!grant || grant.expiresAt < Date.now() || grant.clientId !== client.clientId) {
+      throw new OAuthError('invalid_grant', 'Authorization code is invalid or expired');
+    }
+    // redirect_uri may only be left out when the authorization request left it out
+    const redirectUri = params['redirect_uri'];
+    if ((grant.redirectUriGiven || redirectUri !== undefined) && redirectUri !== grant.redirectUri) {
+      throw new OAuthError('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+
+    const verifier = params['code_verifier'];
+    if (typeof verifier !== 'string' || !PKCE_VALUE.test(verifier)) {
+      throw new OAuthError('invalid_request', 'code_verifier is required');
+    }
+    const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+    if (challenge !== grant.codeChallenge) {
+      throw new OAuthError('invalid_grant', 'code_verifier does not match the code challenge');
+    }
+    if (!this.authManager.isTokenActive(grant.approvedBy)) {
+      throw new OAuthError('invalid_grant', 'The token that approved this client has been revoked');
+    }
+
+    return this.issueTokens(client, grant, 'authorization_code');
+  }
+
+  /**
+   * refresh_token grant. The refresh token is rotated; `scope` may narrow
+   * the access to a less privileged type.
+   */
+  refresh(client: OAuthClient, params: Record<string, unknown>): OAuthTokenResponse {
+    const refreshToken = params['refresh_token'];
+    const key = typeof refreshToken === 'string' ? sha256(refreshToken) : undefined;
+    const grant = key ? this.refreshGrants.get(key) : undefined;
+
+    if (!key || !grant || grant.expiresAt < Date.now() || grant.clientId !== client.clientId) {
+      throw new OAuthError('invalid_grant', 'Refresh token is invalid or expired');
+    }
+    if (!this.authManager.isTokenActive(grant.approvedBy)) {
+      this.refreshGrants.delete(key);
+      throw new OAuthError('invalid_grant', 'The token that approved this client has been revoked');
+    }
+
+    let type = grant.type;
+    if (params['scope'] !== undefined) {
+      const requested = this.scopeToType(params['scope']);
+      if (!requested || OAUTH_SCOPES.indexOf(requested) > OAUTH_SCOPES.indexOf(grant.type)) {
+        throw new OAuthError('invalid_scope', `Scope must not exceed the granted "${grant.type}" scope`);
+      }
+      type = requested;
+    }
+
+    this.refreshGrants.delete(key);
+    return this.issueTokens(client, { ...grant, type }, 'refresh_token');
+  }
+
+  getStats(): { clients: number; pendingCodes: number; refreshTokens: number } {
+    return {
+      clients: this.clients.size,
+      pendingCodes: this.codes.size,
+      refreshTokens: this.refreshGrants.size
+    };
+  }
+
+  private issueTokens(client: OAuthClient, grant: Grant, via: string): OAuthTokenResponse {
+    const accessToken = this.authManager.generateToken(
+      grant.type,
+      this.accessTokenTtl,
+      `OAuth client ${client.clientName || client.clientId}`,
+      {
+        ...(grant.projects && { projects: grant.projects }),
+        ...(grant.upstream && { upstream: grant.upstream })
+      }
+    );
+    const refreshToken = randomToken();
+    this.refreshGrants.set(sha256(refreshToken), {
+      clientId: client.clientId,
+      type: grant.type,
+      ...(grant.projects && { projects: grant.projects }),
+      ...(grant.upstream && { upstream: grant.upstream }),
+      approvedBy: grant.approvedBy,
+      expiresAt: Date.now() + this.refreshTokenTtlMs
+    });
+
+    const payload = jwt.decode(accessToken) as JWTPayload;
+    this.logger.info('OAuth Access Token Issued', {
+      clientId: client.clientId,
+      grantType: via,
+      tokenId: payload.tokenId,
+      scope: grant.type
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: payload.exp ? payload.exp - payload.iat : 0,
+      refresh_token: refreshToken,
+      scope: grant.type
+    };
+  }
+
+  // Most privileged known type named in a space-separated scope string
+  private scopeToType(scope: unknown): TokenType | undefined {
+    if (typeof scope !== 'string') {
+      return undefined;
+    }
+    const requested = scope.split(' ');
+    return [...OAUTH_SCOPES].reverse().find(type => requested.includes(type));
+  }
+
+  /**
+   * Drop expired codes and refresh tokens, and clients without any grant
+   * that have not been used for as long as a refresh token lives
+   */
+  private startCleanup(): void {
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      for (const grants of [this.codes, this.refreshGrants] as Map<string, Grant>[]) {
+        for (const [key, grant] of grants) {
+          if (grant.expiresAt < now) {
+            grants.delete(key);
+          }
+        }
+      }
+
+      const activeClients = new Set(Array.from(this.refreshGrants.values()).map(grant => grant.clientId));
+      for (const [clientId, client] of this.clients) {
+        if (!activeClients.has(clientId) && now - client.lastUsed.getTime() > this.refreshTokenTtlMs) {
+          this.clients.delete(clientId);
+          this.logger.info('OAuth Client Expired', { clientId });
+        }
+      }
+    }, 60 * 60 * 1000); // Every hour
+    this.cleanupInterval.unref();
+  }
+
+  shutdown(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import winston from 'winston';
+import { BacklogBackend } from './backend.js';
+import { ProjectReference } from './handlers/access-control.js';
+import { bypassResponseCache } from './response-cache.js';
+import { currentUpstreamTenant } from './upstream-clients.js';
+import { FeatureNode, Project, ProjectTree } from './types.js';
+
+export interface ProjectResolverOptions {
+  // How long the project list and indexed project trees are trusted
+  ttlMs?: number;
+}
+
+interface IndexedTree {
+  fetchedAt: number;
+  ids: Set<string>;
+}
+
+// What one upstream tenant's projects look like; tenants may reuse project codes
+interface TenantIndex {
+  projects: { fetchedAt: number; list: Project[] } | null;
+  trees: Map<string, IndexedTree>;
+}
+
+/**
+ * Works out which project a request is about, for project-scoped tokens.
+ * Project IDs are mapped to codes through the project list; story and
+ * feature IDs are looked up in the trees of the candidate projects, since
+ * the backend has no reverse lookup. Both are cached for `ttlMs`, and a
+ * miss refreshes once so freshly created stories and features are found.
+ * Each upstream tenant (see upstream-clients.ts) has its own cache.
+ */
+export class ProjectResolver {
+  private client: BacklogBackend;
+  private logger: winston.Logger;
+  private ttlMs: number;
+  private tenants: Map<string, TenantIndex> = new Map();
+
+  constructor(client: BacklogBackend, logger: winston.Logger, options: ProjectResolverOptions = {}) {
+    this.client = client;
+    this.logger = logger;
+    this.ttlMs = options.ttlMs ?? 60 * 1000;
+  }
+
+  /**
+   * All projects known to the backend
+   */
+  async listProjects(refresh: boolean = false): Promise<Project[]> {
+    const index = this.index();
+    if (refresh || !index.projects || Date.now() - index.projects.fetchedAt >= this.ttlMs) {
+      // A refresh looks for what was just created, maybe outside this server
+      const list = refresh ? await bypassResponseCache(() => this.client.listProjects()) : await this.client.listProjects();
+      index.projects = { fetchedAt: Date.now(), list };
+    }
+    return index.projects.list;
+  }
+
+  /**
+   * Code of the project named by `reference`, which may be a project code
+   * or ID. Unknown references are returned unchanged: they can only be a
+   * code for a project that does not exist yet.
+   */
+  async projectCode(reference: string): Promise<string> {
+    const match = (projects: Project[]) =>
+      projects.find(project => project.code === reference || project.id === reference);
+
+    const project = match(await this.listProjects()) ?? match(await this.listProjects(true));
+    return project?.code ?? reference;
+  }
+
+  /**
+   * Code of the project among `candidates` whose tree contains the story or
+   * feature `id`, or undefined when none of them does.
+   */
+  async owningProject(id: string, candidates: string[]): Promise<string | undefined> {
+    for (const refresh of [false, true]) {
+      for (const code of candidates) {
+        const tree = await this.indexTree(code, refresh);
+        if (tree?.ids.has(id)) {
+          return code;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Codes of the projects `references` point into. Stories and features are
+   * looked up among `candidates`, all projects by default; those found in
+   * none of them are left out.
+   */
+  async projectsOf(references: ProjectReference[], candidates?: string[]): Promise<string[]> {
+    const projects = new Set<string>();
+    for (const reference of references) {
+      if (reference.kind === 'project') {
+        projects.add(await this.projectCode(reference.id));
+        continue;
+      }
+      const owner = await this.owningProject(
+        reference.id,
+        candidates ?? (await this.listProjects()).map(project => project.code)
+      );
+      if (owner) {
+        projects.add(owner);
+      }
+    }
+    return Array.from(projects);
+  }
+
+  private index(): TenantIndex {
+    const tenant = currentUpstreamTenant();
+    let index = this.tenants.get(tenant);
+    if (!index) {
+      index = { projects: null, trees: new Map() };
+      this.tenants.set(tenant, index);
+    }
+    return index;
+  }
+
+  private async indexTree(code: string, refresh: boolean): Promise<IndexedTree | undefined> {
+    const trees = this.index().trees;
+    const cached = trees.get(code);
+    if (cached && !refresh && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return cached;
+    }
+
+    let tree: ProjectTree;
+    try {
+      tree = refresh
+        ? await bypassResponseCache(() => this.client.getProjectTree(code))
+        : await this.client.getProjectTree(code);
+    } catch (error) {
+      // A project on an allow-list may not exist (yet); it simply owns nothing
+      this.logger.warn('Project Tree Unavailable For Access Check', {
+        project: code,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      trees.delete(code);
+      return undefined;
+    }
+
+    const ids = new Set<string>();
+    const addFeatures = (features: FeatureNode[]) => {
+      for (const feature of features) {
+        ids.add(feature.id);
+        addFeatures(feature.children);
+      }
+    };
+    for (const actor of tree.actors) {
+      for (const story of actor.stories) {
+        ids.add(story.id);
+        addFeatures(story.features);
+      }
+    }
+
+    const indexed = { fetchedAt: Date.now(), ids };
+    trees.set(code, indexed);
+    return indexed;
+  }
+}
@@ -1,4 +1,4 @@
-import { HyperManagerAPIClient } from './api-client.js';
+import { BacklogBackend } from './backend.js';
 import winston from 'winston';
 
 // Setup logging for prompt manager
@@ -38,9 +38,9 @@ export interface PromptMessage {
 }
 
 export class PromptManager {
-  private client: HyperManagerAPIClient;
+  private client: BacklogBackend;
 
-  constructor(client: HyperManagerAPIClient) {
+  constructor(client: BacklogBackend) {
     this.client = client;
   }
 
@@ -166,7 +166,7 @@ export class PromptManager {
   private async getAnalyzeProjectPrompt(project: string): Promise<PromptMessage[]> {
     let projectData = '';
     try {
-      projectData = await this.client.getProjectTree(project);
+      projectData = JSON.stringify(await this.client.getProjectTree(project), null, 2);
     } catch (error) {
       logger.warn('Could not fetch project data:', { project, error });
       projectData = 'Project data not available';
@@ -214,7 +214,7 @@ Provide a comprehensive analysis including:
   private async getCreateDiagramPrompt(diagramType?: string, context?: string): Promise<PromptMessage[]> {
     let availableDiagrams = '';
     try {
-      availableDiagrams = await this.client.listDiagrams();
+      availableDiagrams = JSON.stringify(await this.client.listDiagrams(), null, 2);
     } catch (error) {
       logger.warn('Could not fetch existing diagrams:', error);
       availableDiagrams = 'Existing diagrams not available';
@@ -272,8 +272,8 @@ Please provide:
     let featureTypes = '';
     
     try {
-      projectData = await this.client.getProjectTree(project);
-      featureTypes = await this.client.listFeatureTypes();
+      projectData = JSON.stringify(await this.client.getProjectTree(project), null, 2);
+      featureTypes = JSON.stringify(await this.client.listFeatureTypes(), null, 2);
     } catch (error) {
       logger.warn('Could not fetch project or feature data:', { project, error });
     }
@@ -324,7 +324,7 @@ Please provide:
   private async getReviewStoryTreePrompt(storyId: string): Promise<PromptMessage[]> {
     let storyData = '';
     try {
-      storyData = await this.client.getStoryTree(storyId);
+      storyData = JSON.stringify(await this.client.getStoryTree(storyId), null, 2);
     } catch (error) {
       logger.warn('Could not fetch story data:', { storyId, error });
       storyData = 'Story data not available';
@@ -370,7 +370,7 @@ Provide a comprehensive review including:
   private async getSuggestFeaturesPrompt(storyContext: string): Promise<PromptMessage[]> {
     let featureTypes = '';
     try {
-      featureTypes = await this.client.listFeatureTypes();
+      featureTypes = JSON.stringify(await this.client.listFeatureTypes(), null, 2);
     } catch (error) {
       logger.warn('Could not fetch feature types:', error);
       featureTypes = 'Feature types not available';
@@ -416,7 +416,7 @@ Please provide:
   private async getOptimizeProjectStructurePrompt(project: string): Promise<PromptMessage[]> {
     let projectData = '';
     try {
-      projectData = await this.client.getProjectTree(project);
+      projectData = JSON.stringify(await this.client.getProjectTree(project), null, 2);
     } catch (error) {
       logger.warn('Could not fetch project data:', { project, error });
       projectData = 'Project data not available';
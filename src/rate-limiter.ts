@@ -0,0 +1,317 @@
+import winston from 'winston';
+import { AuthToken, DEFAULT_RATE_LIMITS, RateLimits, TokenType } from './types.js';
+
+export type RateLimitBucket = 'requests' | 'reads' | 'writes' | 'upstream';
+
+// What a single operation consumes: an HTTP request, or a read or write MCP call
+export type RateLimitedOperation = 'request' | 'read' | 'write';
+
+export interface RateLimitOptions {
+  // Overrides per token type and per token ID, applied over DEFAULT_RATE_LIMITS
+  types?: Partial<Record<TokenType, Partial<RateLimits>>>;
+  tokens?: Record<string, Partial<RateLimits>>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // The bucket that ran out when the operation was refused
+  bucket?: RateLimitBucket;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  retryAfterSeconds?: number;
+}
+
+export interface TokenUsage {
+  tokenId: string;
+  tokenType: TokenType;
+  limits: RateLimits;
+  window: {
+    startedAt: Date;
+    resetAt: Date;
+    requests: number;
+    reads: number;
+    writes: number;
+  };
+  day: {
+    date: string;
+    resetAt: Date;
+    upstreamCalls: number;
+  };
+  lastSeen?: Date;
+}
+
+interface Counters {
+  tokenType: TokenType;
+  // Limits in force at the last operation, reported by getUsage()
+  limits: RateLimits;
+  windowStart: number;
+  requests: number;
+  reads: number;
+  writes: number;
+  day: string;
+  upstream: number;
+  lastSeen: number;
+}
+
+const LIMIT_KEYS: (keyof RateLimits)[] = [
+  'windowMs', 'requestsPerWindow', 'readsPerWindow', 'writesPerWindow', 'upstreamCallsPerDay'
+];
+
+/**
+ * Check a partial rate limit object, as given in RATE_LIMITS, to the admin
+ * API or to the token CLI
+ */
+export function normalizeRateLimits(value: unknown, label: string = 'rateLimits'): Partial<RateLimits> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const limits: Partial<RateLimits> = {};
+  for (const [key, limit] of Object.entries(value)) {
+    if (!LIMIT_KEYS.includes(key as keyof RateLimits)) {
+      throw new Error(`Unknown rate limit "${key}" in ${label}. Valid limits: ${LIMIT_KEYS.join(', ')}`);
+    }
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 0 || (key === 'windowMs' && limit === 0)) {
+      throw new Error(`${label}.${key} must be a ${key === 'windowMs' ? 'positive' : 'non-negative'} integer`);
+    }
+    limits[key as keyof RateLimits] = limit;
+  }
+  return limits;
+}
+
+/**
+ * Read per-type and per-token overrides from RATE_LIMITS, a JSON object
+ * such as `{"types": {"team": {"writesPerWindow": 100}}, "tokens": {"static-1a2b3c4d5e6f": {...}}}`
+ */
+export function rateLimitOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RateLimitOptions {
+  const raw = env['RATE_LIMITS'];
+  if (!raw) {
+    return {};
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`RATE_LIMITS is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('RATE_LIMITS must be a JSON object with "types" and/or "tokens"');
+  }
+
+  const options: RateLimitOptions = {};
+  if (parsed.types !== undefined) {
+    options.types = {};
+    for (const [type, limits] of Object.entries(parsed.types ?? {})) {
+      if (!(type in DEFAULT_RATE_LIMITS)) {
+        throw new Error(`Unknown token type "${type}" in RATE_LIMITS.types`);
+      }
+      options.types[type as TokenType] = normalizeRateLimits(limits, `RATE_LIMITS.types.${type}`);
+    }
+  }
+  if (parsed.tokens !== undefined) {
+    options.tokens = {};
+    for (const [tokenId, limits] of Object.entries(parsed.tokens ?? {})) {
+      options.tokens[tokenId] = normalizeRateLimits(limits, `RATE_LIMITS.tokens.${tokenId}`);
+    }
+  }
+  return options;
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(time: number): number {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Rate limits and daily upstream quotas keyed by AuthToken.id, so clients
+ * sharing an IP address no longer share a budget. Limits resolve from the
+ * token type defaults, then RATE_LIMITS, then the token's own overrides.
+ * Counters are kept in memory and restart from zero with the server.
+ */
+export class RateLimitManager {
+  private logger: winston.Logger;
+  private options: RateLimitOptions;
+  private counters: Map<string, Counters> = new Map();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(logger: winston.Logger, options: RateLimitOptions = {}) {
+    this.logger = logger;
+    this.options = options;
+    this.startCleanup();
+  }
+
+  /**
+   * Effective limits for a token
+   */
+  limitsFor(token: AuthToken): RateLimits {
+    return {
+      ...DEFAULT_RATE_LIMITS[token.type],
+      ...this.options.types?.[token.type],
+      ...this.options.tokens?.[token.id],
+      ...token.rateLimits
+    };
+  }
+
+  /**
+   * Count one operation against the token's budgets, unless one of them is
+   * exhausted. Reads and writes are also refused once the daily upstream
+   * quota is used up; the HyperManager calls they make are counted by
+   * countUpstreamCall as they happen.
+   */
+  consume(token: AuthToken, operation: RateLimitedOperation): RateLimitDecision {
+    const limits = this.limitsFor(token);
+    const now = Date.now();
+    const counters = this.countersFor(token, limits, now);
+    const windowReset = counters.windowStart + limits.windowMs;
+
+    const checks: { bucket: RateLimitBucket; used: number; limit: number; resetAt: number }[] =
+      operation === 'request'
+        ? [{ bucket: 'requests', used: counters.requests, limit: limits.requestsPerWindow, resetAt: windowReset }]
+        : [
+          operation === 'read'
+            ? { bucket: 'reads', used: counters.reads, limit: limits.readsPerWindow, resetAt: windowReset }
+            : { bucket: 'writes', used: counters.writes, limit: limits.writesPerWindow, resetAt: windowReset },
+          { bucket: 'upstream', used: counters.upstream, limit: limits.upstreamCallsPerDay, resetAt: nextUtcMidnight(now) }
+        ];
+
+    const exhausted = checks.find(check => check.limit > 0 && check.used >= check.limit);
+    if (exhausted) {
+      const retryAfterSeconds = Math.max(1, Math.ceil((exhausted.resetAt - now) / 1000));
+      this.logger.warn('Rate Limit Exceeded', {
+        tokenId: token.id,
+        tokenType: token.type,
+        bucket: exhausted.bucket,
+        limit: exhausted.limit,
+        retryAfterSeconds
+      });
+      return {
+        allowed: false,
+        bucket: exhausted.bucket,
+        limit: exhausted.limit,
+        remaining: 0,
+        resetAt: new Date(exhausted.resetAt),
+        retryAfterSeconds
+      };
+    }
+
+    if (operation === 'request') {
+      counters.requests++;
+    } else {
+      counters[operation === 'read' ? 'reads' : 'writes']++;
+    }
+    counters.lastSeen = now;
+
+    const primary = checks[0]!;
+    return {
+      allowed: true,
+      limit: primary.limit,
+      remaining: primary.limit > 0 ? primary.limit - primary.used - 1 : Number.POSITIVE_INFINITY,
+      resetAt: new Date(primary.resetAt)
+    };
+  }
+
+  /**
+   * Count one request sent to HyperManager on behalf of the token against
+   * its daily upstream quota
+   */
+  countUpstreamCall(token: AuthToken): void {
+    const now = Date.now();
+    const counters = this.countersFor(token, this.limitsFor(token), now);
+    counters.upstream++;
+    counters.lastSeen = now;
+  }
+
+  /**
+   * Current usage of a token; zero counts when it has not been seen
+   */
+  getUsage(token: AuthToken): TokenUsage {
+    const counters = this.counters.get(token.id);
+    return this.describe(token.id, counters?.tokenType ?? token.type, counters?.limits ?? this.limitsFor(token), counters);
+  }
+
+  /**
+   * Usage of `tokens`, followed by any other token seen since the server
+   * started (for example JWTs whose metadata is not in the token store)
+   */
+  listUsage(tokens: AuthToken[]): TokenUsage[] {
+    const listed = new Set(tokens.map(token => token.id));
+    const others = Array.from(this.counters.entries())
+      .filter(([tokenId]) => !listed.has(tokenId))
+      .map(([tokenId, counters]) => this.describe(tokenId, counters.tokenType, counters.limits, counters));
+    return [...tokens.map(token => this.getUsage(token)), ...others];
+  }
+
+  private describe(tokenId: string, tokenType: TokenType, limits: RateLimits, counters?: Counters): TokenUsage {
+    const now = Date.now();
+    const windowStart = counters && now < counters.windowStart + limits.windowMs ? counters.windowStart : undefined;
+    const upstreamCalls = counters && counters.day === utcDay(now) ? counters.upstream : 0;
+
+    return {
+      tokenId,
+      tokenType,
+      limits,
+      window: {
+        startedAt: new Date(windowStart ?? now),
+        resetAt: new Date((windowStart ?? now) + limits.windowMs),
+        requests: windowStart !== undefined ? counters!.requests : 0,
+        reads: windowStart !== undefined ? counters!.reads : 0,
+        writes: windowStart !== undefined ? counters!.writes : 0
+      },
+      day: {
+        date: utcDay(now),
+        resetAt: new Date(nextUtcMidnight(now)),
+        upstreamCalls
+      },
+      ...(counters && { lastSeen: new Date(counters.lastSeen) })
+    };
+  }
+
+  private countersFor(token: AuthToken, limits: RateLimits, now: number): Counters {
+    let counters = this.counters.get(token.id);
+    if (!counters) {
+      counters = { tokenType: token.type, limits, windowStart: now, requests: 0, reads: 0, writes: 0, day: utcDay(now), upstream: 0, lastSeen: now };
+      this.counters.set(token.id, counters);
+    }
+
+    counters.tokenType = token.type;
+    counters.limits = limits;
+    if (now >= counters.windowStart + limits.windowMs) {
+      counters.windowStart = now;
+      counters.requests = 0;
+      counters.reads = 0;
+      counters.writes = 0;
+    }
+    if (counters.day !== utcDay(now)) {
+      counters.day = utcDay(now);
+      counters.upstream = 0;
+    }
+    return counters;
+  }
+
+  /**
+   * Forget tokens idle for more than a day; their counters would have reset anyway
+   */
+  private startCleanup(): void {
+    this.cleanupInterval = setInterval(() => {
+      const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+      for (const [tokenId, counters] of this.counters) {
+        if (counters.lastSeen < cutoff) {
+          this.counters.delete(tokenId);
+        }
+      }
+    }, 60 * 60 * 1000); // Every hour
+    this.cleanupInterval.unref();
+  }
+
+  shutdown(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+  }
+}
@@ -1,4 +1,6 @@
-import { HyperManagerAPIClient } from './api-client.js';
+import { BacklogBackend } from './backend.js';
+import { EXPORT_FORMATS, EXPORT_MIME_TYPES, exportProject, isExportFormat } from './backlog-export.js';
+import { API_ENDPOINT_SUMMARY } from './generated/hypermanager-api.js';
 import winston from 'winston';
 
 // Setup logging for resource manager
@@ -27,10 +29,10 @@ export interface MCPResource {
 }
 
 export class ResourceManager {
-  private client: HyperManagerAPIClient;
-  private cache: Map<string, { data: string; timestamp: number; ttl: number }> = new Map();
+  // Upstream responses are cached by the API client, shared with the tools
+  private client: BacklogBackend;
 
-  constructor(client: HyperManagerAPIClient) {
+  constructor(client: BacklogBackend) {
     this.client = client;
   }
 
@@ -82,6 +84,12 @@ export class ResourceManager {
         description: 'Hierarchical structure of a project with all its components',
         mimeType: 'application/json'
       },
+      {
+        uri: 'resource://projects/{project}/export/{format}',
+        name: 'Project Export',
+        description: `Actors, stories and feature hierarchy of a project as ${EXPORT_FORMATS.slice(0, -1).join(', ')} or ${EXPORT_FORMATS[EXPORT_FORMATS.length - 1]}`,
+        mimeType: 'text/plain'
+      },
 
       // Story resources
       {
@@ -119,24 +127,15 @@ export class ResourceManager {
   async readResource(uri: string): Promise<string> {
     logger.info('Reading resource:', { uri });
 
-    // Check cache first
-    const cached = this.cache.get(uri);
-    if (cached && Date.now() - cached.timestamp < cached.ttl) {
-      logger.debug('Returning cached resource:', { uri });
-      return cached.data;
-    }
-
     try {
       let data: string;
-      let ttl = 5 * 60 * 1000; // Default 5 minutes cache
 
       if (uri === 'resource://diagrams/') {
-        data = await this.client.listDiagrams();
-        ttl = 2 * 60 * 1000; // 2 minutes for dynamic data
+        data = JSON.stringify(await this.client.listDiagrams(), null, 2);
       } else if (uri.match(/^resource:\/\/diagrams\/([^\/]+)$/)) {
         const id = uri.split('/')[3];
         if (!id) throw new Error('Invalid diagram ID in URI');
-        data = await this.client.getDiagram(id);
+        data = JSON.stringify(await this.client.getDiagram(id), null, 2);
       } else if (uri.match(/^resource:\/\/diagrams\/([^\/]+)\/definition$/)) {
         const name = uri.split('/')[3];
         if (!name) throw new Error('Invalid diagram name in URI');
@@ -145,51 +144,39 @@ export class ResourceManager {
         const name = uri.split('/')[3];
         if (!name) throw new Error('Invalid diagram name in URI');
         data = await this.client.getDiagramPng(name);
-        ttl = 10 * 60 * 1000; // 10 minutes for images
       } else if (uri.match(/^resource:\/\/diagrams\/([^\/]+)\/plantuml-url$/)) {
         const name = uri.split('/')[3];
         if (!name) throw new Error('Invalid diagram name in URI');
         data = await this.client.getDiagramPlantUmlUrl(name);
-        ttl = 10 * 60 * 1000; // 10 minutes for URLs
       } else if (uri === 'resource://projects/') {
-        data = await this.client.listProjects();
-        ttl = 2 * 60 * 1000; // 2 minutes for dynamic data
+        data = JSON.stringify(await this.client.listProjects(), null, 2);
       } else if (uri.match(/^resource:\/\/projects\/([^\/]+)\/tree$/)) {
         const project = uri.split('/')[3];
         if (!project) throw new Error('Invalid project name in URI');
-        data = await this.client.getProjectTree(project);
-        ttl = 5 * 60 * 1000; // 5 minutes for project trees
+        data = JSON.stringify(await this.client.getProjectTree(project), null, 2);
+      } else if (uri.match(/^resource:\/\/projects\/([^\/]+)\/export\/([^\/]+)$/)) {
+        const [, , , project, , format] = uri.split('/');
+        if (!project) throw new Error('Invalid project name in URI');
+        if (!format || !isExportFormat(format)) throw new Error(`Unknown export format in URI, expected one of ${EXPORT_FORMATS.join(', ')}`);
+        data = exportProject(await this.client.getProjectTree(project), format);
       } else if (uri.match(/^resource:\/\/stories\/([^\/]+)\/tree$/)) {
         const storyId = uri.split('/')[3];
         if (!storyId) throw new Error('Invalid story ID in URI');
-        data = await this.client.getStoryTree(storyId);
-        ttl = 5 * 60 * 1000; // 5 minutes for story trees
+        data = JSON.stringify(await this.client.getStoryTree(storyId), null, 2);
       } else if (uri === 'resource://features/types') {
-        data = await this.client.listFeatureTypes();
-        ttl = 30 * 60 * 1000; // 30 minutes for relatively static data
+        data = JSON.stringify(await this.client.listFeatureTypes(), null, 2);
       } else if (uri === 'resource://api/schema') {
         // Return the Swagger schema (we'll need to read it from file)
         data = await this.getSwaggerSchema();
-        ttl = 60 * 60 * 1000; // 1 hour for schema
       } else if (uri === 'resource://api/endpoints') {
         data = JSON.stringify(this.getApiEndpointsSummary(), null, 2);
-        ttl = 60 * 60 * 1000; // 1 hour for endpoints summary
       } else {
         throw new Error(`Unknown resource URI: ${uri}`);
       }
 
-      // Cache the result
-      this.cache.set(uri, {
-        data,
-        timestamp: Date.now(),
-        ttl
-      });
-
       logger.info('Resource read successfully:', { 
         uri, 
-        dataLength: data.length,
-        cached: true,
-        ttl: `${ttl / 1000}s`
+        dataLength: data.length
       });
 
       return data;
@@ -202,6 +189,15 @@ export class ResourceManager {
     }
   }
 
+  /**
+   * MIME type of what readResource returns for `uri`: that of the format for
+   * project exports, text/plain otherwise
+   */
+  mimeTypeOf(uri: string): string {
+    const format = uri.match(/^resource:\/\/projects\/[^\/]+\/export\/([^\/]+)$/)?.[1];
+    return format && isExportFormat(format) ? EXPORT_MIME_TYPES[format] : 'text/plain';
+  }
+
   // Get Swagger schema from file
   private async getSwaggerSchema(): Promise<string> {
     try {
@@ -218,79 +214,8 @@ export class ResourceManager {
     }
   }
 
-  // Generate API endpoints summary
+  // Endpoints of swagger.yml by resource, generated with the client
   private getApiEndpointsSummary() {
-    return {
-      diagrams: {
-        endpoints: [
-          'POST /diagrams - Create a new diagram',
-          'GET /diagrams - List all diagrams',
-          'GET /diagrams/{id} - Get diagram by ID',
-          'PATCH /diagrams/{id} - Update diagram',
-          'GET /diagram/png/{diagram_name} - Get diagram as PNG',
-          'GET /diagram/plant-url/{diagram_name} - Get PlantUML URL',
-          'GET /diagram/plant-definition/{name} - Get diagram definition',
-          'PATCH /diagram/update/{name} - Update diagram definition',
-          'PATCH /diagram/update-graphic/{diagram_name} - Update diagram graphic'
-        ]
-      },
-      projects: {
-        endpoints: [
-          'POST /projects - Create a new project',
-          'GET /project-command/all - List all projects',
-          'GET /project-command/{project}/tree - Get project tree'
-        ]
-      },
-      stories: {
-        endpoints: [
-          'GET /story-command/{storyID}/tree - Get story tree',
-          'POST /story-command/update - Update a story'
-        ]
-      },
-      features: {
-        endpoints: [
-          'GET /featuretypes - List feature types',
-          'GET /feature-command/refresh-types - Refresh feature types',
-          'POST /feature-command/{story}/add - Add feature to story',
-          'POST /feature-command/{parent}/add-child - Add child feature',
-          'POST /feature-command/{parent}/adopt/{child} - Adopt child feature'
-        ]
-      },
-      actors: {
-        endpoints: [
-          'POST /actor-command/{project}/add - Add actor to project',
-          'POST /actor-command/{project}/{name}/add-story - Add story to actor'
-        ]
-      },
-      utilities: {
-        endpoints: [
-          'GET /normalize-tasks - Normalize tasks'
-        ]
-      }
-    };
-  }
-
-  // Clear cache for a specific URI or all cache
-  clearCache(uri?: string): void {
-    if (uri) {
-      this.cache.delete(uri);
-      logger.debug('Cache cleared for URI:', { uri });
-    } else {
-      this.cache.clear();
-      logger.debug('All cache cleared');
-    }
-  }
-
-  // Get cache statistics
-  getCacheStats() {
-    const now = Date.now();
-    const entries = Array.from(this.cache.entries());
-    
-    return {
-      totalEntries: entries.length,
-      validEntries: entries.filter(([_, value]) => now - value.timestamp < value.ttl).length,
-      expiredEntries: entries.filter(([_, value]) => now - value.timestamp >= value.ttl).length,
-      totalSize: entries.reduce((sum, [_, value]) => sum + value.data.length, 0)
-    };
+    return API_ENDPOINT_SUMMARY;
   }
 }
@@ -0,0 +1,117 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { isPreviewingUpstream } from './upstream-calls.js';
+
+export interface ResponseCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  // Reads answered by joining an identical read already on its way upstream
+  coalesced: number;
+  invalidations: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  tags: string[];
+}
+
+const bypassing = new AsyncLocalStorage<true>();
+
+/**
+ * Make the reads in `operation` go upstream even when the cache holds an
+ * answer, for checks that must see the current state (undo conflicts,
+ * access checks after a miss). What they read still refreshes the cache.
+ */
+export function bypassResponseCache<T>(operation: () => Promise<T>): Promise<T> {
+  return bypassing.run(true, operation);
+}
+
+/**
+ * Read-through cache of parsed upstream responses. Each entry is tagged
+ * with the entities it shows (`project:DEMO`, `story:S-1`, ...) so a write
+ * drops exactly the entries it made stale. Identical concurrent reads share
+ * one upstream call. Callers get their own copy of a cached value.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  // Bumped by every invalidation, so a read that started before it is not stored
+  private generation = 0;
+  private counters = { hits: 0, misses: 0, coalesced: 0, invalidations: 0 };
+
+  constructor(private readonly enabled: boolean = true) {}
+
+  async read<T>(key: string, ttlMs: number, load: () => Promise<T>, tagsOf: (value: T) => string[]): Promise<T> {
+    if (!this.enabled) {
+      return await load();
+    }
+
+    const fresh = bypassing.getStore() === true;
+    // A read made while previewing stops before the API, so others must not join it
+    const shared = !fresh && !isPreviewingUpstream();
+    if (!fresh) {
+      const entry = this.entries.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        this.counters.hits++;
+        return structuredClone(entry.value) as T;
+      }
+    }
+    const pending = shared ? this.inFlight.get(key) : undefined;
+    if (pending) {
+      this.counters.coalesced++;
+      return structuredClone(await pending) as T;
+    }
+
+    this.counters.misses++;
+    const generation = this.generation;
+    const loading = load();
+    if (shared) {
+      this.inFlight.set(key, loading);
+    }
+    try {
+      const value = await loading;
+      if (generation === this.generation) {
+        this.prune();
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, tags: tagsOf(value) });
+      }
+      return structuredClone(value);
+    } finally {
+      if (this.inFlight.get(key) === loading) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop the entries carrying any of `tags`, or every entry when `tags` is
+   * undefined. Reads still in flight are not stored nor joined anymore.
+   */
+  invalidate(tags?: string[]): void {
+    if (!this.enabled) {
+      return;
+    }
+    this.generation++;
+    this.counters.invalidations++;
+    this.inFlight.clear();
+    for (const [key, entry] of this.entries) {
+      if (!tags || entry.tags.some(tag => tags.includes(tag))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  stats(): ResponseCacheStats {
+    this.prune();
+    return { entries: this.entries.size, ...this.counters };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
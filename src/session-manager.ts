@@ -0,0 +1,309 @@
+import { Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+import { AuthToken } from './types.js';
+import { BufferedEvent, EventReplayBuffer, formatSSE } from './sse-events.js';
+
+// Stream opened with GET on the MCP endpoint for server-initiated messages
+export const STANDALONE_STREAM_ID = 'standalone';
+
+export interface SessionManagerOptions {
+  idleTimeoutMs?: number;
+  eventBufferSize?: number;
+  retryMs?: number;
+}
+
+interface SessionStream {
+  // Undefined while the client is disconnected
+  response?: Response;
+  done: boolean;
+}
+
+export interface MCPSession {
+  id: string;
+  authToken: AuthToken;
+  createdAt: Date;
+  lastActivity: Date;
+  protocolVersion?: string;
+  clientInfo?: { name?: string; version?: string };
+  events: EventReplayBuffer;
+  streams: Map<string, SessionStream>;
+}
+
+/**
+ * Sessions of the Streamable HTTP transport, identified by the
+ * `Mcp-Session-Id` header. Every SSE event written for a session is kept in
+ * its replay buffer so a client can resume a dropped stream with
+ * `Last-Event-ID`.
+ */
+export class MCPSessionManager {
+  private sessions: Map<string, MCPSession> = new Map();
+  private logger: winston.Logger;
+  private idleTimeoutMs: number;
+  private eventBufferSize: number;
+  private retryMs: number;
+  private keepAliveInterval: NodeJS.Timeout | null = null;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(logger: winston.Logger, options: SessionManagerOptions = {}) {
+    this.logger = logger;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 30 * 60 * 1000;
+    this.eventBufferSize = options.eventBufferSize ?? 100;
+    this.retryMs = options.retryMs ?? 3000;
+    this.startKeepAlive();
+    this.startCleanup();
+  }
+
+  /**
+   * Create a session for a client that just sent `initialize`
+   */
+  createSession(authToken: AuthToken, details: { protocolVersion?: string; clientInfo?: { name?: string; version?: string } } = {}): MCPSession {
+    const now = new Date();
+    const session: MCPSession = {
+      id: uuidv4(),
+      authToken,
+      createdAt: now,
+      lastActivity: now,
+      events: new EventReplayBuffer(this.eventBufferSize),
+      streams: new Map()
+    };
+    if (details.protocolVersion) {
+      session.protocolVersion = details.protocolVersion;
+    }
+    if (details.clientInfo) {
+      session.clientInfo = details.clientInfo;
+    }
+
+    this.sessions.set(session.id, session);
+
+    this.logger.info('MCP Session Created', {
+      sessionId: session.id,
+      tokenId: authToken.id,
+      protocolVersion: session.protocolVersion,
+      clientInfo: session.clientInfo,
+      totalSessions: this.sessions.size
+    });
+
+    return session;
+  }
+
+  /**
+   * Look up a session on behalf of `authToken`. Sessions belonging to
+   * another token are reported as missing.
+   */
+  getSession(sessionId: string, authToken: AuthToken): MCPSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.authToken.id !== authToken.id) {
+      return undefined;
+    }
+    session.lastActivity = new Date();
+    return session;
+  }
+
+  /**
+   * End a session and close its open streams
+   */
+  deleteSession(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    for (const stream of session.streams.values()) {
+      this.closeResponse(stream.response);
+    }
+    this.sessions.delete(sessionId);
+
+    this.logger.info('MCP Session Deleted', {
+      sessionId,
+      tokenId: session.authToken.id,
+      duration: Date.now() - session.createdAt.getTime(),
+      totalSessions: this.sessions.size
+    });
+
+    return true;
+  }
+
+  /**
+   * Attach an SSE response (headers already written) to a stream of the
+   * session. A previous response on the same stream is closed.
+   */
+  openStream(session: MCPSession, response: Response, streamId: string = uuidv4()): string {
+    const existing = session.streams.get(streamId);
+    if (existing?.response && existing.response !== response) {
+      this.closeResponse(existing.response);
+    }
+
+    session.streams.set(streamId, { response, done: existing?.done ?? false });
+    response.write(`retry: ${this.retryMs}\n\n`);
+
+    response.on('close', () => {
+      const stream = session.streams.get(streamId);
+      if (stream?.response === response) {
+        delete stream.response;
+        this.logger.debug('MCP Session Stream Disconnected', { sessionId: session.id, streamId });
+      }
+    });
+
+    return streamId;
+  }
+
+  /**
+   * Buffer a JSON-RPC message for a stream and write it if the client is
+   * connected. Messages are kept even when nobody is listening so they can
+   * be replayed.
+   */
+  send(session: MCPSession, streamId: string, message: unknown): BufferedEvent {
+    const event = session.events.append(streamId, 'message', JSON.stringify(message));
+    const response = session.streams.get(streamId)?.response;
+
+    if (response && !response.writableEnded) {
+      response.write(formatSSE(event));
+    }
+    session.lastActivity = new Date();
+
+    return event;
+  }
+
+  /**
+   * Mark a stream as complete: every response it was opened for has been sent
+   */
+  endStream(session: MCPSession, streamId: string): void {
+    const stream = session.streams.get(streamId);
+    if (!stream) {
+      return;
+    }
+    stream.done = true;
+    this.closeResponse(stream.response);
+    delete stream.response;
+  }
+
+  /**
+   * Resume the stream that `lastEventId` belongs to on a new response,
+   * replaying every later event of that stream. Unknown or evicted IDs fall
+   * back to the standalone stream.
+   */
+  resumeStream(session: MCPSession, lastEventId: number, response: Response): { streamId: string; replayed: number } {
+    const lastEvent = session.events.find(lastEventId);
+    const streamId = lastEvent?.streamId ?? STANDALONE_STREAM_ID;
+
+    if (!lastEvent) {
+      this.logger.warn('MCP Session Resume From Unknown Event', {
+        sessionId: session.id,
+        lastEventId,
+        eventsLost: session.events.hasGapAfter(lastEventId)
+      });
+    }
+
+    this.openStream(session, response, streamId);
+
+    const missed = session.events.eventsAfter(lastEventId, streamId);
+    for (const event of missed) {
+      response.write(formatSSE(event));
+    }
+
+    this.logger.info('MCP Session Stream Resumed', {
+      sessionId: session.id,
+      streamId,
+      lastEventId,
+      replayed: missed.length
+    });
+
+    // A finished POST stream has nothing more to send once replayed
+    if (session.streams.get(streamId)?.done) {
+      this.endStream(session, streamId);
+    }
+
+    return { streamId, replayed: missed.length };
+  }
+
+  /**
+   * Get session statistics
+   */
+  getStats(): { totalSessions: number; openStreams: number } {
+    let openStreams = 0;
+    for (const session of this.sessions.values()) {
+      for (const stream of session.streams.values()) {
+        if (stream.response) {
+          openStreams++;
+        }
+      }
+    }
+    return { totalSessions: this.sessions.size, openStreams };
+  }
+
+  private closeResponse(response: Response | undefined): void {
+    try {
+      if (response && !response.writableEnded) {
+        response.end();
+      }
+    } catch (error) {
+      // Response might already be closed
+    }
+  }
+
+  private hasOpenStream(session: MCPSession): boolean {
+    for (const stream of session.streams.values()) {
+      if (stream.response) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Keep idle SSE streams open through proxies with comment lines
+   */
+  private startKeepAlive(): void {
+    this.keepAliveInterval = setInterval(() => {
+      for (const session of this.sessions.values()) {
+        for (const stream of session.streams.values()) {
+          if (stream.response && !stream.response.writableEnded) {
+            stream.response.write(': keep-alive\n\n');
+          }
+        }
+      }
+    }, 30000); // Every 30 seconds
+  }
+
+  /**
+   * Expire sessions without activity or open streams
+   */
+  private startCleanup(): void {
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      const expired: string[] = [];
+
+      for (const [sessionId, session] of this.sessions) {
+        if (!this.hasOpenStream(session) && now - session.lastActivity.getTime() > this.idleTimeoutMs) {
+          expired.push(sessionId);
+        }
+      }
+
+      for (const sessionId of expired) {
+        this.logger.info('Expiring Idle MCP Session', { sessionId });
+        this.deleteSession(sessionId);
+      }
+    }, 60000); // Every minute
+  }
+
+  /**
+   * Shutdown the session manager
+   */
+  shutdown(): void {
+    this.logger.info('Shutting down MCP Session Manager', {
+      activeSessions: this.sessions.size
+    });
+
+    if (this.keepAliveInterval) {
+      clearInterval(this.keepAliveInterval);
+    }
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+
+    for (const sessionId of [...this.sessions.keys()]) {
+      this.deleteSession(sessionId);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+export interface BufferedEvent {
+  id: number;
+  // Stream the event was written to; resumption only replays events from the same stream
+  streamId: string;
+  event: string;
+  data: string;
+}
+
+/**
+ * Bounded history of SSE events with monotonic numeric IDs. When the buffer
+ * is full the oldest event is dropped, so a client that was away for too
+ * long only gets back what is still held.
+ */
+export class EventReplayBuffer {
+  private events: BufferedEvent[] = [];
+  private nextId = 1;
+
+  constructor(private readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Event buffer capacity must be a positive integer, got ${capacity}`);
+    }
+  }
+
+  append(streamId: string, event: string, data: string): BufferedEvent {
+    const buffered: BufferedEvent = { id: this.nextId++, streamId, event, data };
+    this.events.push(buffered);
+    if (this.events.length > this.capacity) {
+      this.events.shift();
+    }
+    return buffered;
+  }
+
+  find(id: number): BufferedEvent | undefined {
+    return this.events.find(event => event.id === id);
+  }
+
+  /**
+   * Events newer than `lastEventId`, optionally restricted to one stream.
+   */
+  eventsAfter(lastEventId: number, streamId?: string): BufferedEvent[] {
+    return this.events.filter(event => event.id > lastEventId && (streamId === undefined || event.streamId === streamId));
+  }
+
+  /**
+   * True when events following `lastEventId` were already dropped.
+   */
+  hasGapAfter(lastEventId: number): boolean {
+    const oldest = this.events[0];
+    return oldest !== undefined && oldest.id > lastEventId + 1;
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+}
+
+/**
+ * Parse a `Last-Event-ID` header into the numeric ID used by
+ * EventReplayBuffer, or undefined when it is missing or not ours.
+ */
+export function parseLastEventId(header: string | string[] | undefined): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value || !/^\d+$/.test(value.trim())) {
+    return undefined;
+  }
+  return parseInt(value.trim(), 10);
+}
+
+/**
+ * Serialize one event in the text/event-stream wire format. `data` is sent
+ * as is, one `data:` line per line of text.
+ */
+export function formatSSE(event: { id?: string | number; event?: string; retry?: number; data: string }): string {
+  let formatted = '';
+
+  if (event.id !== undefined) {
+    formatted += `id: ${event.id}\n`;
+  }
+  if (event.event) {
+    formatted += `event: ${event.event}\n`;
+  }
+  if (event.retry) {
+    formatted += `retry: ${event.retry}\n`;
+  }
+  for (const line of event.data.split('\n')) {
+    formatted += `data: ${line}\n`;
+  }
+
+  return formatted + '\n';
+}
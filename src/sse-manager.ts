@@ -1,16 +1,32 @@
 import { Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import winston from 'winston';
-import { SSEConnection, SSEEvent, SSEEventType, MCPSSEMessage, AuthToken } from './types.js';
+import { SSEConnection, MCPSSEMessage, AuthToken } from './types.js';
+import { EventReplayBuffer, formatSSE } from './sse-events.js';
+
+export interface SSEManagerOptions {
+  // Events kept per connection for Last-Event-ID replay
+  bufferSize?: number;
+  // Reconnection delay suggested to clients with the `retry:` field
+  retryMs?: number;
+  // How long a dropped connection can still be resumed
+  reconnectWindowMs?: number;
+}
 
 export class SSEManager {
   private connections: Map<string, SSEConnection> = new Map();
   private logger: winston.Logger;
+  private bufferSize: number;
+  private retryMs: number;
+  private reconnectWindowMs: number;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
-  constructor(logger: winston.Logger) {
+  constructor(logger: winston.Logger, options: SSEManagerOptions = {}) {
     this.logger = logger;
+    this.bufferSize = options.bufferSize ?? 100;
+    this.retryMs = options.retryMs ?? 3000;
+    this.reconnectWindowMs = options.reconnectWindowMs ?? 5 * 60 * 1000;
     this.startHeartbeat();
     this.startCleanup();
   }
@@ -27,6 +43,7 @@ export class SSEManager {
       authToken,
       connectedAt: new Date(),
       lastActivity: new Date(),
+      events: new EventReplayBuffer(this.bufferSize),
       clientInfo: {
         userAgent: clientInfo?.userAgent,
         ip: clientInfo?.ip
@@ -44,6 +61,9 @@ export class SSEManager {
       totalConnections: this.connections.size
     });
 
+    response.write(`retry: ${this.retryMs}\n\n`);
+    this.watchResponse(connectionId, response);
+
     // Send connection status event
     this.sendToConnection(connectionId, {
       type: 'connection-status',
@@ -55,21 +75,50 @@ export class SSEManager {
       timestamp: new Date().toISOString()
     });
 
-    // Handle connection close
-    response.on('close', () => {
-      this.removeConnection(connectionId);
-    });
+    return connectionId;
+  }
 
-    response.on('error', (error) => {
-      this.logger.error('SSE Connection Error', {
-        connectionId,
-        error: error.message,
+  /**
+   * Reattach a client that reconnected with `Last-Event-ID` to its previous
+   * connection and replay the events it missed. Returns the connection ID,
+   * or undefined when the event ID is unknown, expired or belongs to
+   * another token.
+   */
+  resumeConnection(response: Response, authToken: AuthToken, lastEventId: string): string | undefined {
+    const parsed = this.parseEventId(lastEventId);
+    const connection = parsed ? this.connections.get(parsed.connectionId) : undefined;
+
+    if (!parsed || !connection || connection.authToken.id !== authToken.id) {
+      this.logger.info('SSE Resume Not Possible - Starting New Connection', {
+        lastEventId,
         tokenId: authToken.id
       });
-      this.removeConnection(connectionId);
+      return undefined;
+    }
+
+    // A response still attached is a half-open socket the client gave up on
+    this.closeResponse(connection.response);
+    connection.response = response;
+    connection.lastActivity = new Date();
+    delete connection.disconnectedAt;
+
+    response.write(`retry: ${this.retryMs}\n\n`);
+    this.watchResponse(connection.id, response);
+
+    const missed = connection.events.eventsAfter(parsed.sequence);
+    for (const event of missed) {
+      response.write(formatSSE({ ...event, id: this.formatEventId(connection.id, event.id) }));
+    }
+
+    this.logger.info('SSE Connection Resumed', {
+      connectionId: connection.id,
+      tokenId: authToken.id,
+      lastEventId,
+      replayed: missed.length,
+      eventsLost: connection.events.hasGapAfter(parsed.sequence)
     });
 
-    return connectionId;
+    return connection.id;
   }
 
   /**
@@ -85,21 +134,14 @@ export class SSEManager {
         totalConnections: this.connections.size - 1
       });
 
-      // Close the response if it's still open
-      try {
-        if (!connection.response.headersSent) {
-          connection.response.end();
-        }
-      } catch (error) {
-        // Response might already be closed
-      }
-
+      this.closeResponse(connection.response);
       this.connections.delete(connectionId);
     }
   }
 
   /**
-   * Send an event to a specific connection
+   * Send an event to a specific connection. Events for a disconnected
+   * client are buffered until it resumes or the reconnect window passes.
    */
   sendToConnection(connectionId: string, message: MCPSSEMessage): boolean {
     const connection = this.connections.get(connectionId);
@@ -108,22 +150,34 @@ export class SSEManager {
       return false;
     }
 
+    const response = connection.response;
     try {
-      const event: SSEEvent = {
-        id: uuidv4(),
-        event: message.type,
-        data: JSON.stringify(message)
-      };
+      const data = JSON.stringify(message);
 
-      const sseData = this.formatSSEEvent(event);
-      connection.response.write(sseData);
-      connection.lastActivity = new Date();
+      // Heartbeats carry no ID and are not buffered: replaying them is pointless
+      if (message.type === 'heartbeat') {
+        if (!response) {
+          return false;
+        }
+        response.write(formatSSE({ event: message.type, data }));
+        connection.lastActivity = new Date();
+        return true;
+      }
+
+      const event = connection.events.append(connectionId, message.type, data);
+      const eventId = this.formatEventId(connectionId, event.id);
+
+      if (response) {
+        response.write(formatSSE({ id: eventId, event: event.event, data }));
+        connection.lastActivity = new Date();
+      }
 
       this.logger.debug('SSE Event Sent', {
         connectionId,
         eventType: message.type,
-        eventId: event.id,
-        dataSize: sseData.length
+        eventId,
+        buffered: !response,
+        dataSize: data.length
       });
 
       return true;
@@ -134,8 +188,10 @@ export class SSEManager {
         eventType: message.type
       });
 
-      // Remove broken connection
-      this.removeConnection(connectionId);
+      // Treat a broken stream as a disconnect so the client can still resume
+      if (response) {
+        this.detachResponse(connectionId, response);
+      }
       return false;
     }
   }
@@ -190,21 +246,28 @@ export class SSEManager {
    */
   getStats(): {
     totalConnections: number;
+    disconnectedConnections: number;
     connectionsByType: Record<string, number>;
     oldestConnection?: Date;
     newestConnection?: Date;
   } {
     const stats: {
       totalConnections: number;
+      disconnectedConnections: number;
       connectionsByType: Record<string, number>;
       oldestConnection?: Date;
       newestConnection?: Date;
     } = {
       totalConnections: this.connections.size,
+      disconnectedConnections: 0,
       connectionsByType: {} as Record<string, number>
     };
 
     for (const connection of this.connections.values()) {
+      if (!connection.response) {
+        stats.disconnectedConnections++;
+      }
+
       // Count by token type
       const tokenType = connection.authToken.type;
       stats.connectionsByType[tokenType] = (stats.connectionsByType[tokenType] || 0) + 1;
@@ -222,32 +285,66 @@ export class SSEManager {
   }
 
   /**
-   * Format an SSE event according to the specification
+   * Event IDs embed the connection ID so that `Last-Event-ID` alone
+   * identifies the connection to resume
    */
-  private formatSSEEvent(event: SSEEvent): string {
-    let formatted = '';
-    
-    if (event.id) {
-      formatted += `id: ${event.id}\n`;
-    }
-    
-    if (event.event) {
-      formatted += `event: ${event.event}\n`;
+  private formatEventId(connectionId: string, sequence: number): string {
+    return `${connectionId}:${sequence}`;
+  }
+
+  private parseEventId(eventId: string): { connectionId: string; sequence: number } | undefined {
+    const match = /^(.+):(\d+)$/.exec(eventId.trim());
+    if (!match) {
+      return undefined;
     }
-    
-    if (event.retry) {
-      formatted += `retry: ${event.retry}\n`;
+    return { connectionId: match[1]!, sequence: parseInt(match[2]!, 10) };
+  }
+
+  private watchResponse(connectionId: string, response: Response): void {
+    response.on('close', () => {
+      this.detachResponse(connectionId, response);
+    });
+
+    response.on('error', (error) => {
+      this.logger.error('SSE Connection Error', {
+        connectionId,
+        error: error.message
+      });
+      this.detachResponse(connectionId, response);
+    });
+  }
+
+  /**
+   * Keep the connection and its buffer after the client drops, so that it
+   * can resume within the reconnect window
+   */
+  private detachResponse(connectionId: string, response: Response): void {
+    const connection = this.connections.get(connectionId);
+    // Ignore responses already replaced by a resumed one
+    if (!connection || connection.response !== response) {
+      return;
     }
-    
-    // Handle multi-line data
-    const dataLines = JSON.stringify(event.data).split('\n');
-    for (const line of dataLines) {
-      formatted += `data: ${line}\n`;
+
+    this.closeResponse(response);
+    delete connection.response;
+    connection.disconnectedAt = new Date();
+
+    this.logger.info('SSE Connection Disconnected', {
+      connectionId,
+      tokenId: connection.authToken.id,
+      bufferedEvents: connection.events.size,
+      reconnectWindowMs: this.reconnectWindowMs
+    });
+  }
+
+  private closeResponse(response: Response | undefined): void {
+    try {
+      if (response && !response.writableEnded) {
+        response.end();
+      }
+    } catch (error) {
+      // Response might already be closed
     }
-    
-    formatted += '\n'; // Empty line to end the event
-    
-    return formatted;
   }
 
   /**
@@ -285,6 +382,13 @@ export class SSEManager {
       const staleConnections: string[] = [];
 
       for (const [connectionId, connection] of this.connections) {
+        if (connection.disconnectedAt) {
+          // Not resumed in time
+          if (now.getTime() - connection.disconnectedAt.getTime() > this.reconnectWindowMs) {
+            staleConnections.push(connectionId);
+          }
+          continue;
+        }
         const timeSinceActivity = now.getTime() - connection.lastActivity.getTime();
         if (timeSinceActivity > staleThreshold) {
           staleConnections.push(connectionId);
@@ -325,7 +429,7 @@ export class SSEManager {
     }
 
     // Close all connections
-    for (const connectionId of this.connections.keys()) {
+    for (const connectionId of [...this.connections.keys()]) {
       this.removeConnection(connectionId);
     }
   }
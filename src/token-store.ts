@@ -0,0 +1,316 @@
+import fs from 'fs';
+import path from 'path';
+import { AuthToken } from './types.js';
+
+export interface RevokedToken {
+  tokenId: string;
+  revokedAt: Date;
+  // Once the token would have expired anyway the entry can be dropped
+  expiresAt?: Date;
+}
+
+/**
+ * Where AuthManager keeps issued token metadata, the revocation list and
+ * usage timestamps. Records are keyed by token ID; raw token strings are
+ * never stored. Methods are synchronous because token verification runs
+ * inside request middleware.
+ */
+export interface TokenStore {
+  saveToken(token: AuthToken): void;
+  getToken(tokenId: string): AuthToken | undefined;
+  listTokens(): AuthToken[];
+  deleteToken(tokenId: string): boolean;
+  revoke(tokenId: string, expiresAt?: Date): void;
+  isRevoked(tokenId: string): boolean;
+  listRevoked(): RevokedToken[];
+  // Drop revocations whose token has expired; returns how many were removed
+  pruneRevoked(now: Date): number;
+  recordUsage(tokenId: string, usedAt: Date): void;
+  // Write out anything still pending, e.g. before the process exits
+  flush(): void;
+}
+
+export type TokenStoreKind = 'memory' | 'file';
+
+export interface TokenStoreOptions {
+  kind?: TokenStoreKind;
+  path?: string;
+}
+
+export const DEFAULT_TOKEN_STORE_PATH = 'data/tokens.json';
+
+/**
+ * Read the token store settings shared by the server and the token CLIs
+ */
+export function tokenStoreOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): TokenStoreOptions {
+  const kind = env['TOKEN_STORE'] || 'file';
+  if (kind !== 'memory' && kind !== 'file') {
+    throw new Error(`TOKEN_STORE must be "file" or "memory", got "${kind}"`);
+  }
+  return {
+    kind,
+    path: env['TOKEN_STORE_PATH'] || DEFAULT_TOKEN_STORE_PATH
+  };
+}
+
+export function createTokenStore(options: TokenStoreOptions = {}): TokenStore {
+  if (options.kind === 'memory') {
+    return new MemoryTokenStore();
+  }
+  return new JsonFileTokenStore(options.path || DEFAULT_TOKEN_STORE_PATH);
+}
+
+export class MemoryTokenStore implements TokenStore {
+  protected tokens: Map<string, AuthToken> = new Map();
+  protected revoked: Map<string, RevokedToken> = new Map();
+
+  saveToken(token: AuthToken): void {
+    this.tokens.set(token.id, token);
+  }
+
+  getToken(tokenId: string): AuthToken | undefined {
+    return this.tokens.get(tokenId);
+  }
+
+  listTokens(): AuthToken[] {
+    return Array.from(this.tokens.values());
+  }
+
+  deleteToken(tokenId: string): boolean {
+    return this.tokens.delete(tokenId);
+  }
+
+  revoke(tokenId: string, expiresAt?: Date): void {
+    this.revoked.set(tokenId, {
+      tokenId,
+      revokedAt: new Date(),
+      ...(expiresAt && { expiresAt })
+    });
+  }
+
+  isRevoked(tokenId: string): boolean {
+    return this.revoked.has(tokenId);
+  }
+
+  listRevoked(): RevokedToken[] {
+    return Array.from(this.revoked.values());
+  }
+
+  pruneRevoked(now: Date): number {
+    let removed = 0;
+    for (const [tokenId, entry] of this.revoked) {
+      if (entry.expiresAt && entry.expiresAt < now) {
+        this.revoked.delete(tokenId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  recordUsage(tokenId: string, usedAt: Date): void {
+    const token = this.tokens.get(tokenId);
+    if (token) {
+      token.lastUsed = usedAt;
+    }
+  }
+
+  flush(): void {
+    // Nothing to write
+  }
+}
+
+interface SerializedToken {
+  id: string;
+  type: AuthToken['type'];
+  permissions: string[];
+  projects?: string[];
+  rateLimits?: AuthToken['rateLimits'];
+  // As stored on the token: the encrypted API key or the key name
+  upstream?: AuthToken['upstream'];
+  createdAt: string;
+  expiresAt?: string;
+  lastUsed?: string;
+  description?: string;
+}
+
+interface SerializedRevocation {
+  revokedAt: string;
+  expiresAt?: string;
+}
+
+interface TokenStoreFile {
+  version: 1;
+  tokens: Record<string, SerializedToken>;
+  revoked: Record<string, SerializedRevocation>;
+}
+
+function serializeToken(token: AuthToken): SerializedToken {
+  return {
+    id: token.id,
+    type: token.type,
+    permissions: token.permissions,
+    ...(token.projects && { projects: token.projects }),
+    ...(token.rateLimits && { rateLimits: token.rateLimits }),
+    ...(token.upstream && { upstream: token.upstream }),
+    createdAt: token.createdAt.toISOString(),
+    ...(token.expiresAt && { expiresAt: token.expiresAt.toISOString() }),
+    ...(token.lastUsed && { lastUsed: token.lastUsed.toISOString() }),
+    ...(token.description && { description: token.description })
+  };
+}
+
+function deserializeToken(record: SerializedToken): AuthToken {
+  return {
+    id: record.id,
+    type: record.type,
+    permissions: record.permissions,
+    ...(record.projects && { projects: record.projects }),
+    ...(record.rateLimits && { rateLimits: record.rateLimits }),
+    ...(record.upstream && { upstream: record.upstream }),
+    createdAt: new Date(record.createdAt),
+    ...(record.expiresAt && { expiresAt: new Date(record.expiresAt) }),
+    ...(record.lastUsed && { lastUsed: new Date(record.lastUsed) }),
+    ...(record.description && { description: record.description })
+  };
+}
+
+/**
+ * Token store backed by a JSON file, shared by the running server and the
+ * scripts/ CLIs. Every change re-reads the file first when another process
+ * modified it, then rewrites it atomically. `lastUsed` updates are batched
+ * and written at most every `usageFlushMs`.
+ */
+export class JsonFileTokenStore extends MemoryTokenStore {
+  private mtimeMs = -1;
+  private pendingUsage: Map<string, Date> = new Map();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly filePath: string, private readonly usageFlushMs: number = 5000) {
+    super();
+    this.reloadIfChanged();
+  }
+
+  override saveToken(token: AuthToken): void {
+    this.mutate(() => super.saveToken(token));
+  }
+
+  override getToken(tokenId: string): AuthToken | undefined {
+    this.reloadIfChanged();
+    return super.getToken(tokenId);
+  }
+
+  override listTokens(): AuthToken[] {
+    this.reloadIfChanged();
+    return super.listTokens();
+  }
+
+  override deleteToken(tokenId: string): boolean {
+    let deleted = false;
+    this.mutate(() => {
+      deleted = super.deleteToken(tokenId);
+    });
+    return deleted;
+  }
+
+  override revoke(tokenId: string, expiresAt?: Date): void {
+    this.mutate(() => super.revoke(tokenId, expiresAt));
+  }
+
+  override isRevoked(tokenId: string): boolean {
+    this.reloadIfChanged();
+    return super.isRevoked(tokenId);
+  }
+
+  override listRevoked(): RevokedToken[] {
+    this.reloadIfChanged();
+    return super.listRevoked();
+  }
+
+  override pruneRevoked(now: Date): number {
+    let removed = 0;
+    this.mutate(() => {
+      removed = super.pruneRevoked(now);
+    });
+    return removed;
+  }
+
+  override recordUsage(tokenId: string, usedAt: Date): void {
+    super.recordUsage(tokenId, usedAt);
+    this.pendingUsage.set(tokenId, usedAt);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.usageFlushMs);
+      this.flushTimer.unref();
+    }
+  }
+
+  override flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pendingUsage.size > 0) {
+      this.mutate(() => undefined);
+    }
+  }
+
+  private mutate(change: () => void): void {
+    this.reloadIfChanged();
+    change();
+
+    // Re-apply usage recorded since the last write, in case the file was reloaded
+    for (const [tokenId, usedAt] of this.pendingUsage) {
+      super.recordUsage(tokenId, usedAt);
+    }
+    this.pendingUsage.clear();
+
+    this.write();
+  }
+
+  private reloadIfChanged(): void {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(this.filePath).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    if (mtimeMs === this.mtimeMs) {
+      return;
+    }
+
+    let data: TokenStoreFile;
+    try {
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Token store ${this.filePath} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.tokens = new Map(Object.values(data.tokens || {}).map(record => [record.id, deserializeToken(record)]));
+    this.revoked = new Map(Object.entries(data.revoked || {}).map(([tokenId, entry]) => [tokenId, {
+      tokenId,
+      revokedAt: new Date(entry.revokedAt),
+      ...(entry.expiresAt && { expiresAt: new Date(entry.expiresAt) })
+    }]));
+    this.mtimeMs = mtimeMs;
+  }
+
+  private write(): void {
+    const data: TokenStoreFile = {
+      version: 1,
+      tokens: Object.fromEntries(Array.from(this.tokens.values()).map(token => [token.id, serializeToken(token)])),
+      revoked: Object.fromEntries(Array.from(this.revoked.values()).map(entry => [entry.tokenId, {
+        revokedAt: entry.revokedAt.toISOString(),
+        ...(entry.expiresAt && { expiresAt: entry.expiresAt.toISOString() })
+      }]))
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+    this.mtimeMs = fs.statSync(this.filePath).mtimeMs;
+  }
+}
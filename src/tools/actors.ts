@@ -1,74 +1,30 @@
-import { HyperManagerAPIClient } from '../api-client.js';
+import { z } from 'zod';
+import { BacklogBackend } from '../backend.js';
 import { ActorAddSchema, StoryAddSchema } from '../types.js';
+import { buildToolSet, defineTool } from './define-tool.js';
 
-export function setupActorTools(client: HyperManagerAPIClient) {
-  return {
-    tools: [
-      {
-        name: 'add_actor',
-        description: 'Add a new actor to a project',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            project: {
-              type: 'string',
-              description: 'ID of the project to add the actor to'
-            },
-            data: {
-              type: 'object',
-              description: 'Actor data (flexible object structure)'
-            }
-          },
-          required: ['project', 'data']
-        }
-      },
-      {
-        name: 'add_story_to_actor',
-        description: 'Add a story to an actor in a project',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            project: {
-              type: 'string',
-              description: 'ID of the project'
-            },
-            name: {
-              type: 'string',
-              description: 'Name of the actor'
-            },
-            data: {
-              type: 'object',
-              description: 'Story data (flexible object structure)'
-            }
-          },
-          required: ['project', 'name', 'data']
-        }
-      }
-    ],
-    handlers: {
-      add_actor: async (args: any) => {
-        if (!args.project || typeof args.project !== 'string') {
-          throw new Error('project is required and must be a string');
-        }
-        if (!args.data || typeof args.data !== 'object') {
-          throw new Error('data is required and must be an object');
-        }
-        const validatedData = ActorAddSchema.parse(args.data);
-        return await client.addActor(args.project, validatedData);
-      },
-      add_story_to_actor: async (args: any) => {
-        if (!args.project || typeof args.project !== 'string') {
-          throw new Error('project is required and must be a string');
-        }
-        if (!args.name || typeof args.name !== 'string') {
-          throw new Error('name is required and must be a string');
-        }
-        if (!args.data || typeof args.data !== 'object') {
-          throw new Error('data is required and must be an object');
-        }
-        const validatedData = StoryAddSchema.parse(args.data);
-        return await client.addStoryToActor(args.project, args.name, validatedData);
-      }
-    }
-  };
+export function setupActorTools(client: BacklogBackend) {
+  return buildToolSet([
+    defineTool({
+      name: 'add_actor',
+      operationId: 'add-actor',
+      description: 'Add a new actor to a project',
+      schema: z.object({
+        project: z.string().min(1, 'project is required').describe('ID of the project to add the actor to'),
+        data: ActorAddSchema.describe('Actor data')
+      }),
+      handler: async (args) => await client.addActor(args.project, args.data)
+    }),
+    defineTool({
+      name: 'add_story_to_actor',
+      operationId: 'add-story-to-actor',
+      description: 'Add a story to an actor in a project',
+      schema: z.object({
+        project: z.string().min(1, 'project is required').describe('ID of the project'),
+        name: z.string().min(1, 'name is required').describe('Name of the actor'),
+        data: StoryAddSchema.describe('Story data')
+      }),
+      handler: async (args) => await client.addStoryToActor(args.project, args.name, args.data)
+    })
+  ]);
 }
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { AuditLog, AuditQuery, MAX_AUDIT_QUERY_LIMIT } from '../audit-log.js';
+import { buildToolSet, defineTool } from './define-tool.js';
+
+export const AuditQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional().describe('Only entries at or after this ISO 8601 time'),
+  to: z.string().datetime({ offset: true }).optional().describe('Only entries at or before this ISO 8601 time'),
+  tokenId: z.string().optional().describe('Only calls made with this token ID'),
+  project: z.string().optional().describe('Only calls touching this project code'),
+  tool: z.string().optional().describe('Only calls to this tool'),
+  entityId: z.string().optional().describe('Only calls naming or creating this story, feature, actor or project ID'),
+  limit: z.number().int().min(1).max(MAX_AUDIT_QUERY_LIMIT).optional().describe('Maximum entries to return, newest first (default 100)')
+});
+
+/**
+ * Turn validated query arguments, from the tool or GET /admin/audit, into an AuditQuery
+ */
+export function toAuditQuery(args: z.infer<typeof AuditQuerySchema>): AuditQuery {
+  return {
+    ...(args.from && { from: new Date(args.from) }),
+    ...(args.to && { to: new Date(args.to) }),
+    ...(args.tokenId && { tokenId: args.tokenId }),
+    ...(args.project && { project: args.project }),
+    ...(args.tool && { tool: args.tool }),
+    ...(args.entityId && { entityId: args.entityId }),
+    ...(args.limit !== undefined && { limit: args.limit })
+  };
+}
+
+export function setupAuditTools(auditLog: AuditLog) {
+  return buildToolSet([
+    defineTool({
+      name: 'query_audit_log',
+      description: 'Search the audit log of backlog changes: who called which mutating tool, when, and with what outcome',
+      schema: AuditQuerySchema,
+      handler: async (args) => await auditLog.query(toAuditQuery(args))
+    })
+  ]);
+}
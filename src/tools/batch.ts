@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ServerErrorCode } from '../error-codes.js';
+import { toolOperation } from '../handlers/access-control.js';
+import { buildToolSet, defineTool, ToolArgumentIssue, ToolArgumentsError } from './define-tool.js';
+
+export const MAX_BATCH_OPERATIONS = 200;
+
+const BatchOperationSchema = z.object({
+  ref: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'ref must be a letter or underscore followed by letters, digits or underscores')
+    .optional().describe('Name later operations use to refer to this one\'s result, e.g. "story1" for "$story1.id"'),
+  tool: z.string().min(1, 'tool is required')
+    .refine(tool => tool !== 'apply_backlog_batch', 'Batches cannot be nested')
+    .describe('Name of the tool to call, e.g. add_story_to_actor'),
+  arguments: z.record(z.any()).optional().describe('Arguments of the tool call. A string value "$ref" or "$ref.path.to.field" is replaced by that part of an earlier operation\'s result.')
+});
+
+type BatchOperation = z.output<typeof BatchOperationSchema>;
+
+export interface BatchOperationResult {
+  index: number;
+  ref?: string;
+  tool: string;
+  // `planned`: a dry run could not preview it, as it needs what an earlier write would create
+  status: 'succeeded' | 'failed' | 'skipped' | 'planned';
+  result?: unknown;
+  error?: string;
+}
+
+export interface BatchResult {
+  status: 'completed' | 'completed_with_errors' | 'stopped';
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  planned: number;
+  operations: BatchOperationResult[];
+}
+
+const REFERENCE = /^\$([A-Za-z_][A-Za-z0-9_]*)((?:\.[^.]+)*)$/;
+
+/**
+ * A string value that names a `ref` of the batch. Other strings starting
+ * with `$` are left alone, so literal values need no escaping.
+ */
+function parseReference(value: unknown, refs: Set<string>): { ref: string; path: string[] } | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const match = value.match(REFERENCE);
+  if (!match || !refs.has(match[1]!)) {
+    return undefined;
+  }
+  return { ref: match[1]!, path: match[2] ? match[2].slice(1).split('.') : [] };
+}
+
+function collectReferences(value: unknown, refs: Set<string>, found: { ref: string; path: string[]; raw: string }[] = []) {
+  const reference = parseReference(value, refs);
+  if (reference) {
+    found.push({ ...reference, raw: value as string });
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, refs, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectReferences(item, refs, found));
+  }
+  return found;
+}
+
+/**
+ * Refs must be unique and only point back to earlier operations, so the
+ * whole batch is rejected before anything runs
+ */
+function checkReferences(operations: BatchOperation[]): void {
+  const refs = new Set(operations.flatMap(operation => operation.ref ? [operation.ref] : []));
+  const defined = new Set<string>();
+  const issues: ToolArgumentIssue[] = [];
+
+  operations.forEach((operation, index) => {
+    for (const reference of collectReferences(operation.arguments, refs)) {
+      if (!defined.has(reference.ref)) {
+        issues.push({ path: `operations.${index}.arguments`, message: `${reference.raw} refers to a later operation` });
+      }
+    }
+    if (operation.ref) {
+      if (defined.has(operation.ref)) {
+        issues.push({ path: `operations.${index}.ref`, message: `Duplicate ref ${operation.ref}` });
+      }
+      defined.add(operation.ref);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ToolArgumentsError('apply_backlog_batch', issues);
+  }
+}
+
+// The operation needs the result of one that failed or did not run
+class DependencyNotMet extends Error {}
+
+// The operation needs the result of a write that was only previewed
+class DependencyPreviewed extends Error {}
+
+/**
+ * Replace references in `value` by the results of the operations they name.
+ * A reference to a dry-run preview cannot be resolved, since nothing was
+ * created: the operation is then planned rather than previewed.
+ */
+function resolveReferences(value: unknown, refs: Set<string>, results: Map<string, BatchOperationResult>): unknown {
+  const reference = parseReference(value, refs);
+  if (reference) {
+    const source = results.get(reference.ref)!;
+    if (source.status === 'planned' || (source.result as { dryRun?: unknown } | undefined)?.dryRun === true) {
+      throw new DependencyPreviewed(`Not previewed: ${value} needs what operation ${source.index} (${source.tool}) would create`);
+    }
+    if (source.status !== 'succeeded') {
+      throw new DependencyNotMet(`${value} depends on operation ${source.index} (${source.tool}), which ${source.status === 'failed' ? 'failed' : 'was skipped'}`);
+    }
+    let resolved: any = source.result;
+    for (const key of reference.path) {
+      resolved = resolved === null || resolved === undefined ? undefined : resolved[key];
+    }
+    if (resolved === undefined) {
+      throw new Error(`${value} does not resolve to a value in the result of operation ${source.index} (${source.tool})`);
+    }
+    return resolved;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveReferences(item, refs, results));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveReferences(item, refs, results)]));
+  }
+  return value;
+}
+
+export function setupBatchTools() {
+  return buildToolSet([
+    defineTool({
+      name: 'apply_backlog_batch',
+      description: 'Run an ordered list of tool calls in one request, e.g. to create actors, stories and features. An operation with a `ref` can be referred to by later ones as "$ref.id" (or any other result field). Each operation is checked and audited like a separate call.',
+      schema: z.object({
+        operations: z.array(BatchOperationSchema).min(1, 'operations must not be empty').max(MAX_BATCH_OPERATIONS)
+          .describe(`Operations to run in order (at most ${MAX_BATCH_OPERATIONS})`),
+        onError: z.enum(['stop', 'continue']).optional()
+          .describe('On a failed operation, skip the rest ("stop", default) or carry on with the operations that do not depend on it ("continue")'),
+        dryRun: z.boolean().optional().describe('Preview every write operation instead of running it (optional)')
+      }),
+      handler: async (args, context): Promise<BatchResult> => {
+        checkReferences(args.operations);
+
+        const refs = new Set(args.operations.flatMap(operation => operation.ref ? [operation.ref] : []));
+        const byRef = new Map<string, BatchOperationResult>();
+        const results: BatchOperationResult[] = [];
+        const total = args.operations.length;
+        let stopped = false;
+
+        for (const [index, operation] of args.operations.entries()) {
+          const entry: BatchOperationResult = {
+            index,
+            ...(operation.ref && { ref: operation.ref }),
+            tool: operation.tool,
+            status: 'skipped'
+          };
+          results.push(entry);
+          if (operation.ref) {
+            byRef.set(operation.ref, entry);
+          }
+
+          if (stopped) {
+            entry.error = 'Not run: the batch stopped at an earlier failure';
+          } else {
+            try {
+              const toolArgs = resolveReferences(operation.arguments ?? {}, refs, byRef) as Record<string, unknown>;
+              entry.result = await context.callTool(
+                operation.tool,
+                args.dryRun && toolOperation(operation.tool) === 'write' ? { ...toolArgs, dryRun: true } : toolArgs
+              );
+              entry.status = 'succeeded';
+            } catch (error) {
+              entry.error = error instanceof Error ? error.message : 'Unknown error';
+              if (error instanceof DependencyPreviewed) {
+                entry.status = 'planned';
+              } else {
+                entry.status = error instanceof DependencyNotMet ? 'skipped' : 'failed';
+                // Once rate limited, every later operation would be refused as well
+                stopped = args.onError !== 'continue' || (error instanceof McpError && error.code === ServerErrorCode.RateLimited);
+              }
+            }
+          }
+
+          context.reportProgress?.({
+            progress: index + 1,
+            total,
+            message: `${operation.ref ?? `#${index}`} ${operation.tool}: ${entry.status}`
+          });
+        }
+
+        const count = (status: BatchOperationResult['status']) => results.filter(entry => entry.status === status).length;
+        const succeeded = count('succeeded');
+        const planned = count('planned');
+        return {
+          status: stopped ? 'stopped' : succeeded + planned === total ? 'completed' : 'completed_with_errors',
+          succeeded,
+          failed: count('failed'),
+          skipped: count('skipped'),
+          planned,
+          operations: results
+        };
+      }
+    })
+  ]);
+}
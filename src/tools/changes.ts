@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { ChangeEntry, ChangeJournal } from '../change-journal.js';
+import { buildToolSet, defineTool } from './define-tool.js';
+
+export function setupChangeTools(journal: ChangeJournal) {
+  return buildToolSet([
+    defineTool({
+      name: 'list_changes',
+      description: 'List recent backlog changes made through this server, newest first, with whether and how each can be undone',
+      schema: z.object({
+        project: z.string().optional().describe('Only changes in this project code'),
+        entityId: z.string().optional().describe('Only changes naming or creating this story, feature, actor or project ID'),
+        tool: z.string().optional().describe('Only changes made by this tool'),
+        tokenId: z.string().optional().describe('Only changes made with this token ID'),
+        limit: z.number().int().min(1).max(500).optional().describe('Maximum changes to return (default 50)'),
+        includeSnapshots: z.boolean().optional().describe('Include the before/after snapshots (default false)')
+      }),
+      handler: async ({ includeSnapshots, ...query }) => journal
+        .list({
+          ...(query.project && { project: query.project }),
+          ...(query.entityId && { entityId: query.entityId }),
+          ...(query.tool && { tool: query.tool }),
+          ...(query.tokenId && { tokenId: query.tokenId }),
+          ...(query.limit !== undefined && { limit: query.limit })
+        })
+        .map(({ before, after, ...entry }): Partial<ChangeEntry> => includeSnapshots ? { ...entry, before, after } : entry)
+    }),
+    defineTool({
+      name: 'undo_change',
+      description: 'Restore what a change listed by list_changes overwrote. Changes that no endpoint can reverse, such as created entities, are refused with the reason.',
+      schema: z.object({
+        changeId: z.string().min(1, 'changeId is required').describe('ID of the change, from list_changes'),
+        force: z.boolean().optional().describe('Restore even if the entity was edited again since the change (default false)')
+      }),
+      handler: async (args, context) => await journal.undo(args.changeId, {
+        ...(args.force !== undefined && { force: args.force }),
+        authToken: context.authToken
+      })
+    })
+  ]);
+}
@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { AuthToken } from '../types.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface MCPTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+}
+
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+// Who is calling, for tools that act on the caller's behalf (e.g. undo_change)
+export interface ToolContext {
+  authToken: AuthToken;
+  requestId: string;
+  // Call another tool as the same caller, with every dispatcher check applied
+  callTool: (name: string, args: unknown) => Promise<unknown>;
+  // Present when the client asked for progress notifications
+  reportProgress?: (progress: ToolProgress) => void;
+}
+
+export type ToolHandler = (args: unknown, context: ToolContext) => Promise<unknown>;
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  // swagger.yml operation the tool wraps; its generated default tool is then left out
+  operationId?: string;
+  schema: S;
+  handler: (args: z.output<S>, context: ToolContext) => Promise<unknown>;
+}
+
+export interface ToolSet {
+  tools: MCPTool[];
+  handlers: Record<string, ToolHandler>;
+  // operationId wrapped by each tool that declares one
+  operations: Record<string, string>;
+}
+
+export interface ToolArgumentIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when tool arguments do not match the tool's zod schema. `issues`
+ * lists one entry per offending field so clients can point at it.
+ */
+export class ToolArgumentsError extends Error {
+  constructor(public readonly toolName: string, public readonly issues: ToolArgumentIssue[]) {
+    super(`Invalid arguments for ${toolName}: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+    this.name = 'ToolArgumentsError';
+  }
+}
+
+// Identity helper that lets TypeScript infer handler argument types from the schema
+export function defineTool<S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+export const EmptyArgsSchema = z.object({});
+
+/**
+ * Turn tool definitions into the `{ tools, handlers }` pair consumed by the
+ * MCP dispatchers. Each handler validates its arguments against the schema
+ * before running, so the advertised JSON Schema and the validation can no
+ * longer drift apart.
+ */
+export function buildToolSet(definitions: ToolDefinition<any>[]): ToolSet {
+  const tools: MCPTool[] = [];
+  const handlers: Record<string, ToolHandler> = {};
+  const operations: Record<string, string> = {};
+
+  for (const definition of definitions) {
+    if (definition.operationId) {
+      operations[definition.name] = definition.operationId;
+    }
+    tools.push({
+      name: definition.name,
+      description: definition.description,
+      inputSchema: zodToJsonSchema(definition.schema)
+    });
+
+    handlers[definition.name] = async (args: unknown, context: ToolContext) => {
+      const parsed = definition.schema.safeParse(args ?? {});
+      if (!parsed.success) {
+        throw new ToolArgumentsError(definition.name, parsed.error.issues.map((issue: z.ZodIssue) => ({
+          path: issue.path.join('.') || '(root)',
+          message: issue.message
+        })));
+      }
+      return await definition.handler(parsed.data, context);
+    };
+  }
+
+  return { tools, handlers, operations };
+}
+
+/**
+ * Convert the subset of zod used by tool schemas into JSON Schema.
+ * Field descriptions come from `.describe()`.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  if (schema.description && !result['description']) {
+    result['description'] = schema.description;
+  }
+  return result;
+}
+
+function isOptional(schema: z.ZodTypeAny): boolean {
+  return schema instanceof z.ZodOptional || schema instanceof z.ZodDefault;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const withDescription = (json: JsonSchema): JsonSchema =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!isOptional(value)) {
+        required.push(key);
+      }
+    }
+
+    return withDescription({
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required })
+    });
+  }
+
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') json['minLength'] = check.value;
+      if (check.kind === 'max') json['maxLength'] = check.value;
+      if (check.kind === 'url') json['format'] = 'uri';
+      if (check.kind === 'datetime') json['format'] = 'date-time';
+    }
+    return withDescription(json);
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') json['minimum'] = check.value;
+      if (check.kind === 'max') json['maximum'] = check.value;
+    }
+    return withDescription(json);
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return withDescription({ type: 'boolean' });
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return withDescription({ type: 'array', items: zodToJsonSchema(schema.element) });
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return withDescription({ type: 'string', enum: [...schema.options] });
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return withDescription({ const: schema.value });
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return withDescription({ anyOf: (schema.options as z.ZodTypeAny[]).map(option => zodToJsonSchema(option)) });
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return withDescription({ type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) });
+  }
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return withDescription(zodToJsonSchema(schema.unwrap()));
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return withDescription({ ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() });
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return withDescription(zodToJsonSchema(schema.innerType()));
+  }
+
+  if (schema instanceof z.ZodLazy) {
+    return withDescription(zodToJsonSchema(schema.schema));
+  }
+
+  // z.any(), z.unknown() and anything not covered above accept any value
+  return withDescription({});
+}
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { BacklogBackend } from '../backend.js';
+import { EXPORT_FORMATS, exportProject } from '../backlog-export.js';
+import { buildToolSet, defineTool } from './define-tool.js';
+
+export function setupExportTools(client: BacklogBackend) {
+  return buildToolSet([
+    defineTool({
+      name: 'export_project',
+      description: 'Export a project\'s actors, stories and feature hierarchy as Markdown (headings and checklists), CSV (one row per feature with its parent path), normalized JSON, Jira CSV (stories as epics, features as tasks and sub-tasks) or GitHub Issues JSON (one issue per story with a feature task list)',
+      schema: z.object({
+        project: z.string().min(1, 'project is required').describe('Project identifier'),
+        format: z.enum(EXPORT_FORMATS).describe('Export format: markdown, csv, json, jira-csv (Jira CSV import) or github-json (GitHub issues)')
+      }),
+      handler: async (args) => exportProject(await client.getProjectTree(args.project), args.format)
+    })
+  ]);
+}
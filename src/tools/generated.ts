@@ -0,0 +1,34 @@
+import { API_OPERATIONS, ApiOperation, HyperManagerOperations, OperationId } from '../generated/hypermanager-api.js';
+import { buildToolSet, defineTool } from './define-tool.js';
+
+// swagger.yml declares every response as a string: decode JSON bodies, keep text as is
+function responseData(data: unknown): unknown {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * A default tool per swagger.yml operation, taking the path parameters and
+ * the request `body` as arguments and returning the upstream response.
+ * Hand-written tools replace the default of the operation they wrap (see
+ * ToolRegistry.registerDefaults).
+ */
+export function setupGeneratedTools(operations: HyperManagerOperations) {
+  return buildToolSet((Object.values(API_OPERATIONS) as ApiOperation[]).map(operation => defineTool({
+    name: operation.tool,
+    description: `${operation.description} (${operation.method} ${operation.path})`,
+    operationId: operation.operationId,
+    schema: operation.input,
+    handler: async (args) => {
+      const pathParams = Object.fromEntries(operation.pathParams.map(name => [name, String(args[name])]));
+      const response = await operations.request(operation.operationId as OperationId, pathParams, args['body']);
+      return responseData(response.data);
+    }
+  })));
+}
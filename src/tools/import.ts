@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { BACKLOG_FORMATS, BacklogDocumentError, DEFAULT_IMPORT_ACTOR, importBacklog, ImportTarget, parseBacklogDocument } from '../backlog-import.js';
+import { Actor, Diagram, Feature, ProjectTree, Story } from '../types.js';
+import { buildToolSet, defineTool, ToolArgumentsError, ToolContext } from './define-tool.js';
+
+/**
+ * Reads and creations made through the dispatcher, so each one is checked,
+ * rate limited, audited and journaled like a direct tool call
+ */
+function dispatchedTarget(context: ToolContext): ImportTarget {
+  return {
+    getProjectTree: async project => await context.callTool('get_project_tree', { project }) as ProjectTree,
+    listDiagrams: async () => await context.callTool('list_diagrams', {}) as Diagram[],
+    addActor: async (project, data) => await context.callTool('add_actor', { project, data }) as Actor,
+    addStoryToActor: async (project, name, data) => await context.callTool('add_story_to_actor', { project, name, data }) as Story,
+    addFeatureToStory: async (story, data) => await context.callTool('add_feature_to_story', { story, data }) as Feature,
+    addChildFeature: async (parent, data) => await context.callTool('add_child_feature', { parent, data }) as Feature,
+    createDiagram: async data => await context.callTool('create_diagram', data) as Diagram
+  };
+}
+
+export function setupImportTools() {
+  return buildToolSet([
+    defineTool({
+      name: 'import_backlog',
+      description: 'Import a backlog document (YAML, JSON or Markdown outline) describing actors, stories, nested features and diagrams, or a Jira CSV or GitHub Issues JSON export. Only what the project does not have yet is created; entities are matched by name.',
+      schema: z.object({
+        document: z.string().min(1, 'document is required').describe('Content of the backlog document'),
+        format: z.enum(BACKLOG_FORMATS).describe('Format of the document: yaml, json, markdown, jira-csv (Jira CSV export) or github-json (array of GitHub issues)'),
+        project: z.string().optional().describe('Project code to import into, instead of the one named in the document (required for jira-csv and github-json)'),
+        defaultActor: z.string().optional().describe(`Actor for Jira issues without a component and GitHub issues without an actor label (optional, default "${DEFAULT_IMPORT_ACTOR}")`),
+        dryRun: z.boolean().optional().describe('Only report what would be created (optional)')
+      }),
+      handler: async (args, context) => {
+        let document;
+        try {
+          document = parseBacklogDocument(args.document, args.format, {
+            ...(args.project && { project: args.project }),
+            ...(args.defaultActor && { defaultActor: args.defaultActor })
+          });
+        } catch (error) {
+          if (error instanceof BacklogDocumentError) {
+            throw new ToolArgumentsError('import_backlog', error.issues.map(issue => ({ path: 'document', message: issue })));
+          }
+          throw error;
+        }
+        return await importBacklog(dispatchedTarget(context), document, { dryRun: args.dryRun ?? false });
+      }
+    })
+  ]);
+}
@@ -0,0 +1,37 @@
+import { BacklogBackend } from '../backend.js';
+import { AuditLog } from '../audit-log.js';
+import { ChangeJournal } from '../change-journal.js';
+import { HyperManagerOperations } from '../generated/hypermanager-api.js';
+import { ToolRegistry } from './registry.js';
+import { setupDiagramTools } from './diagrams.js';
+import { setupProjectTools } from './projects.js';
+import { setupStoryTools } from './stories.js';
+import { setupFeatureTools } from './features.js';
+import { setupActorTools } from './actors.js';
+import { setupAuditTools } from './audit.js';
+import { setupChangeTools } from './changes.js';
+import { setupBatchTools } from './batch.js';
+import { setupImportTools } from './import.js';
+import { setupExportTools } from './export.js';
+import { setupGeneratedTools } from './generated.js';
+
+// swagger.yml operations no hand-written tool wraps get a generated default tool, sent through `operations`
+export function createToolRegistry(
+  client: BacklogBackend,
+  auditLog: AuditLog,
+  changeJournal: ChangeJournal,
+  operations: HyperManagerOperations
+): ToolRegistry {
+  return new ToolRegistry()
+    .register(setupDiagramTools(client))
+    .register(setupProjectTools(client))
+    .register(setupStoryTools(client))
+    .register(setupFeatureTools(client))
+    .register(setupActorTools(client))
+    .register(setupAuditTools(auditLog))
+    .register(setupChangeTools(changeJournal))
+    .register(setupBatchTools())
+    .register(setupImportTools())
+    .register(setupExportTools(client))
+    .registerDefaults(setupGeneratedTools(operations));
+}
@@ -1,79 +1,32 @@
-import { HyperManagerAPIClient } from '../api-client.js';
+import { z } from 'zod';
+import { BacklogBackend } from '../backend.js';
 import { ProjectCreateSchema } from '../types.js';
+import { buildToolSet, defineTool, EmptyArgsSchema } from './define-tool.js';
 
-export function setupProjectTools(client: HyperManagerAPIClient) {
-  return {
-    tools: [
-      {
-        name: 'create_project',
-        description: 'Create a new project in the backlog system',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            name: {
-              type: 'string',
-              description: 'Name of the project'
-            },
-            code: {
-              type: 'string',
-              description: 'Project code identifier'
-            },
-            clientName: {
-              type: 'string',
-              description: 'Name of the client (optional)'
-            },
-            description: {
-              type: 'string',
-              description: 'Project description (optional)'
-            }
-          },
-          required: ['name', 'code']
-        }
-      },
-      {
-        name: 'list_projects',
-        description: 'Get a list of all projects',
-        inputSchema: {
-          type: 'object',
-          properties: {}
-        }
-      },
-      {
-        name: 'get_project_tree',
-        description: 'Get the component tree structure of a project',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            project: {
-              type: 'string',
-              description: 'Project identifier'
-            }
-          },
-          required: ['project']
-        }
-      }
-    ],
-    handlers: {
-      create_project: async (args: any) => {
-        const validatedArgs = ProjectCreateSchema.parse(args);
-        // Filter out undefined values to satisfy exactOptionalPropertyTypes
-        const cleanedArgs = {
-          name: validatedArgs.name,
-          code: validatedArgs.code,
-          ...(validatedArgs.clientName !== undefined && { clientName: validatedArgs.clientName }),
-          ...(validatedArgs.description !== undefined && { description: validatedArgs.description })
-        };
-        return await client.createProject(cleanedArgs);
-      },
-      list_projects: async () => {
-        return await client.listProjects();
-      },
-      get_project_tree: async (args: any) => {
-        if (!args.project || typeof args.project !== 'string') {
-          throw new Error('project is required and must be a string');
-        }
-        return await client.getProjectTree(args.project);
-      }
-    }
-  };
+export function setupProjectTools(client: BacklogBackend) {
+  return buildToolSet([
+    defineTool({
+      name: 'create_project',
+      operationId: 'add-project',
+      description: 'Create a new project in the backlog system',
+      schema: ProjectCreateSchema,
+      handler: async (args) => await client.createProject(args)
+    }),
+    defineTool({
+      name: 'list_projects',
+      operationId: 'get-list-projects',
+      description: 'Get a list of all projects',
+      schema: EmptyArgsSchema,
+      handler: async () => await client.listProjects()
+    }),
+    defineTool({
+      name: 'get_project_tree',
+      operationId: 'get-projects-tree',
+      description: 'Get the component tree structure of a project',
+      schema: z.object({
+        project: z.string().min(1, 'project is required').describe('Project identifier')
+      }),
+      handler: async (args) => await client.getProjectTree(args.project)
+    })
+  ]);
 }
@@ -0,0 +1,96 @@
+import { MCPTool, ToolArgumentsError, ToolHandler, ToolSet } from './define-tool.js';
+import { toolOperation } from '../handlers/access-control.js';
+
+const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  description: 'Validate the arguments and return the upstream request that would be sent, without sending it (optional)'
+};
+
+/**
+ * Advertise the `dryRun` flag on a write tool and reject non-boolean values,
+ * which the tool schema would otherwise strip, turning a preview into a change
+ */
+function withDryRunFlag(tool: MCPTool, handler: ToolHandler): [MCPTool, ToolHandler] {
+  const properties = (tool.inputSchema['properties'] ?? {}) as Record<string, unknown>;
+  return [
+    { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...properties, dryRun: DRY_RUN_PROPERTY } } },
+    async (args, context) => {
+      const dryRun = (args as { dryRun?: unknown } | undefined)?.dryRun;
+      if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+        throw new ToolArgumentsError(tool.name, [{ path: 'dryRun', message: 'Expected boolean' }]);
+      }
+      return await handler(args, context);
+    }
+  ];
+}
+
+/**
+ * Single source of truth for the tools exposed by the server. Both the SDK
+ * `Server` (stdio) and the Express transports dispatch through it.
+ */
+export class ToolRegistry {
+  private tools: Map<string, MCPTool> = new Map();
+  private handlers: Map<string, ToolHandler> = new Map();
+  // swagger.yml operations wrapped by a registered tool
+  private operations: Set<string> = new Set();
+
+  // Write tools (see TOOL_PERMISSIONS) also accept `dryRun`, handled by the dispatcher
+  register(toolSet: ToolSet): this {
+    for (const definedTool of toolSet.tools) {
+      const definedHandler = toolSet.handlers[definedTool.name];
+      if (!definedHandler) {
+        throw new Error(`Tool ${definedTool.name} has no handler`);
+      }
+      if (this.tools.has(definedTool.name)) {
+        throw new Error(`Tool ${definedTool.name} is already registered`);
+      }
+      const [tool, handler] = toolOperation(definedTool.name) === 'write'
+        ? withDryRunFlag(definedTool, definedHandler)
+        : [definedTool, definedHandler];
+      this.tools.set(tool.name, tool);
+      this.handlers.set(tool.name, handler);
+      const operationId = toolSet.operations[tool.name];
+      if (operationId) {
+        this.operations.add(operationId);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Register the generated default tools, except those a hand-written tool
+   * already covers: same name, or same swagger operation. Call it after
+   * registering every hand-written tool.
+   */
+  registerDefaults(toolSet: ToolSet): this {
+    const missing = toolSet.tools.filter(tool => {
+      const operationId = toolSet.operations[tool.name];
+      return !this.tools.has(tool.name) && !(operationId && this.operations.has(operationId));
+    });
+    return this.register({
+      tools: missing,
+      handlers: toolSet.handlers,
+      operations: toolSet.operations
+    });
+  }
+
+  list(): MCPTool[] {
+    return Array.from(this.tools.values());
+  }
+
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  getHandler(name: string): ToolHandler | undefined {
+    return this.handlers.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+}
@@ -1,52 +1,27 @@
-import { HyperManagerAPIClient } from '../api-client.js';
+import { z } from 'zod';
+import { BacklogBackend } from '../backend.js';
 import { StoryUpdateSchema } from '../types.js';
+import { buildToolSet, defineTool } from './define-tool.js';
 
-export function setupStoryTools(client: HyperManagerAPIClient) {
-  return {
-    tools: [
-      {
-        name: 'get_story_tree',
-        description: 'Get the tree structure of a story by its ID',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            storyId: {
-              type: 'string',
-              description: 'ID of the story'
-            }
-          },
-          required: ['storyId']
-        }
-      },
-      {
-        name: 'update_story',
-        description: 'Update a story with new data',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            data: {
-              type: 'object',
-              description: 'Story data to update (flexible object structure)'
-            }
-          },
-          required: ['data']
-        }
-      }
-    ],
-    handlers: {
-      get_story_tree: async (args: any) => {
-        if (!args.storyId || typeof args.storyId !== 'string') {
-          throw new Error('storyId is required and must be a string');
-        }
-        return await client.getStoryTree(args.storyId);
-      },
-      update_story: async (args: any) => {
-        if (!args.data || typeof args.data !== 'object') {
-          throw new Error('data is required and must be an object');
-        }
-        const validatedArgs = StoryUpdateSchema.parse(args.data);
-        return await client.updateStory(validatedArgs);
-      }
-    }
-  };
+export function setupStoryTools(client: BacklogBackend) {
+  return buildToolSet([
+    defineTool({
+      name: 'get_story_tree',
+      operationId: 'get-story-tree',
+      description: 'Get the tree structure of a story by its ID',
+      schema: z.object({
+        storyId: z.string().min(1, 'storyId is required').describe('ID of the story')
+      }),
+      handler: async (args) => await client.getStoryTree(args.storyId)
+    }),
+    defineTool({
+      name: 'update_story',
+      operationId: 'update-story',
+      description: 'Update a story with new data',
+      schema: z.object({
+        data: StoryUpdateSchema.describe('Story data to update')
+      }),
+      handler: async (args) => await client.updateStory(args.data)
+    })
+  ]);
 }
@@ -1,6 +1,6 @@
 import express from 'express';
 import winston from 'winston';
-import { handleMCPMessage, MCPMessageHandlerDependencies } from '../handlers/mcp-message.js';
+import { handleMCPMessage, MCPMessageHandlerDependencies, toJSONRPCError } from '../handlers/mcp-message.js';
 
 export function setupHttpStreamTransport(
   router: express.Router,
@@ -60,7 +60,9 @@ export function setupHttpStreamTransport(
               const message = JSON.parse(trimmedLine);
               
               try {
-                const response = await handleMCPMessage(message, authToken, `${requestId}-${messageCount}`, deps);
+                const response = await handleMCPMessage(message, authToken, `${requestId}-${messageCount}`, deps, notification => {
+                  res.write(JSON.stringify({ jsonrpc: '2.0', ...notification }) + '\n');
+                });
                 
                 // Send response as JSON line
                 const responseJson = JSON.stringify(response) + '\n';
@@ -80,11 +82,7 @@ export function setupHttpStreamTransport(
                 });
                 
                 const errorResponse = JSON.stringify({
-                  error: {
-                    code: -32603,
-                    message: 'Internal error',
-                    data: handlerError instanceof Error ? handlerError.message : 'Unknown error'
-                  }
+                  error: toJSONRPCError(handlerError)
                 }) + '\n';
                 
                 res.write(errorResponse);
@@ -1,16 +1,23 @@
 import express from 'express';
 import winston from 'winston';
+import { z } from 'zod';
 import { SSEManager } from '../sse-manager.js';
+import { MCPSessionManager } from '../session-manager.js';
 import { AuthManager } from '../auth.js';
+import { RateLimitManager } from '../rate-limiter.js';
+import { AuditLog, MAX_AUDIT_QUERY_LIMIT } from '../audit-log.js';
+import { AuditQuerySchema, toAuditQuery } from '../tools/audit.js';
 import { createAuthMiddleware } from '../middleware/auth.js';
 import { MCPMessageHandlerDependencies } from '../handlers/mcp-message.js';
-import { setupHttpPostTransport } from './http-post.js';
+import { setupStreamableHttpTransport } from './streamable-http.js';
 import { setupSSETransport } from './sse.js';
 import { setupHttpStreamTransport } from './http-stream.js';
 
 export interface TransportConfig {
   authManager: AuthManager;
   sseManager: SSEManager;
+  sessionManager: MCPSessionManager;
+  rateLimiter: RateLimitManager;
   logger: winston.Logger;
   deps: MCPMessageHandlerDependencies;
 }
@@ -19,20 +26,20 @@ export function setupAllTransports(
   router: express.Router,
   config: TransportConfig
 ) {
-  const { authManager, sseManager, logger, deps } = config;
+  const { authManager, sseManager, sessionManager, rateLimiter, logger, deps } = config;
   
-  // Create auth middleware
-  const authMiddleware = createAuthMiddleware(authManager, logger);
+  // Create auth middleware, which also applies the per-token request budget
+  const authMiddleware = createAuthMiddleware(authManager, logger, rateLimiter);
 
   // Setup all transport protocols
-  setupHttpPostTransport(router, authMiddleware, deps);
+  setupStreamableHttpTransport(router, authMiddleware, sessionManager, deps);
   setupSSETransport(router, authMiddleware, sseManager, deps);
   setupHttpStreamTransport(router, authMiddleware, deps);
 
   logger.info('All MCP transports configured', {
-    transports: ['HTTP POST', 'Server-Sent Events', 'HTTP Streaming'],
+    transports: ['Streamable HTTP', 'Server-Sent Events', 'HTTP Streaming'],
     endpoints: [
-      '/mcp (GET/POST)',
+      '/mcp (GET/POST/DELETE)',
       '/mcp/sse (GET)',
       '/mcp/sse/send (POST)',
       '/mcp/sse/broadcast (POST)',
@@ -46,9 +53,11 @@ export function setupAllTransports(
 export function setupAdminEndpoints(
   router: express.Router,
   authManager: AuthManager,
+  rateLimiter: RateLimitManager,
+  auditLog: AuditLog,
   logger: winston.Logger
 ) {
-  const authMiddleware = createAuthMiddleware(authManager, logger);
+  const authMiddleware = createAuthMiddleware(authManager, logger, rateLimiter);
 
   // Admin endpoints (master token only)
   router.post('/admin/generate-token', authMiddleware, (req, res): void => {
@@ -59,10 +68,21 @@ export function setupAdminEndpoints(
       return;
     }
 
-    const { type, expiresIn, description } = req.body;
+    // `permissions` (custom tokens) and `projects` narrow the token, `rateLimits` overrides its type's limits.
+    // `upstreamApiKey` (stored encrypted) or `upstreamKeyRef` (a HYPERMANAGER_API_KEYS name) picks its HyperManager key
+    const { type, expiresIn, description, permissions, projects, rateLimits, upstreamApiKey, upstreamKeyRef } = req.body;
     
     try {
-      const newToken = authManager.generateToken(type, expiresIn, description);
+      if (upstreamApiKey && upstreamKeyRef) {
+        throw new Error('Use either upstreamApiKey or upstreamKeyRef, not both');
+      }
+      const newToken = authManager.generateToken(type, expiresIn, description, {
+        ...(permissions && { permissions }),
+        ...(projects && { projects }),
+        ...(rateLimits && { rateLimits }),
+        ...(upstreamApiKey && { upstream: { apiKey: upstreamApiKey } }),
+        ...(upstreamKeyRef && { upstream: { apiKeyRef: upstreamKeyRef } })
+      });
       res.json({ token: newToken });
     } catch (error) {
       res.status(400).json({ 
@@ -79,8 +99,13 @@ export function setupAdminEndpoints(
       return;
     }
 
-    const { token } = req.body;
-    const revoked = authManager.revokeToken(token);
+    // Either the raw token or its ID (as shown by /admin/tokens)
+    const { token, tokenId } = req.body;
+    if (!token && !tokenId) {
+      res.status(400).json({ error: 'token or tokenId is required' });
+      return;
+    }
+    const revoked = authManager.revokeToken(token || tokenId);
     
     res.json({ revoked });
   });
@@ -97,11 +122,71 @@ export function setupAdminEndpoints(
     res.json({ tokens });
   });
 
+  // Current rate limit usage of every active token
+  router.get('/admin/usage', authMiddleware, (req, res): void => {
+    const authToken = (req as any).authToken;
+    
+    if (authToken.type !== 'master') {
+      res.status(403).json({ error: 'Master token required' });
+      return;
+    }
+
+    res.json({ usage: rateLimiter.listUsage(authManager.listTokens()) });
+  });
+
+  router.get('/admin/usage/:tokenId', authMiddleware, (req, res): void => {
+    const authToken = (req as any).authToken;
+    
+    if (authToken.type !== 'master') {
+      res.status(403).json({ error: 'Master token required' });
+      return;
+    }
+
+    const token = authManager.listTokens().find(candidate => candidate.id === req.params['tokenId']);
+    if (!token) {
+      res.status(404).json({ error: 'Unknown or inactive token' });
+      return;
+    }
+    res.json({ usage: rateLimiter.getUsage(token) });
+  });
+
+  // Mutating tool calls, newest first; same filters as the query_audit_log tool
+  router.get('/admin/audit', authMiddleware, async (req, res): Promise<void> => {
+    const authToken = (req as any).authToken;
+    
+    if (authToken.type !== 'master') {
+      res.status(403).json({ error: 'Master token required' });
+      return;
+    }
+
+    const parsed = AuditQuerySchema
+      .extend({ limit: z.coerce.number().int().min(1).max(MAX_AUDIT_QUERY_LIMIT).optional() })
+      .safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid audit query', issues: parsed.error.issues });
+      return;
+    }
+
+    try {
+      const entries = await auditLog.query(toAuditQuery(parsed.data));
+      res.json({ entries });
+    } catch (error) {
+      logger.error('Audit Query Failed', {
+        requestId: (req as any).requestId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      res.status(500).json({ error: 'Audit log could not be read' });
+    }
+  });
+
   logger.info('Admin endpoints configured', {
     endpoints: [
       '/admin/generate-token (POST)',
       '/admin/revoke-token (POST)',
-      '/admin/tokens (GET)'
+      '/admin/tokens (GET)',
+      '/admin/usage (GET)',
+      '/admin/usage/:tokenId (GET)',
+      '/admin/audit (GET)'
     ]
   });
 }
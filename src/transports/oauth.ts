@@ -0,0 +1,299 @@
+import express from 'express';
+import winston from 'winston';
+import { AuthManager } from '../auth.js';
+import { SERVER_INFO } from '../handlers/mcp-message.js';
+import {
+  AuthorizationRequest,
+  ClientAuthMethod,
+  OAUTH_GRANT_TYPES,
+  OAUTH_SCOPES,
+  OAuthError,
+  OAuthManager,
+  publicBaseUrl
+} from '../oauth.js';
+
+const SCOPE_LABELS: Record<string, string> = {
+  readonly: 'Read-only: read diagrams, projects, stories and features',
+  team: 'Team: read and change the backlog',
+  master: 'Master: everything, including token administration'
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function sendOAuthError(res: express.Response, error: unknown, logger: winston.Logger, requestId: string): void {
+  if (error instanceof OAuthError) {
+    logger.warn('OAuth Request Rejected', { requestId, error: error.code, description: error.message });
+    res.status(error.status).json({ error: error.code, error_description: error.message });
+    return;
+  }
+  logger.error('OAuth Request Failed', {
+    requestId,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+  res.status(500).json({ error: 'server_error', error_description: 'Internal error' });
+}
+
+function redirectWith(res: express.Response, redirectUri: string, params: Record<string, string | undefined>): void {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value);
+    }
+  }
+  res.redirect(302, url.toString());
+}
+
+/**
+ * Consent page: the user proves who they are with an existing token and
+ * picks the access level to grant, capped by that token's own permissions.
+ */
+function renderConsentPage(res: express.Response, request: AuthorizationRequest, error?: string): void {
+  const clientName = escapeHtml(request.client.clientName || request.client.clientId);
+  const selected = request.requestedType || 'readonly';
+  const hidden = {
+    client_id: request.client.clientId,
+    // Only repeated when the client sent it, so the token request check still knows
+    redirect_uri: request.redirectUriGiven ? request.redirectUri : undefined,
+    response_type: 'code',
+    code_challenge: request.codeChallenge,
+    code_challenge_method: 'S256',
+    scope: selected,
+    state: request.state
+  };
+
+  // Browsers apply form-action to the redirect that follows the form post
+  const redirect = new URL(request.redirectUri);
+  const redirectSource = redirect.protocol === 'http:' || redirect.protocol === 'https:' ? redirect.origin : redirect.protocol;
+  res.setHeader('Content-Security-Policy', `default-src 'none'; style-src 'unsafe-inline'; form-action 'self' ${redirectSource}; frame-ancestors 'none'`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  res.status(error ? 400 : 200).type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Authorize ${clientName}</title>
+<style>
+body { font-family: sans-serif; max-width: 32rem; margin: 3rem auto; padding: 0 1rem; }
+label { display: block; margin: 1rem 0 0.25rem; }
+input, select { width: 100%; padding: 0.4rem; box-sizing: border-box; }
+.error { color: #b00020; }
+button { margin: 1.5rem 0.5rem 0 0; padding: 0.5rem 1rem; }
+</style>
+</head>
+<body>
+<h1>Authorize ${clientName}</h1>
+<p><strong>${clientName}</strong> wants to access ${escapeHtml(SERVER_INFO.name)} on your behalf.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+<form method="post">
+${Object.entries(hidden)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value!)}">`)
+    .join('\n')}
+<label for="access">Access to grant</label>
+<select id="access" name="access">
+${OAUTH_SCOPES.map(type => `<option value="${type}"${type === selected ? ' selected' : ''}>${escapeHtml(SCOPE_LABELS[type] || type)}</option>`).join('\n')}
+</select>
+<label for="token">Your access token</label>
+<input id="token" name="token" type="password" autocomplete="off" required>
+<button type="submit" name="decision" value="approve">Approve</button>
+<button type="submit" name="decision" value="deny" formnovalidate>Deny</button>
+</form>
+</body>
+</html>`);
+}
+
+/**
+ * OAuth discovery documents: RFC 8414 authorization server metadata and
+ * RFC 9728 protected resource metadata. Both also answer on the
+ * path-suffixed URLs clients derive from an issuer with a BASE_PATH.
+ */
+export function setupOAuthMetadata(router: express.Router) {
+  router.get(['/.well-known/oauth-authorization-server', '/.well-known/oauth-authorization-server/*'], (req, res) => {
+    const issuer = publicBaseUrl(req);
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/oauth/authorize`,
+      token_endpoint: `${issuer}/oauth/token`,
+      registration_endpoint: `${issuer}/oauth/register`,
+      response_types_supported: ['code'],
+      grant_types_supported: OAUTH_GRANT_TYPES,
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none', 'client_secret_post', 'client_secret_basic'],
+      scopes_supported: OAUTH_SCOPES
+    });
+  });
+
+  router.get(['/.well-known/oauth-protected-resource', '/.well-known/oauth-protected-resource/*'], (req, res) => {
+    const issuer = publicBaseUrl(req);
+    res.json({
+      resource: `${issuer}/mcp`,
+      resource_name: SERVER_INFO.name,
+      authorization_servers: [issuer],
+      bearer_methods_supported: ['header'],
+      scopes_supported: OAUTH_SCOPES
+    });
+  });
+}
+
+/**
+ * Authorization, token and dynamic client registration endpoints
+ */
+export function setupOAuthEndpoints(
+  router: express.Router,
+  oauthManager: OAuthManager,
+  authManager: AuthManager,
+  logger: winston.Logger
+) {
+  // Authorization and token requests are form-encoded
+  const form = express.urlencoded({ extended: false });
+
+  setupOAuthMetadata(router);
+
+  router.post('/oauth/register', (req, res): void => {
+    const requestId = (req as any).requestId;
+    try {
+      const { client, clientSecret } = oauthManager.registerClient(req.body);
+      res.status(201).json({
+        client_id: client.clientId,
+        ...(clientSecret && { client_secret: clientSecret, client_secret_expires_at: 0 }),
+        client_id_issued_at: Math.floor(client.createdAt.getTime() / 1000),
+        ...(client.clientName && { client_name: client.clientName }),
+        redirect_uris: client.redirectUris,
+        grant_types: client.grantTypes,
+        response_types: ['code'],
+        token_endpoint_auth_method: client.tokenEndpointAuthMethod
+      });
+    } catch (error) {
+      sendOAuthError(res, error, logger, requestId);
+    }
+  });
+
+  // Resolve and validate the authorization request for both GET and POST
+  const authorizationRequest = (req: express.Request, res: express.Response): AuthorizationRequest | undefined => {
+    const params: Record<string, unknown> = req.method === 'GET' ? req.query : req.body;
+    const requestId = (req as any).requestId;
+
+    let redirect;
+    try {
+      redirect = oauthManager.resolveRedirect(params['client_id'], params['redirect_uri']);
+    } catch (error) {
+      // Never redirect to an unverified URI
+      sendOAuthError(res, error, logger, requestId);
+      return undefined;
+    }
+
+    try {
+      return oauthManager.validateAuthorizationRequest(redirect, params);
+    } catch (error) {
+      if (!(error instanceof OAuthError)) {
+        throw error;
+      }
+      logger.warn('OAuth Authorization Request Rejected', { requestId, error: error.code, description: error.message });
+      redirectWith(res, redirect.redirectUri, {
+        error: error.code,
+        error_description: error.message,
+        state: typeof params['state'] === 'string' ? params['state'] : undefined
+      });
+      return undefined;
+    }
+  };
+
+  router.get('/oauth/authorize', (req, res): void => {
+    const request = authorizationRequest(req, res);
+    if (request) {
+      renderConsentPage(res, request);
+    }
+  });
+
+  router.post('/oauth/authorize', form, (req, res): void => {
+    const request = authorizationRequest(req, res);
+    if (!request) {
+      return;
+    }
+
+    if (req.body.decision !== 'approve') {
+      logger.info('OAuth Authorization Denied By User', { requestId: (req as any).requestId, clientId: request.client.clientId });
+      redirectWith(res, request.redirectUri, {
+        error: 'access_denied',
+        error_description: 'The user denied the request',
+        state: request.state
+      });
+      return;
+    }
+
+    const approver = typeof req.body.token === 'string' ? authManager.verifyToken(req.body.token.trim()) : null;
+    if (!approver) {
+      renderConsentPage(res, request, 'The access token is invalid, expired or revoked.');
+      return;
+    }
+
+    const type = OAUTH_SCOPES.find(scope => scope === req.body.access);
+    if (!type || !oauthManager.grantableTypes(approver).includes(type)) {
+      const grantable = oauthManager.grantableTypes(approver);
+      renderConsentPage(res, request, grantable.length > 0
+        ? `This token can only grant: ${grantable.join(', ')}.`
+        : 'This token cannot grant access to other clients.');
+      return;
+    }
+
+    const code = oauthManager.createAuthorizationCode(request, approver, type);
+    redirectWith(res, request.redirectUri, { code, state: request.state });
+  });
+
+  router.post('/oauth/token', form, (req, res): void => {
+    const requestId = (req as any).requestId;
+    const params: Record<string, unknown> = req.body || {};
+    res.setHeader('Cache-Control', 'no-store');
+
+    try {
+      // client_secret_basic carries the credentials in the Authorization header
+      let clientId = params['client_id'];
+      let clientSecret = params['client_secret'];
+      let method: ClientAuthMethod = clientSecret !== undefined ? 'client_secret_post' : 'none';
+      const basic = req.headers.authorization?.match(/^Basic\s+(.+)$/i);
+      if (basic) {
+        const [id, secret] = Buffer.from(basic[1]!, 'base64').toString('utf8').split(':');
+        clientId = decodeURIComponent(id || '');
+        clientSecret = decodeURIComponent(secret || '');
+        method = 'client_secret_basic';
+      }
+
+      const client = oauthManager.authenticateClient(clientId, clientSecret, method);
+
+      const grantType = params['grant_type'];
+      if (typeof grantType !== 'string' || !OAUTH_GRANT_TYPES.includes(grantType)) {
+        throw new OAuthError('unsupported_grant_type', 'grant_type must be authorization_code or refresh_token');
+      }
+      if (!client.grantTypes.includes(grantType)) {
+        throw new OAuthError('unauthorized_client', `Client is not registered for the ${grantType} grant`);
+      }
+
+      const tokens = grantType === 'authorization_code'
+        ? oauthManager.exchangeAuthorizationCode(client, params)
+        : oauthManager.refresh(client, params);
+      res.json(tokens);
+    } catch (error) {
+      if (error instanceof OAuthError && error.status === 401 && req.headers.authorization?.match(/^Basic/i)) {
+        res.setHeader('WWW-Authenticate', 'Basic realm="oauth"');
+      }
+      sendOAuthError(res, error, logger, requestId);
+    }
+  });
+
+  logger.info('OAuth endpoints configured', {
+    endpoints: [
+      '/.well-known/oauth-authorization-server (GET)',
+      '/.well-known/oauth-protected-resource (GET)',
+      '/oauth/register (POST)',
+      '/oauth/authorize (GET/POST)',
+      '/oauth/token (POST)'
+    ]
+  });
+}
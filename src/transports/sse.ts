@@ -1,7 +1,7 @@
 import express from 'express';
 import winston from 'winston';
 import { SSEManager } from '../sse-manager.js';
-import { handleMCPMessage, MCPMessageHandlerDependencies } from '../handlers/mcp-message.js';
+import { handleMCPMessage, MCPMessageHandlerDependencies, toJSONRPCError } from '../handlers/mcp-message.js';
 import { MCPSSEMessage } from '../types.js';
 
 export function setupSSETransport(
@@ -32,10 +32,24 @@ export function setupSSETransport(
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Authorization, Cache-Control',
+      'Access-Control-Allow-Headers': 'Authorization, Cache-Control, Last-Event-ID',
       'Access-Control-Allow-Methods': 'GET, OPTIONS'
     });
 
+    // Reconnecting clients send the ID of the last event they received
+    const lastEventId = req.header('last-event-id');
+    if (lastEventId) {
+      const resumedId = sseManager.resumeConnection(res, authToken, lastEventId);
+      if (resumedId) {
+        logger.info('SSE Connection Resumed', {
+          requestId,
+          connectionId: resumedId,
+          tokenId: authToken.id
+        });
+        return;
+      }
+    }
+
     // Add connection to SSE manager
     const connectionId = sseManager.addConnection(res, authToken, {
       userAgent: req.headers['user-agent'],
@@ -103,7 +117,15 @@ export function setupSSETransport(
       if (message.method) {
         // This is an MCP method call
         try {
-          const response = await handleMCPMessage(message, authToken, requestId, deps);
+          const response = await handleMCPMessage(message, authToken, requestId, deps, notification => {
+            sseManager.sendToConnection(connectionId, {
+              type: 'mcp-notification',
+              requestId,
+              method: notification.method,
+              result: notification.params,
+              timestamp: new Date().toISOString()
+            });
+          });
           
           const sseMessage: MCPSSEMessage = {
             type: 'mcp-response',
@@ -125,10 +147,7 @@ export function setupSSETransport(
             type: 'mcp-error',
             requestId,
             method: message.method,
-            error: {
-              message: error instanceof Error ? error.message : 'Unknown error',
-              code: -32603
-            },
+            error: toJSONRPCError(error),
             timestamp: new Date().toISOString()
           };
 
@@ -0,0 +1,213 @@
+import express from 'express';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ServerErrorCode } from '../error-codes.js';
+import { MCPMessageHandlerDependencies, negotiateProtocolVersion } from '../handlers/mcp-message.js';
+import { isJSONRPCRequest, JSONRPC_VERSION, jsonRPCError, processJSONRPCMessage, processJSONRPCPayload, retryAfterSeconds } from '../handlers/jsonrpc.js';
+import { MCPSession, MCPSessionManager, STANDALONE_STREAM_ID } from '../session-manager.js';
+import { formatSSE, parseLastEventId } from '../sse-events.js';
+
+export const SESSION_HEADER = 'Mcp-Session-Id';
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive'
+};
+
+function acceptsEventStream(req: express.Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+/**
+ * MCP Streamable HTTP transport (protocol revision 2025-03-26) on a single
+ * `/mcp` endpoint:
+ * - POST carries JSON-RPC messages and answers with JSON or an SSE stream
+ * - GET with `Accept: text/event-stream` opens the server-to-client stream
+ * - DELETE ends the session named by `Mcp-Session-Id`
+ *
+ * A session is created on `initialize`. Requests without a session header
+ * are still served statelessly, so plain JSON-RPC clients keep working.
+ */
+export function setupStreamableHttpTransport(
+  router: express.Router,
+  authMiddleware: express.RequestHandler,
+  sessionManager: MCPSessionManager,
+  deps: MCPMessageHandlerDependencies
+) {
+  const { logger } = deps;
+
+  // Resolve Mcp-Session-Id into (req as any).mcpSession
+  const sessionMiddleware = (required: boolean): express.RequestHandler => (req, res, next) => {
+    const sessionId = req.header(SESSION_HEADER);
+
+    if (!sessionId) {
+      if (required) {
+        res.status(400).json(jsonRPCError(null, {
+          code: ErrorCode.InvalidRequest,
+          message: `Bad Request: ${SESSION_HEADER} header is required`
+        }));
+        return;
+      }
+      next();
+      return;
+    }
+
+    const session = sessionManager.getSession(sessionId, (req as any).authToken);
+    if (!session) {
+      logger.warn('MCP Session Not Found', {
+        requestId: (req as any).requestId,
+        sessionId
+      });
+      // 404 tells the client to start over with a new initialize
+      res.status(404).json(jsonRPCError(null, {
+        code: ServerErrorCode.SessionNotFound,
+        message: 'Session not found'
+      }));
+      return;
+    }
+
+    (req as any).mcpSession = session;
+    next();
+  };
+
+  // MCP endpoint info for plain GET requests (browsers, health probes)
+  router.get('/mcp', (req, res, next) => {
+    if (acceptsEventStream(req)) {
+      next('route');
+      return;
+    }
+
+    const basePath = process.env['BASE_PATH'] || '';
+    res.json({
+      message: 'MCP Server Endpoint',
+      description: 'MCP Streamable HTTP endpoint (protocol revision 2025-03-26)',
+      usage: {
+        method: 'POST',
+        contentType: 'application/json',
+        protocol: 'JSON-RPC 2.0 ({"jsonrpc": "2.0", "id": 1, "method": "...", "params": {...}}); batches and notifications supported',
+        authentication: 'Bearer token required in Authorization header',
+        sessions: `Send initialize first and repeat the returned ${SESSION_HEADER} header; GET with Accept: text/event-stream opens the server stream, DELETE ends the session`,
+        endpoints: {
+          'tools/list': 'List available tools',
+          'tools/call': 'Call a specific tool'
+        }
+      },
+      healthCheck: `${basePath}/health`,
+      version: '1.0.0'
+    });
+  });
+
+  // Server-to-client SSE stream, optionally resuming after Last-Event-ID
+  router.get('/mcp', authMiddleware, sessionMiddleware(true), (req, res): void => {
+    const requestId = (req as any).requestId;
+    const session: MCPSession = (req as any).mcpSession;
+    const lastEventId = parseLastEventId(req.headers['last-event-id']);
+
+    res.writeHead(200, SSE_HEADERS);
+
+    if (lastEventId !== undefined) {
+      const { streamId, replayed } = sessionManager.resumeStream(session, lastEventId, res);
+      logger.info('MCP Stream Resumed', { requestId, sessionId: session.id, streamId, lastEventId, replayed });
+    } else {
+      sessionManager.openStream(session, res, STANDALONE_STREAM_ID);
+      logger.info('MCP Stream Opened', { requestId, sessionId: session.id });
+    }
+  });
+
+  router.post('/mcp', authMiddleware, sessionMiddleware(false), async (req, res): Promise<void> => {
+    const requestId = (req as any).requestId;
+    const authToken = (req as any).authToken;
+    let session: MCPSession | undefined = (req as any).mcpSession;
+    const messages: any[] = Array.isArray(req.body) ? req.body : [req.body];
+
+    try {
+      const initialize = messages.find(message => message?.method === 'initialize');
+      if (initialize && !session) {
+        session = sessionManager.createSession(authToken, {
+          protocolVersion: negotiateProtocolVersion(initialize.params?.protocolVersion),
+          ...(initialize.params?.clientInfo && { clientInfo: initialize.params.clientInfo })
+        });
+        res.setHeader(SESSION_HEADER, session.id);
+      }
+
+      // SSE only when the client prefers it and something needs an answer
+      const preferred = req.accepts(['application/json', 'text/event-stream']);
+      if (!preferred) {
+        res.status(406).json(jsonRPCError(null, {
+          code: ErrorCode.InvalidRequest,
+          message: 'Not Acceptable: client must accept application/json or text/event-stream'
+        }));
+        return;
+      }
+
+      if (preferred === 'text/event-stream' && messages.some(isJSONRPCRequest)) {
+        res.writeHead(200, SSE_HEADERS);
+        const streamId = session ? sessionManager.openStream(session, res) : undefined;
+
+        const write = (message: unknown) => {
+          if (session && streamId) {
+            sessionManager.send(session, streamId, message);
+          } else if (!res.writableEnded) {
+            res.write(formatSSE({ event: 'message', data: JSON.stringify(message) }));
+          }
+        };
+
+        // Each response is written as soon as its request completes, after its progress notifications
+        for (const [index, message] of messages.entries()) {
+          const response = await processJSONRPCMessage(
+            message, authToken, messages.length > 1 ? `${requestId}-${index}` : requestId, deps,
+            notification => write({ jsonrpc: JSONRPC_VERSION, ...notification })
+          );
+          if (response) {
+            write(response);
+          }
+        }
+
+        if (session && streamId) {
+          sessionManager.endStream(session, streamId);
+        } else {
+          res.end();
+        }
+        return;
+      }
+
+      const response = await processJSONRPCPayload(req.body, authToken, requestId, deps);
+
+      // Notifications and all-notification batches are acknowledged without a body
+      if (response === null) {
+        res.status(202).end();
+        return;
+      }
+      const retryAfter = retryAfterSeconds(response);
+      if (retryAfter !== undefined) {
+        res.setHeader('Retry-After', retryAfter);
+      }
+      res.json(response);
+    } catch (error) {
+      logger.error('MCP HTTP Request Error', {
+        requestId,
+        sessionId: session?.id,
+        error: error instanceof Error ? {
+          message: error.message,
+          stack: error.stack,
+          name: error.name
+        } : error
+      });
+
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json(jsonRPCError(req.body?.id ?? null, {
+        code: ErrorCode.InternalError,
+        message: 'Internal error'
+      }));
+    }
+  });
+
+  router.delete('/mcp', authMiddleware, sessionMiddleware(true), (req, res): void => {
+    const session: MCPSession = (req as any).mcpSession;
+    sessionManager.deleteSession(session.id);
+    res.status(204).end();
+  });
+}
@@ -1,43 +1,112 @@
 import { z } from 'zod';
+import { EventReplayBuffer } from './sse-events.js';
+import { GENERATED_TOOL_PERMISSIONS } from './generated/hypermanager-api.js';
 
-// API Response types based on the Swagger definition
-export interface DiagramCreateRequest {
-  name: string;
-  definition: string;
-}
+// Domain model returned by the HyperManager API. Schemas pass unknown
+// upstream fields through so nothing is lost when responses are parsed.
+export const ProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  code: z.string(),
+  clientName: z.string().optional(),
+  description: z.string().optional(),
+  creationDate: z.string().optional()
+}).passthrough();
 
-export interface DiagramUpdateRequest {
-  name?: string;
-}
+export const ActorSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  projectId: z.string().optional(),
+  creationDate: z.string().optional()
+}).passthrough();
 
-export interface ProjectCreateRequest {
-  name: string;
-  code: string;
-  clientName?: string;
-  description?: string;
-}
+export const StorySchema = z.object({
+  id: z.string(),
+  action: z.string().optional(),
+  objective: z.string().optional(),
+  scenario: z.string().optional(),
+  actorId: z.string().optional(),
+  projectId: z.string().optional(),
+  creationDate: z.string().optional()
+}).passthrough();
 
-export interface StoryUpdateRequest {
-  [key: string]: any;
-}
+export const FeatureSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  type: z.string().optional(),
+  storyId: z.string().optional(),
+  parentId: z.string().optional(),
+  creationDate: z.string().optional()
+}).passthrough();
 
-export interface FeatureAddRequest {
-  [key: string]: any;
-}
+export const FeatureTypeSchema = z.object({
+  name: z.string(),
+  description: z.string().optional()
+}).passthrough();
 
-export interface ActorAddRequest {
-  [key: string]: any;
-}
+export const DiagramSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  definition: z.string().optional(),
+  creationDate: z.string().optional(),
+  lastUpdate: z.string().optional()
+}).passthrough();
 
-export interface StoryAddRequest {
-  [key: string]: any;
+export type Project = z.infer<typeof ProjectSchema>;
+export type Actor = z.infer<typeof ActorSchema>;
+export type Story = z.infer<typeof StorySchema>;
+export type Feature = z.infer<typeof FeatureSchema>;
+export type FeatureType = z.infer<typeof FeatureTypeSchema>;
+export type Diagram = z.infer<typeof DiagramSchema>;
+
+// Tree views: project → actors → stories → features → child features
+export interface FeatureNode extends Feature {
+  children: FeatureNode[];
 }
 
+export const FeatureNodeSchema: z.ZodType<FeatureNode, z.ZodTypeDef, unknown> = FeatureSchema.extend({
+  children: z.lazy(() => z.array(FeatureNodeSchema)).default([])
+}).passthrough();
+
+export const StoryTreeSchema = StorySchema.extend({
+  features: z.array(FeatureNodeSchema).default([])
+}).passthrough();
+
+export const ActorTreeSchema = ActorSchema.extend({
+  stories: z.array(StoryTreeSchema).default([])
+}).passthrough();
+
+export const ProjectTreeSchema = ProjectSchema.extend({
+  actors: z.array(ActorTreeSchema).default([])
+}).passthrough();
+
+export type StoryTree = z.infer<typeof StoryTreeSchema>;
+export type ActorTree = z.infer<typeof ActorTreeSchema>;
+export type ProjectTree = z.infer<typeof ProjectTreeSchema>;
+
 // Authentication types
+/**
+ * HyperManager credentials a token acts under instead of
+ * HYPERMANAGER_API_KEY: its own API key, encrypted with the server secret
+ * (see upstream-credentials.ts), or the name of a key in
+ * HYPERMANAGER_API_KEYS
+ */
+export type UpstreamCredential =
+  | { encryptedApiKey: string }
+  | { apiKeyRef: string };
+
 export interface AuthToken {
   id: string;
-  type: 'master' | 'team' | 'readonly';
+  type: TokenType;
   permissions: string[];
+  // Project codes the token may touch; unset means every project
+  projects?: string[];
+  // Unset means the server's HYPERMANAGER_API_KEY
+  upstream?: UpstreamCredential;
+  // Overrides of the rate limits of its type
+  rateLimits?: Partial<RateLimits>;
   expiresAt?: Date;
   createdAt: Date;
   lastUsed?: Date;
@@ -46,39 +115,68 @@ export interface AuthToken {
 
 export interface JWTPayload {
   tokenId: string;
-  type: 'master' | 'team' | 'readonly';
+  type: TokenType;
   permissions: string[];
+  projects?: string[];
+  upstream?: UpstreamCredential;
   iat: number;
   exp?: number;
 }
 
-// Validation schemas
+// Request validation schemas. Descriptions end up in the tools' JSON Schema.
 export const DiagramCreateSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  definition: z.string().min(1, 'Definition is required')
+  name: z.string().min(1, 'Name is required').describe('Name of the diagram'),
+  definition: z.string().min(1, 'Definition is required').describe('PlantUML definition of the diagram')
 });
 
 export const DiagramUpdateSchema = z.object({
-  name: z.string().optional()
+  name: z.string().optional().describe('New name for the diagram')
 });
 
 export const ProjectCreateSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  code: z.string().min(1, 'Code is required'),
-  clientName: z.string().optional(),
-  description: z.string().optional()
+  name: z.string().min(1, 'Name is required').describe('Name of the project'),
+  code: z.string().min(1, 'Code is required').describe('Project code identifier'),
+  clientName: z.string().optional().describe('Name of the client (optional)'),
+  description: z.string().optional().describe('Project description (optional)')
+});
+
+export const StoryUpdateSchema = z.object({
+  id: z.string().min(1, 'Story ID is required').describe('ID of the story to update'),
+  action: z.string().optional().describe('What the actor wants to do (optional)'),
+  objective: z.string().optional().describe('Why the actor wants it (optional)'),
+  scenario: z.string().optional().describe('Acceptance scenario (optional)')
 });
 
-export const StoryUpdateSchema = z.object({}).passthrough();
+export const FeatureAddSchema = z.object({
+  name: z.string().min(1, 'Name is required').describe('Name of the feature'),
+  description: z.string().optional().describe('Description of the feature (optional)'),
+  type: z.string().optional().describe('Feature type, see list_feature_types (optional)')
+});
 
-export const FeatureAddSchema = z.object({}).passthrough();
+export const ActorAddSchema = z.object({
+  name: z.string().min(1, 'Name is required').describe('Name of the actor'),
+  description: z.string().optional().describe('Description of the actor (optional)')
+});
 
-export const ActorAddSchema = z.object({}).passthrough();
+export const StoryAddSchema = z.object({
+  action: z.string().min(1, 'Action is required').describe('What the actor wants to do'),
+  objective: z.string().optional().describe('Why the actor wants it (optional)'),
+  scenario: z.string().optional().describe('Acceptance scenario (optional)')
+});
 
-export const StoryAddSchema = z.object({}).passthrough();
+export type DiagramCreateRequest = z.infer<typeof DiagramCreateSchema>;
+export type DiagramUpdateRequest = z.infer<typeof DiagramUpdateSchema>;
+export type ProjectCreateRequest = z.infer<typeof ProjectCreateSchema>;
+export type StoryUpdateRequest = z.infer<typeof StoryUpdateSchema>;
+export type FeatureAddRequest = z.infer<typeof FeatureAddSchema>;
+export type ActorAddRequest = z.infer<typeof ActorAddSchema>;
+export type StoryAddRequest = z.infer<typeof StoryAddSchema>;
 
-// Tool permission mappings
+// Tool permission mappings. Generated default tools get theirs from
+// swagger.yml; entries below take precedence.
 export const TOOL_PERMISSIONS = {
+  ...GENERATED_TOOL_PERMISSIONS,
+
   // Diagram tools
   'create_diagram': ['diagrams:write'],
   'list_diagrams': ['diagrams:read'],
@@ -94,6 +192,7 @@ export const TOOL_PERMISSIONS = {
   'create_project': ['projects:write'],
   'list_projects': ['projects:read'],
   'get_project_tree': ['projects:read'],
+  'export_project': ['projects:read'],
   
   // Story tools
   'get_story_tree': ['stories:read'],
@@ -111,7 +210,18 @@ export const TOOL_PERMISSIONS = {
   'add_story_to_actor': ['actors:write'],
   
   // Utility tools
-  'normalize_tasks': ['utilities:write']
+  'normalize_tasks': ['utilities:write'],
+
+  // Change journal tools; undo_change also needs the permissions of the tool it reverts
+  'list_changes': ['projects:read'],
+  'undo_change': [],
+
+  // Each batched operation or imported entity is checked against the permissions of its own tool
+  'apply_backlog_batch': [],
+  'import_backlog': [],
+
+  // Admin tools
+  'query_audit_log': ['admin:read']
 } as const;
 
 // Permission sets for different token types
@@ -143,17 +253,55 @@ export const PERMISSION_SETS: Record<string, string[]> = {
   ]
 };
 
+/**
+ * Budgets enforced per token ID. Requests, reads and writes are counted in
+ * fixed windows of `windowMs`; upstream calls per UTC day. 0 means
+ * unlimited.
+ */
+export interface RateLimits {
+  windowMs: number;
+  // Authenticated HTTP requests of any kind
+  requestsPerWindow: number;
+  // Tool calls needing only :read permissions, resource reads and prompts
+  readsPerWindow: number;
+  // Tool calls needing a :write permission
+  writesPerWindow: number;
+  // Requests sent to the HyperManager API on the token's behalf, retries included
+  upstreamCallsPerDay: number;
+}
+
+export const DEFAULT_RATE_LIMITS: Record<TokenType, RateLimits> = {
+  master: { windowMs: 15 * 60 * 1000, requestsPerWindow: 1000, readsPerWindow: 1000, writesPerWindow: 500, upstreamCallsPerDay: 20000 },
+  team: { windowMs: 15 * 60 * 1000, requestsPerWindow: 600, readsPerWindow: 600, writesPerWindow: 200, upstreamCallsPerDay: 10000 },
+  readonly: { windowMs: 15 * 60 * 1000, requestsPerWindow: 300, readsPerWindow: 300, writesPerWindow: 100, upstreamCallsPerDay: 5000 },
+  custom: { windowMs: 15 * 60 * 1000, requestsPerWindow: 600, readsPerWindow: 600, writesPerWindow: 200, upstreamCallsPerDay: 10000 }
+};
+
+// Every permission a token can carry; custom tokens pick from this list
+export const KNOWN_PERMISSIONS: readonly string[] = PERMISSION_SETS['master']!;
+
+// Permissions needed to read resources, by URI prefix. Unlisted URIs are public.
+export const RESOURCE_PERMISSIONS: { prefix: string; permissions: string[] }[] = [
+  { prefix: 'resource://diagrams/', permissions: ['diagrams:read'] },
+  { prefix: 'resource://projects/', permissions: ['projects:read'] },
+  { prefix: 'resource://stories/', permissions: ['stories:read'] },
+  { prefix: 'resource://features/', permissions: ['features:read'] }
+];
+
 export type ToolName = keyof typeof TOOL_PERMISSIONS;
 export type Permission = string;
-export type TokenType = 'master' | 'team' | 'readonly';
+// `custom` tokens carry an explicit permission list instead of a PERMISSION_SETS entry
+export type TokenType = 'master' | 'team' | 'readonly' | 'custom';
 
 // Server-Sent Events types
 export interface SSEConnection {
   id: string;
-  response: any; // Express Response object
+  response?: any; // Express Response object, unset while the client is disconnected
   authToken: AuthToken;
   connectedAt: Date;
   lastActivity: Date;
+  disconnectedAt?: Date;
+  events: EventReplayBuffer; // Recent events, replayed when the client reconnects with Last-Event-ID
   clientInfo?: {
     userAgent?: string;
     ip?: string;
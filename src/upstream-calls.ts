@@ -0,0 +1,100 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface UpstreamCall {
+  method: string;
+  url: string;
+  // Missing when no response came back (network error, timeout)
+  status?: number;
+  durationMs: number;
+}
+
+const currentCalls = new AsyncLocalStorage<UpstreamCall[]>();
+const currentMeter = new AsyncLocalStorage<(call: UpstreamCall) => void>();
+
+/**
+ * Run `operation` and collect every HyperManager API call it makes,
+ * including those made by nested awaits, without threading a context
+ * object through the backend interface.
+ */
+export async function recordUpstreamCalls<T>(
+  operation: () => Promise<T>
+): Promise<{ calls: UpstreamCall[]; result?: T; error?: unknown }> {
+  const calls: UpstreamCall[] = [];
+  try {
+    const result = await currentCalls.run(calls, operation);
+    return { calls, result };
+  } catch (error) {
+    return { calls, error };
+  }
+}
+
+/**
+ * Run `operation` and pass every HyperManager API request it sends to
+ * `meter`, including those of nested recordings. Unlike recordUpstreamCalls,
+ * this sees the calls made around a tool call too (change snapshots,
+ * project lookups), which is what a quota must count.
+ */
+export function meterUpstreamCalls<T>(meter: (call: UpstreamCall) => void, operation: () => Promise<T>): Promise<T> {
+  return currentMeter.run(meter, operation);
+}
+
+/**
+ * Called by the API client for each request that got a response or failed
+ * on the wire, retries included. Cache hits and previews never get here.
+ */
+export function noteUpstreamCall(call: UpstreamCall): void {
+  currentCalls.getStore()?.push(call);
+  currentMeter.getStore()?.(call);
+}
+
+/**
+ * A HyperManager API request as it would go on the wire, with the API key
+ * header redacted
+ */
+export interface UpstreamRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Thrown by the API client in place of sending a request while previewing
+ */
+export class UpstreamRequestPreviewed extends Error {
+  constructor(public readonly request: UpstreamRequest) {
+    super(`Dry run: ${request.method} ${request.url} was not sent`);
+    this.name = 'UpstreamRequestPreviewed';
+  }
+}
+
+const previewing = new AsyncLocalStorage<true>();
+
+export function isPreviewingUpstream(): boolean {
+  return previewing.getStore() === true;
+}
+
+/**
+ * Run `operation` until it tries to reach the HyperManager API and return
+ * the request it would have sent instead. Undefined when it finished
+ * without making a request.
+ */
+export async function previewUpstreamRequest(operation: () => Promise<unknown>): Promise<UpstreamRequest | undefined> {
+  try {
+    await previewing.run(true, operation);
+    return undefined;
+  } catch (error) {
+    if (error instanceof UpstreamRequestPreviewed) {
+      return error.request;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Let `operation` reach the API even while previewing, for the reads a
+ * tool makes before its write
+ */
+export function bypassPreview<T>(operation: () => Promise<T>): Promise<T> {
+  return previewing.exit(operation);
+}
@@ -0,0 +1,153 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { HyperManagerAPIClient, HyperManagerClientOptions } from './api-client.js';
+import { BacklogBackend } from './backend.js';
+import { CircuitStatus } from './circuit-breaker.js';
+import { HyperManagerOperations, OperationId } from './generated/hypermanager-api.js';
+import { ResponseCacheStats } from './response-cache.js';
+import { apiKeyFingerprint, decryptApiKey } from './upstream-credentials.js';
+import { AuthToken } from './types.js';
+
+// Tenant of requests made with the server's HYPERMANAGER_API_KEY
+export const DEFAULT_TENANT = 'default';
+
+export interface UpstreamTenant {
+  name: string;
+  client: HyperManagerAPIClient;
+}
+
+const currentTenant = new AsyncLocalStorage<UpstreamTenant>();
+
+/**
+ * Name of the HyperManager credentials the current request uses:
+ * `default`, `key:<name>` for a key of HYPERMANAGER_API_KEYS, or
+ * `token:<fingerprint>` for a token's own key. State kept across requests
+ * (project lookups, the change journal) is kept apart per tenant.
+ */
+export function currentUpstreamTenant(): string {
+  return currentTenant.getStore()?.name ?? DEFAULT_TENANT;
+}
+
+export interface UpstreamClientPoolOptions {
+  // Options shared by every client
+  client?: HyperManagerClientOptions;
+  // Keys tokens can refer to by name, from HYPERMANAGER_API_KEYS
+  namedKeys?: Record<string, string>;
+  // Server secret the tokens' own keys are encrypted with
+  secret: string;
+}
+
+export interface UpstreamTenantStatus {
+  tenant: string;
+  circuits: CircuitStatus[];
+  cache: ResponseCacheStats;
+}
+
+/**
+ * One HyperManagerAPIClient per set of upstream credentials, created on
+ * first use, so each tenant gets its own API key, response cache and
+ * circuit breakers. `backend` and `operations` send every call with the
+ * client of the request running in `run()`, the default client outside.
+ */
+export class UpstreamClientPool {
+  readonly defaultClient: HyperManagerAPIClient;
+  readonly backend: BacklogBackend;
+  readonly operations: HyperManagerOperations;
+  private clients = new Map<string, HyperManagerAPIClient>();
+  private clientOptions: HyperManagerClientOptions;
+  private namedKeys: Record<string, string>;
+  private secret: string;
+
+  constructor(defaultApiKey: string, options: UpstreamClientPoolOptions) {
+    this.clientOptions = options.client ?? {};
+    this.namedKeys = options.namedKeys ?? {};
+    this.secret = options.secret;
+    this.defaultClient = new HyperManagerAPIClient(defaultApiKey, this.clientOptions);
+    this.clients.set(DEFAULT_TENANT, this.defaultClient);
+    this.backend = routedBackend(() => this.current());
+    this.operations = new HyperManagerOperations((operation, pathParams, body) =>
+      this.current().operations.request(operation.operationId as OperationId, pathParams, body));
+  }
+
+  // Names of HYPERMANAGER_API_KEYS, which tokens may refer to
+  keyNames(): string[] {
+    return Object.keys(this.namedKeys);
+  }
+
+  // Run `operation` with the client of `tenant`
+  run<T>(tenant: UpstreamTenant, operation: () => Promise<T>): Promise<T> {
+    return currentTenant.run(tenant, operation);
+  }
+
+  // Every client created so far, for /health
+  status(): UpstreamTenantStatus[] {
+    return Array.from(this.clients, ([tenant, client]) => ({
+      tenant,
+      circuits: client.circuitBreakerStatus(),
+      cache: client.cacheStats()
+    }));
+  }
+
+  /**
+   * The tenant of `authToken`'s credentials. Throws when the token refers
+   * to an unknown key or its key cannot be decrypted.
+   */
+  tenantFor(authToken: AuthToken): UpstreamTenant {
+    const credential = authToken.upstream;
+    if (!credential) {
+      return { name: DEFAULT_TENANT, client: this.defaultClient };
+    }
+
+    let name: string;
+    let apiKey: string;
+    if ('apiKeyRef' in credential) {
+      const key = this.namedKeys[credential.apiKeyRef];
+      if (key === undefined) {
+        throw new Error(`Token ${authToken.id} uses HyperManager key ${credential.apiKeyRef}, which is not in HYPERMANAGER_API_KEYS`);
+      }
+      name = `key:${credential.apiKeyRef}`;
+      apiKey = key;
+    } else {
+      apiKey = decryptApiKey(credential.encryptedApiKey, this.secret);
+      name = `token:${apiKeyFingerprint(apiKey, this.secret)}`;
+    }
+
+    let client = this.clients.get(name);
+    if (!client) {
+      client = new HyperManagerAPIClient(apiKey, this.clientOptions);
+      this.clients.set(name, client);
+    }
+    return { name, client };
+  }
+
+  private current(): HyperManagerAPIClient {
+    return currentTenant.getStore()?.client ?? this.defaultClient;
+  }
+}
+
+// A BacklogBackend that sends each call with the client `select` returns at call time
+function routedBackend(select: () => BacklogBackend): BacklogBackend {
+  return {
+    createDiagram: data => select().createDiagram(data),
+    listDiagrams: () => select().listDiagrams(),
+    getDiagram: id => select().getDiagram(id),
+    updateDiagram: (id, data) => select().updateDiagram(id, data),
+    getDiagramPng: diagramName => select().getDiagramPng(diagramName),
+    getDiagramPlantUmlUrl: diagramName => select().getDiagramPlantUmlUrl(diagramName),
+    getDiagramDefinition: name => select().getDiagramDefinition(name),
+    updateDiagramDefinition: (name, definition) => select().updateDiagramDefinition(name, definition),
+    updateDiagramGraphic: (diagramName, data) => select().updateDiagramGraphic(diagramName, data),
+    createProject: data => select().createProject(data),
+    listProjects: () => select().listProjects(),
+    getProjectTree: project => select().getProjectTree(project),
+    getStoryTree: storyId => select().getStoryTree(storyId),
+    updateStory: data => select().updateStory(data),
+    refreshFeatureTypes: () => select().refreshFeatureTypes(),
+    listFeatureTypes: () => select().listFeatureTypes(),
+    addFeatureToStory: (story, data) => select().addFeatureToStory(story, data),
+    addChildFeature: (parent, data) => select().addChildFeature(parent, data),
+    adoptChildFeature: (parent, child) => select().adoptChildFeature(parent, child),
+    addActor: (project, data) => select().addActor(project, data),
+    addStoryToActor: (project, name, data) => select().addStoryToActor(project, name, data),
+    normalizeTasks: () => select().normalizeTasks()
+  };
+}
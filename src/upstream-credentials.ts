@@ -0,0 +1,78 @@
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from 'crypto';
+import { UpstreamCredential } from './types.js';
+
+// Version tag of the encrypted form, so the scheme can change later
+const ENCRYPTION_VERSION = 'v1';
+
+// AES-256-GCM key for upstream API keys, derived from the server secret
+function encryptionKey(secret: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', secret, 'backlog-mcp-server', 'hypermanager-api-key', 32));
+}
+
+/**
+ * Encrypt a HyperManager API key for a token. The result is safe to store
+ * and to carry in the token's JWT: only a server with `secret` reads it.
+ */
+export function encryptApiKey(apiKey: string, secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(secret), iv);
+  const data = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+  return [ENCRYPTION_VERSION, iv, cipher.getAuthTag(), data]
+    .map(part => typeof part === 'string' ? part : part.toString('base64url'))
+    .join('.');
+}
+
+export function decryptApiKey(encrypted: string, secret: string): string {
+  const [version, iv, tag, data] = encrypted.split('.');
+  if (version !== ENCRYPTION_VERSION || !iv || !tag || data === undefined) {
+    throw new Error('Unsupported encrypted API key format');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(secret), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Encrypted API key cannot be decrypted with this server secret');
+  }
+}
+
+/**
+ * Short, stable name for an API key that does not reveal it, to tell
+ * tenants apart in logs, /health and the change journal
+ */
+export function apiKeyFingerprint(apiKey: string, secret: string): string {
+  return createHmac('sha256', secret).update(apiKey).digest('hex').slice(0, 12);
+}
+
+/**
+ * Read named HyperManager API keys from HYPERMANAGER_API_KEYS, a comma
+ * separated list of `name:key` pairs (e.g. `acme:k1,globex:k2`). Tokens
+ * refer to a key by its name.
+ */
+export function namedApiKeysFromEnv(env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  const keys: Record<string, string> = {};
+  for (const pair of (env['HYPERMANAGER_API_KEYS'] ?? '').split(',')) {
+    if (!pair.trim()) {
+      continue;
+    }
+    const separator = pair.indexOf(':');
+    const name = pair.slice(0, separator).trim();
+    const key = pair.slice(separator + 1).trim();
+    if (separator < 0 || !name || !key) {
+      throw new Error('HYPERMANAGER_API_KEYS must be a comma separated list of name:key pairs');
+    }
+    if (keys[name] !== undefined) {
+      throw new Error(`HYPERMANAGER_API_KEYS names ${name} twice`);
+    }
+    keys[name] = key;
+  }
+  return keys;
+}
+
+// What to log or show about a credential: never the key itself
+export function describeUpstreamCredential(credential: UpstreamCredential | undefined): string {
+  if (!credential) {
+    return 'default';
+  }
+  return 'apiKeyRef' in credential ? `key ${credential.apiKeyRef}` : 'own encrypted key';
+}
@@ -0,0 +1,122 @@
+import { isAxiosError } from 'axios';
+
+export type UpstreamErrorKind = 'not_found' | 'validation_failed' | 'unauthorized' | 'unavailable' | 'timeout';
+
+// Longest upstream message carried by an error; HTML error pages can be long
+const MAX_UPSTREAM_MESSAGE_LENGTH = 500;
+
+/**
+ * A failed HyperManager API call. `endpoint` is the method and swagger path
+ * that was hit (e.g. `GET /story-command/{storyID}/tree`), `status` the HTTP
+ * status when a response came back and `upstreamMessage` what the API said.
+ */
+export abstract class UpstreamError extends Error {
+  abstract readonly kind: UpstreamErrorKind;
+
+  constructor(
+    readonly endpoint: string,
+    readonly upstreamMessage: string,
+    readonly status?: number,
+    readonly body?: unknown
+  ) {
+    super(`HyperManager ${endpoint} failed${status !== undefined ? ` with ${status}` : ''}: ${upstreamMessage}`);
+    this.name = new.target.name;
+  }
+
+  toJSON(): { kind: UpstreamErrorKind; endpoint: string; status?: number; message: string } {
+    return {
+      kind: this.kind,
+      endpoint: this.endpoint,
+      ...(this.status !== undefined && { status: this.status }),
+      message: this.upstreamMessage
+    };
+  }
+}
+
+// 404: the project, story, feature or diagram does not exist
+export class NotFoundError extends UpstreamError {
+  readonly kind = 'not_found';
+}
+
+// Any other 4xx: the API rejected the request as sent
+export class ValidationFailedError extends UpstreamError {
+  readonly kind = 'validation_failed';
+}
+
+// 401 or 403: the API key is missing, wrong or not allowed
+export class UnauthorizedError extends UpstreamError {
+  readonly kind = 'unauthorized';
+}
+
+// 429, 5xx, no connection, or an open circuit breaker
+export class UpstreamUnavailableError extends UpstreamError {
+  readonly kind = 'unavailable';
+}
+
+// No response within the client timeout
+export class UpstreamTimeoutError extends UpstreamError {
+  readonly kind = 'timeout';
+}
+
+/**
+ * The message of an error response body: the `message`, `error` or `detail`
+ * field of a JSON body (Spring's error attributes among them), or the text
+ */
+function messageOf(body: unknown): string | undefined {
+  let data = body;
+  if (typeof body === 'string') {
+    try {
+      data = JSON.parse(body);
+    } catch {
+      const text = body.trim();
+      return text ? text.slice(0, MAX_UPSTREAM_MESSAGE_LENGTH) : undefined;
+    }
+  }
+  if (typeof data === 'string' && data.trim()) {
+    return data.trim().slice(0, MAX_UPSTREAM_MESSAGE_LENGTH);
+  }
+  if (data && typeof data === 'object') {
+    for (const field of ['message', 'error', 'detail', 'title']) {
+      const value = (data as Record<string, unknown>)[field];
+      if (typeof value === 'string' && value.trim()) {
+        return value.trim().slice(0, MAX_UPSTREAM_MESSAGE_LENGTH);
+      }
+    }
+    return JSON.stringify(data).slice(0, MAX_UPSTREAM_MESSAGE_LENGTH);
+  }
+  return undefined;
+}
+
+/**
+ * Turn an axios error for `endpoint` into the matching UpstreamError. Any
+ * other error is returned as is.
+ */
+export function upstreamErrorFrom(error: unknown, endpoint: string): unknown {
+  if (!isAxiosError(error)) {
+    return error;
+  }
+
+  const response = error.response;
+  if (!response) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new UpstreamTimeoutError(endpoint, `No response within ${error.config?.timeout ?? '?'}ms`);
+    }
+    return new UpstreamUnavailableError(endpoint, `Could not reach the API (${error.code ?? error.message})`);
+  }
+
+  const status = response.status;
+  const message = messageOf(response.data) ?? response.statusText ?? error.message;
+  if (status === 404) {
+    return new NotFoundError(endpoint, message, status, response.data);
+  }
+  if (status === 401 || status === 403) {
+    return new UnauthorizedError(endpoint, message, status, response.data);
+  }
+  if (status === 408 || status === 504) {
+    return new UpstreamTimeoutError(endpoint, message, status, response.data);
+  }
+  if (status === 429 || status >= 500) {
+    return new UpstreamUnavailableError(endpoint, message, status, response.data);
+  }
+  return new ValidationFailedError(endpoint, message, status, response.data);
+}
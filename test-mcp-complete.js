@@ -5,8 +5,8 @@
  * Tests all MCP methods: initialize, tools, resources, and prompts
  */
 
-const https = require('https');
-const http = require('http');
+import https from 'https';
+import http from 'http';
 
 // Configuration
 const SERVER_URL = process.env.SERVER_URL || 'http://localhost:3000';
@@ -24,6 +24,17 @@ console.log(`📍 Server: ${SERVER_URL}${BASE_PATH}`);
 console.log(`🔑 Token: ${MCP_AUTH_TOKEN.substring(0, 10)}...`);
 console.log('');
 
+// JSON-RPC request ids for POST /mcp
+let nextRpcId = 1;
+
+// Failed checks, so the script can exit non-zero when run by the test suite
+let failures = 0;
+
+function fail(message) {
+  failures++;
+  console.log(message);
+}
+
 // HTTP request helper
 function makeRequest(method, path, data = null) {
   return new Promise((resolve, reject) => {
@@ -97,11 +108,11 @@ async function testHealthCheck() {
       console.log(`   Status: ${response.data.status}`);
       console.log(`   Version: ${response.data.version}`);
     } else {
-      console.log(`❌ Health check failed: ${response.statusCode}`);
+      fail(`❌ Health check failed: ${response.statusCode}`);
       console.log(`   Response: ${JSON.stringify(response.data, null, 2)}`);
     }
   } catch (error) {
-    console.log(`❌ Health check error: ${error.message}`);
+    fail(`❌ Health check error: ${error.message}`);
   }
   console.log('');
 }
@@ -116,10 +127,10 @@ async function testMCPInfo() {
       console.log(`   Description: ${response.data.description}`);
       console.log(`   Available endpoints: ${Object.keys(response.data.usage.endpoints).join(', ')}`);
     } else {
-      console.log(`❌ MCP info failed: ${response.statusCode}`);
+      fail(`❌ MCP info failed: ${response.statusCode}`);
     }
   } catch (error) {
-    console.log(`❌ MCP info error: ${error.message}`);
+    fail(`❌ MCP info error: ${error.message}`);
   }
   console.log('');
 }
@@ -128,26 +139,28 @@ async function testToolsList() {
   console.log('🔧 Testing Tools List...');
   try {
     const response = await makeRequest('POST', '/mcp', {
+      jsonrpc: '2.0',
+      id: nextRpcId++,
       method: 'tools/list'
     });
     
-    if (response.statusCode === 200 && response.data.tools) {
-      console.log(`✅ Tools list retrieved: ${response.data.tools.length} tools`);
+    if (response.statusCode === 200 && response.data.result?.tools) {
+      console.log(`✅ Tools list retrieved: ${response.data.result?.tools.length} tools`);
       console.log('   Available tools:');
-      response.data.tools.slice(0, 5).forEach(tool => {
+      response.data.result?.tools.slice(0, 5).forEach(tool => {
         console.log(`   - ${tool.name}: ${tool.description}`);
       });
-      if (response.data.tools.length > 5) {
-        console.log(`   ... and ${response.data.tools.length - 5} more`);
+      if (response.data.result?.tools.length > 5) {
+        console.log(`   ... and ${response.data.result?.tools.length - 5} more`);
       }
-      return response.data.tools;
+      return response.data.result?.tools;
     } else {
-      console.log(`❌ Tools list failed: ${response.statusCode}`);
+      fail(`❌ Tools list failed: ${response.statusCode}`);
       console.log(`   Response: ${JSON.stringify(response.data, null, 2)}`);
       return [];
     }
   } catch (error) {
-    console.log(`❌ Tools list error: ${error.message}`);
+    fail(`❌ Tools list error: ${error.message}`);
     return [];
   }
 }
@@ -161,13 +174,15 @@ async function testToolCall(tools) {
                    tools[0];
   
   if (!testTool) {
-    console.log('❌ No tools available to test');
+    fail('❌ No tools available to test');
     return;
   }
   
   try {
     console.log(`   Testing tool: ${testTool.name}`);
     const response = await makeRequest('POST', '/mcp', {
+      jsonrpc: '2.0',
+      id: nextRpcId++,
       method: 'tools/call',
       params: {
         name: testTool.name,
@@ -175,20 +190,20 @@ async function testToolCall(tools) {
       }
     });
     
-    if (response.statusCode === 200 && response.data.content) {
+    if (response.statusCode === 200 && response.data.result?.content) {
       console.log('✅ Tool call successful');
-      console.log(`   Response type: ${response.data.content[0]?.type}`);
-      const text = response.data.content[0]?.text;
+      console.log(`   Response type: ${response.data.result?.content[0]?.type}`);
+      const text = response.data.result?.content[0]?.text;
       if (text) {
         const preview = text.length > 100 ? text.substring(0, 100) + '...' : text;
         console.log(`   Response preview: ${preview}`);
       }
     } else {
-      console.log(`❌ Tool call failed: ${response.statusCode}`);
+      fail(`❌ Tool call failed: ${response.statusCode}`);
       console.log(`   Response: ${JSON.stringify(response.data, null, 2)}`);
     }
   } catch (error) {
-    console.log(`❌ Tool call error: ${error.message}`);
+    fail(`❌ Tool call error: ${error.message}`);
   }
 }
 
@@ -196,26 +211,28 @@ async function testResourcesList() {
   console.log('📚 Testing Resources List...');
   try {
     const response = await makeRequest('POST', '/mcp', {
+      jsonrpc: '2.0',
+      id: nextRpcId++,
       method: 'resources/list'
     });
     
-    if (response.statusCode === 200 && response.data.resources) {
-      console.log(`✅ Resources list retrieved: ${response.data.resources.length} resources`);
+    if (response.statusCode === 200 && response.data.result?.resources) {
+      console.log(`✅ Resources list retrieved: ${response.data.result?.resources.length} resources`);
       console.log('   Available resources:');
-      response.data.resources.slice(0, 5).forEach(resource => {
+      response.data.result?.resources.slice(0, 5).forEach(resource => {
         console.log(`   - ${resource.uri}: ${resource.name}`);
       });
-      if (response.data.resources.length > 5) {
-        console.log(`   ... and ${response.data.resources.length - 5} more`);
+      if (response.data.result?.resources.length > 5) {
+        console.log(`   ... and ${response.data.result?.resources.length - 5} more`);
       }
-      return response.data.resources;
+      return response.data.result?.resources;
     } else {
-      console.log(`❌ Resources list failed: ${response.statusCode}`);
+      fail(`❌ Resources list failed: ${response.statusCode}`);
       console.log(`   Response: ${JSON.stringify(response.data, null, 2)}`);
       return [];
     }
   } catch (error) {
-    console.log(`❌ Resources list error: ${error.message}`);
+    fail(`❌ Resources list error: ${error.message}`);
     return [];
   }
 }
@@ -229,33 +246,35 @@ async function testResourceRead(resources) {
                        resources[0];
   
   if (!testResource) {
-    console.log('❌ No resources available to test');
+    fail('❌ No resources available to test');
     return;
   }
   
   try {
     console.log(`   Testing resource: ${testResource.uri}`);
     const response = await makeRequest('POST', '/mcp', {
+      jsonrpc: '2.0',
+      id: nextRpcId++,
       method: 'resources/read',
       params: {
         uri: testResource.uri
       }
     });
     
-    if (response.statusCode === 200 && response.data.contents) {
+    if (response.statusCode === 200 && response.data.result?.contents) {
       console.log('✅ Resource read successful');
-      const content = response.data.contents[0];
+      const content = response.data.result?.contents[0];
       console.log(`   Content type: ${content.mimeType}`);
       if (content.text) {
         const preview = content.text.length > 100 ? content.text.substring(0, 100) + '...' : content.text;
         console.log(`   Content preview: ${preview}`);
       }
     } else {
-      console.log(`❌ Resource read failed: ${response.statusCode}`);
+      fail(`❌ Resource read failed: ${response.statusCode}`);
       console.log(`   Response: ${JSON.stringify(response.data, null, 2)}`);
     }
   } catch (error) {
-    console.log(`❌ Resource read error: ${error.message}`);
+    fail(`❌ Resource read error: ${error.message}`);
   }
 }
 
@@ -263,26 +282,28 @@ async function testPromptsList() {
   console.log('💬 Testing Prompts List...');
   try {
     const response = await makeRequest('POST', '/mcp', {
+      jsonrpc: '2.0',
+      id: nextRpcId++,
       method: 'prompts/list'
     });
     
-    if (response.statusCode === 200 && response.data.prompts) {
-      console.log(`✅ Prompts list retrieved: ${response.data.prompts.length} prompts`);
+    if (response.statusCode === 200 && response.data.result?.prompts) {
+      console.log(`✅ Prompts list retrieved: ${response.data.result?.prompts.length} prompts`);
       console.log('   Available prompts:');
-      response.data.prompts.forEach(prompt => {
+      response.data.result?.prompts.forEach(prompt => {
         console.log(`   - ${prompt.name}: ${prompt.description}`);
         if (prompt.arguments && prompt.arguments.length > 0) {
           console.log(`     Arguments: ${prompt.arguments.map(arg => arg.name).join(', ')}`);
         }
       });
-      return response.data.prompts;
+      return response.data.result?.prompts;
     } else {
-      console.log(`❌ Prompts list failed: ${response.statusCode}`);
+      fail(`❌ Prompts list failed: ${response.statusCode}`);
       console.log(`   Response: ${JSON.stringify(response.data, null, 2)}`);
       return [];
     }
   } catch (error) {
-    console.log(`❌ Prompts list error: ${error.message}`);
+    fail(`❌ Prompts list error: ${error.message}`);
     return [];
   }
 }
@@ -296,7 +317,7 @@ async function testPromptGet(prompts) {
                      prompts[0];
   
   if (!testPrompt) {
-    console.log('❌ No prompts available to test');
+    fail('❌ No prompts available to test');
     return;
   }
   
@@ -327,6 +348,8 @@ async function testPromptGet(prompts) {
     }
     
     const response = await makeRequest('POST', '/mcp', {
+      jsonrpc: '2.0',
+      id: nextRpcId++,
       method: 'prompts/get',
       params: {
         name: testPrompt.name,
@@ -334,18 +357,18 @@ async function testPromptGet(prompts) {
       }
     });
     
-    if (response.statusCode === 200 && response.data.messages) {
+    if (response.statusCode === 200 && response.data.result?.messages) {
       console.log('✅ Prompt get successful');
-      console.log(`   Messages count: ${response.data.messages.length}`);
-      response.data.messages.forEach((msg, index) => {
+      console.log(`   Messages count: ${response.data.result?.messages.length}`);
+      response.data.result?.messages.forEach((msg, index) => {
         console.log(`   Message ${index + 1} (${msg.role}): ${msg.content.text.substring(0, 100)}...`);
       });
     } else {
-      console.log(`❌ Prompt get failed: ${response.statusCode}`);
+      fail(`❌ Prompt get failed: ${response.statusCode}`);
       console.log(`   Response: ${JSON.stringify(response.data, null, 2)}`);
     }
   } catch (error) {
-    console.log(`❌ Prompt get error: ${error.message}`);
+    fail(`❌ Prompt get error: ${error.message}`);
   }
 }
 
@@ -373,6 +396,11 @@ async function runTests() {
   
   await testPromptGet(prompts);
   console.log('');
+
+  if (failures > 0) {
+    console.log(`❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
   
   console.log('🎉 Complete MCP Server Tests Finished!');
   console.log('');
@@ -32,6 +32,8 @@ const testRequests = [
       'Authorization': `Bearer ${TOKEN}`
     },
     body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
       method: 'tools/list',
       params: {}
     })
@@ -45,6 +47,8 @@ const testRequests = [
       'Authorization': `Bearer ${TOKEN}`
     },
     body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 2,
       method: 'invalid/method',
       params: {}
     })
@@ -57,6 +61,8 @@ const testRequests = [
       'Content-Type': 'application/json'
     },
     body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
       method: 'tools/list',
       params: {}
     })
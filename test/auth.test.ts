@@ -0,0 +1,13 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthManager, staticTokenId } from '../src/auth.js';
+import { MemoryTokenStore } from '../src/token-store.js';
+
+test('a revoked static token stays revoked when ALLOWED_TOKENS is reordered', () => {
+  const store = new MemoryTokenStore();
+  new AuthManager('secret', ['token-a', 'token-b'], store).revokeToken('token-b');
+
+  const reordered = new AuthManager('secret', ['token-b', 'token-a'], store);
+  assert.equal(reordered.verifyToken('token-b'), null);
+  assert.equal(reordered.verifyToken('token-a')?.id, staticTokenId('token-a'));
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BacklogDocumentError, parseBacklogDocument } from '../src/backlog-import.js';
+
+test('a Markdown outline reads into actors, stories, features and diagrams', () => {
+  const document = parseBacklogDocument([
+    '# DEMO',
+    '## Customer',
+    '### Pay by card',
+    'Objective: pay without leaving the site',
+    '- Payment form [frontend]: card fields',
+    '  - Card validation [backend]',
+    '## Diagram: Checkout',
+    '```',
+    'graph TD; A-->B',
+    '```'
+  ].join('\n'), 'markdown');
+
+  assert.equal(document.project, 'DEMO');
+  const [story] = document.actors[0]!.stories;
+  assert.equal(story!.objective, 'pay without leaving the site');
+  assert.equal(story!.features[0]!.children[0]!.name, 'Card validation');
+  assert.deepEqual(document.diagrams, [{ name: 'Checkout', definition: 'graph TD; A-->B' }]);
+});
+
+test('GitHub issues are validated one by one, pull requests skipped', () => {
+  const issues = [
+    { title: 'Browse the catalog', labels: [{ name: 'actor: Customer' }, 'enhancement'], body: '- [ ] Search box' },
+    { title: 'Fix the build', pull_request: { url: 'https://example.test/pull/2' } }
+  ];
+  const document = parseBacklogDocument(JSON.stringify({ issues }), 'github-json', { project: 'DEMO' });
+  assert.equal(document.actors.length, 1);
+  assert.equal(document.actors[0]!.name, 'Customer');
+  assert.equal(document.actors[0]!.stories[0]!.features[0]!.name, 'Search box');
+
+  assert.throws(
+    () => parseBacklogDocument(JSON.stringify([{ title: ' ' }, { title: 'Ok', labels: 'actor: Customer' }]), 'github-json', { project: 'DEMO' }),
+    (error: unknown) => error instanceof BacklogDocumentError
+      && error.issues.some(issue => issue.startsWith('issues.0.title'))
+      && error.issues.some(issue => issue.startsWith('issues.1.labels'))
+  );
+});
@@ -0,0 +1,49 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestBackend, TestBackend } from './helpers.js';
+
+let backend: TestBackend;
+
+before(async () => {
+  backend = await startTestBackend();
+});
+
+after(async () => {
+  await backend.close();
+});
+
+const operations = [
+  { ref: 'story', tool: 'add_story_to_actor', arguments: { project: 'DEMO', name: 'Customer', data: { action: 'Pay by card' } } },
+  { ref: 'form', tool: 'add_feature_to_story', arguments: { story: '$story.id', data: { name: 'Payment form' } } },
+  { tool: 'add_child_feature', arguments: { parent: '$form.id', data: { name: 'Card validation' } } }
+];
+
+async function storyActions(token: ReturnType<TestBackend['token']>): Promise<string[]> {
+  const tree = await backend.callTool(token, 'get_project_tree', { project: 'DEMO' });
+  return tree.actors.flatMap((actor: any) => actor.stories.map((story: any) => story.action));
+}
+
+test('references to earlier results are resolved', async () => {
+  const token = backend.token('team', { projects: ['DEMO'] });
+  const result = await backend.callTool(token, 'apply_backlog_batch', { operations });
+
+  assert.equal(result.status, 'completed');
+  assert.equal(result.operations[2].result.name, 'Card validation');
+  assert.ok((await storyActions(token)).includes('Pay by card'));
+});
+
+test('a dry run with a scoped token plans the operations that need a previewed result', async () => {
+  const token = backend.token('team', { projects: ['DEMO'] });
+  const dryRunOperations = operations.map(operation => ({
+    ...operation,
+    arguments: { ...operation.arguments, data: { ...operation.arguments.data, action: 'Pay in installments' } }
+  }));
+  const result = await backend.callTool(token, 'apply_backlog_batch', { operations: dryRunOperations, dryRun: true });
+
+  assert.equal(result.status, 'completed');
+  assert.deepEqual(result.operations.map((operation: any) => operation.status), ['succeeded', 'planned', 'planned']);
+  assert.equal(result.operations[0].result.dryRun, true);
+  assert.match(result.operations[1].error, /\$story\.id needs what operation 0 \(add_story_to_actor\) would create/);
+  assert.deepEqual([result.succeeded, result.planned, result.failed], [1, 2, 0]);
+  assert.ok(!(await storyActions(token)).includes('Pay in installments'));
+});
@@ -0,0 +1,95 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ChangeJournal } from '../src/change-journal.js';
+import { silentLogger, startTestBackend, TestBackend } from './helpers.js';
+
+const STORY = '000000000000000000000004';
+const MAX_ENTRIES = 3;
+
+let backend: TestBackend;
+let directory: string;
+let journalPath: string;
+
+before(async () => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'change-journal-'));
+  journalPath = path.join(directory, 'changes.jsonl');
+  backend = await startTestBackend({ changeJournal: { kind: 'file', path: journalPath, maxEntries: MAX_ENTRIES } });
+});
+
+after(async () => {
+  await backend.close();
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+async function objective(token: ReturnType<TestBackend['token']>): Promise<string> {
+  return (await backend.callTool(token, 'get_story_tree', { storyId: STORY })).objective;
+}
+
+async function lastChange(token: ReturnType<TestBackend['token']>): Promise<string> {
+  return (await backend.callTool(token, 'list_changes', { limit: 1 }))[0].id;
+}
+
+test('undo_change restores a story once', async () => {
+  const token = backend.token('team');
+  const original = await objective(token);
+
+  await backend.callTool(token, 'update_story', { data: { id: STORY, objective: 'find products faster' } });
+  const changeId = await lastChange(token);
+  assert.equal(await objective(token), 'find products faster');
+
+  await backend.callTool(token, 'undo_change', { changeId });
+  assert.equal(await objective(token), original);
+
+  await assert.rejects(backend.callTool(token, 'undo_change', { changeId }), /already undone/);
+});
+
+test('concurrent undos of the same change restore it once', async () => {
+  const token = backend.token('team');
+  await backend.callTool(token, 'update_story', { data: { id: STORY, objective: 'undone once' } });
+  const changeId = await lastChange(token);
+
+  const outcomes = await Promise.allSettled([1, 2].map(() => backend.callTool(token, 'undo_change', { changeId })));
+  assert.deepEqual(outcomes.map(outcome => outcome.status).sort(), ['fulfilled', 'rejected']);
+  const refused = outcomes.find(outcome => outcome.status === 'rejected') as PromiseRejectedResult;
+  assert.match(refused.reason.message, /already being undone/);
+});
+
+test('undo_change refuses to overwrite a later edit unless forced', async () => {
+  const token = backend.token('team');
+  const original = await objective(token);
+
+  await backend.callTool(token, 'update_story', { data: { id: STORY, objective: 'first edit' } });
+  const changeId = await lastChange(token);
+  await backend.store.updateStory({ id: STORY, objective: 'edited outside the server' });
+
+  await assert.rejects(backend.callTool(token, 'undo_change', { changeId }), /edited again since/);
+  await backend.callTool(token, 'undo_change', { changeId, force: true });
+  assert.equal(await objective(token), original);
+});
+
+test('changes that create entities are refused and take no snapshot', async () => {
+  const token = backend.token('team');
+  const actor = await backend.callTool(token, 'add_actor', { project: 'DEMO', data: { name: 'Reviewer' } });
+
+  const [change] = await backend.callTool(token, 'list_changes', { limit: 1, includeSnapshots: true });
+  assert.equal(change.tool, 'add_actor');
+  assert.equal(change.before, undefined);
+  assert.ok(change.entities.includes(actor.id));
+  await assert.rejects(backend.callTool(token, 'undo_change', { changeId: change.id }), /cannot be undone/);
+});
+
+test('the journal file is compacted to the kept changes, undo markers included', async () => {
+  await backend.deps.changeJournal.flush();
+  const lines = fs.readFileSync(journalPath, 'utf8').trim().split('\n');
+  assert.ok(lines.length <= MAX_ENTRIES * 2, `${lines.length} lines`);
+
+  const reloaded = new ChangeJournal(backend.deps.upstreamClients.backend, backend.deps.projectResolver, silentLogger, {
+    kind: 'file', path: journalPath, maxEntries: MAX_ENTRIES
+  });
+  const kept = reloaded.list({});
+  assert.equal(kept.length, MAX_ENTRIES);
+  assert.ok(kept.some(entry => entry.undone));
+});
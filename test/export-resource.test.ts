@@ -0,0 +1,31 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestBackend, TestBackend } from './helpers.js';
+
+let backend: TestBackend;
+
+before(async () => {
+  backend = await startTestBackend();
+});
+
+after(async () => {
+  await backend.close();
+});
+
+test('a project export is served with the MIME type of its format', async () => {
+  const token = backend.token('readonly');
+  const read = async (uri: string) => (await backend.request(token, 'resources/read', { uri })).contents[0];
+
+  const markdown = await read('resource://projects/DEMO/export/markdown');
+  assert.equal(markdown.mimeType, 'text/markdown');
+  assert.match(markdown.text, /^# Project: DEMO$/m);
+  assert.equal((await read('resource://projects/DEMO/export/csv')).mimeType, 'text/csv');
+  assert.equal(JSON.parse((await read('resource://projects/DEMO/export/json')).text).project, 'DEMO');
+  assert.equal((await read('resource://projects/DEMO/export/json')).mimeType, 'application/json');
+});
+
+test('the export resource lists every export format', async () => {
+  const { resources } = await backend.request(backend.token('readonly'), 'resources/list');
+  const exportResource = resources.find((resource: { uri: string }) => resource.uri === 'resource://projects/{project}/export/{format}');
+  assert.match(exportResource.description, /markdown, csv, json, jira-csv or github-json$/);
+});
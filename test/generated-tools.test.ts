@@ -0,0 +1,44 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestBackend, TestBackend } from './helpers.js';
+
+let backend: TestBackend;
+
+before(async () => {
+  backend = await startTestBackend();
+});
+
+after(async () => {
+  await backend.close();
+});
+
+test('hand-written tools replace the default tool of the operation they wrap', () => {
+  const names = backend.deps.toolRegistry.names();
+  // create_diagram declares add-diagram, list_diagrams get-list-diagrams
+  assert.ok(names.includes('create_diagram'));
+  assert.ok(!names.includes('add_diagram'));
+  assert.ok(!names.includes('get_list_diagrams'));
+
+  const tools = new Map(backend.deps.toolRegistry.list().map(tool => [tool.name, tool]));
+  assert.match(tools.get('get_diagram')!.description, /\(GET \/diagram\/\{id\}\)$/);
+  assert.match(tools.get('normalize_tasks')!.description, /\(GET \/normalize-tasks\)$/);
+});
+
+test('a default tool calls its operation and returns the decoded response', async () => {
+  const token = backend.token('team');
+  const created = await backend.callTool(token, 'create_diagram', { name: 'Checkout', definition: '@startuml\nA -> B\n@enduml' });
+
+  const diagram = await backend.callTool(token, 'get_diagram', { id: created.id });
+  assert.equal(diagram.name, 'Checkout');
+  await assert.rejects(backend.callTool(token, 'get_diagram', {}), /id/);
+});
+
+test('a write through a default tool drops the cached responses', async () => {
+  const token = backend.token('master');
+  const client = backend.deps.upstreamClients.defaultClient;
+  await backend.callTool(token, 'list_projects');
+  assert.ok(client.cacheStats().entries > 0);
+
+  await backend.callTool(token, 'normalize_tasks');
+  assert.equal(client.cacheStats().entries, 0);
+});
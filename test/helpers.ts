@@ -0,0 +1,100 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import winston from 'winston';
+import { AuditLog, MemoryAuditStore } from '../src/audit-log.js';
+import { AuthManager, TokenScope } from '../src/auth.js';
+import { ChangeJournal, ChangeJournalOptions } from '../src/change-journal.js';
+import { DryRunPreviewer } from '../src/dry-run.js';
+import { handleMCPMessage, MCPMessageHandlerDependencies } from '../src/handlers/mcp-message.js';
+import { createMockApp } from '../src/mock/app.js';
+import { InMemoryBacklogStore } from '../src/mock/store.js';
+import { ProjectResolver } from '../src/project-resolver.js';
+import { PromptManager } from '../src/prompts.js';
+import { RateLimitManager, RateLimitOptions } from '../src/rate-limiter.js';
+import { ResourceManager } from '../src/resources.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { AuthToken, TokenType } from '../src/types.js';
+import { UpstreamClientPool } from '../src/upstream-clients.js';
+
+export const silentLogger = winston.createLogger({ silent: true });
+
+export interface TestBackend {
+  // Backing store of the mock HyperManager API, seeded with the DEMO project
+  store: InMemoryBacklogStore;
+  deps: MCPMessageHandlerDependencies;
+  // Number of requests the mock API received
+  upstreamRequests(): number;
+  token(type: TokenType, scope?: TokenScope): AuthToken;
+  request(authToken: AuthToken, method: string, params?: unknown): Promise<any>;
+  // tools/call, returning the parsed JSON of the first content item
+  callTool(authToken: AuthToken, name: string, args?: unknown): Promise<any>;
+  close(): Promise<void>;
+}
+
+/**
+ * The dispatcher wired as in src/index.ts, with memory stores, in front of
+ * the mock HyperManager API listening on a free port
+ */
+export async function startTestBackend(options: { rateLimits?: RateLimitOptions; changeJournal?: ChangeJournalOptions } = {}): Promise<TestBackend> {
+  const store = new InMemoryBacklogStore({ seed: true });
+  let received = 0;
+  const app = createMockApp(store);
+  const mock: Server = await new Promise(resolve => {
+    const server = app.listen(0, () => resolve(server));
+  });
+  mock.on('request', () => { received++; });
+
+  const upstreamClients = new UpstreamClientPool('test-key', {
+    client: { baseURL: `http://127.0.0.1:${(mock.address() as AddressInfo).port}`, retries: 0 },
+    secret: 'test-secret'
+  });
+  const client = upstreamClients.backend;
+  const authManager = new AuthManager('test-secret');
+  const projectResolver = new ProjectResolver(client, silentLogger);
+  const rateLimiter = new RateLimitManager(silentLogger, options.rateLimits);
+  const auditLog = new AuditLog(new MemoryAuditStore(), projectResolver, silentLogger);
+  const changeJournal = new ChangeJournal(client, projectResolver, silentLogger, options.changeJournal ?? { kind: 'memory' });
+  const deps: MCPMessageHandlerDependencies = {
+    resourceManager: new ResourceManager(client),
+    promptManager: new PromptManager(client),
+    authManager,
+    toolRegistry: createToolRegistry(client, auditLog, changeJournal, upstreamClients.operations),
+    projectResolver,
+    rateLimiter,
+    auditLog,
+    dryRunPreviewer: new DryRunPreviewer(client, projectResolver, silentLogger),
+    changeJournal,
+    upstreamClients,
+    logger: silentLogger
+  };
+
+  let requestId = 0;
+  const request = async (authToken: AuthToken, method: string, params?: unknown) =>
+    (await handleMCPMessage({ jsonrpc: '2.0', id: ++requestId, method, params }, authToken, `test-${requestId}`, deps)).result;
+
+  return {
+    store,
+    deps,
+    upstreamRequests: () => received,
+    token: (type, scope = {}) => authManager.verifyToken(authManager.generateToken(type, undefined, undefined, scope))!,
+    request,
+    callTool: async (authToken, name, args = {}) => {
+      const result = await request(authToken, 'tools/call', { name, arguments: args });
+      if (result.isError) {
+        throw new Error(result.content[0].text);
+      }
+      const text: string = result.content[0].text;
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    },
+    close: async () => {
+      rateLimiter.shutdown();
+      await auditLog.flush();
+      await changeJournal.flush();
+      await new Promise(resolve => mock.close(resolve));
+    }
+  };
+}
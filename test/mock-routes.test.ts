@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { createMockApp } from '../src/mock/app.js';
+import { InMemoryBacklogStore } from '../src/mock/store.js';
+
+// `GET /diagram/png/{}`: parameter names differ between swagger.yml and Express
+function normalize(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path.replace(/\{[^}]+\}|:[^/]+/g, '{}')}`;
+}
+
+test('the mock serves exactly the operations of swagger.yml', () => {
+  // Paths sit two spaces in, their operations four, in the `paths:` section
+  const specified: string[] = [];
+  let path: string | undefined;
+  for (const line of fs.readFileSync(new URL('../swagger.yml', import.meta.url), 'utf8').split('\n')) {
+    const pathMatch = line.match(/^  "?(\/[^":]*)"?:\s*$/);
+    const operationMatch = line.match(/^    (get|post|put|patch|delete):/);
+    if (pathMatch) {
+      path = pathMatch[1];
+    } else if (operationMatch && path) {
+      specified.push(normalize(operationMatch[1]!, path));
+    } else if (/^\S/.test(line)) {
+      path = undefined;
+    }
+  }
+
+  const app = createMockApp(new InMemoryBacklogStore()) as unknown as {
+    _router: { stack: Array<{ route?: { path: string; methods: Record<string, boolean> } }> };
+  };
+  const served = app._router.stack.flatMap(layer => layer.route
+    ? Object.keys(layer.route.methods).map(method => normalize(method, layer.route!.path))
+    : []);
+
+  assert.deepEqual([...served].sort(), [...specified].sort());
+});
@@ -0,0 +1,80 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import winston from 'winston';
+import { AuthManager } from '../src/auth.js';
+import { OAuthError, OAuthManager } from '../src/oauth.js';
+
+const logger = winston.createLogger({ silent: true });
+const authManager = new AuthManager('oauth-test-secret');
+const oauth = new OAuthManager(authManager, logger);
+
+after(() => oauth.shutdown());
+
+const REDIRECT_URI = 'http://127.0.0.1:8765/callback';
+const verifier = crypto.randomBytes(32).toString('base64url');
+const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+// Register a public client and get a code approved by a fresh team token
+function authorize(params: Record<string, unknown> = { redirect_uri: REDIRECT_URI }) {
+  const { client } = oauth.registerClient({ client_name: 'Test client', redirect_uris: [REDIRECT_URI] });
+  const approver = authManager.verifyToken(authManager.generateToken('team'))!;
+  const request = oauth.validateAuthorizationRequest(oauth.resolveRedirect(client.clientId, params['redirect_uri']), {
+    response_type: 'code',
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+    ...params
+  });
+  const code = oauth.createAuthorizationCode(request, approver, 'readonly');
+  return { client, approver, code };
+}
+
+function assertOAuthError(operation: () => unknown, code: string) {
+  assert.throws(operation, (error: unknown) => error instanceof OAuthError && error.code === code);
+}
+
+test('a code is exchanged once, with the verifier matching its challenge', () => {
+  const { client, code } = authorize();
+
+  assertOAuthError(() => oauth.exchangeAuthorizationCode(client, {
+    code, redirect_uri: REDIRECT_URI, code_verifier: crypto.randomBytes(32).toString('base64url')
+  }), 'invalid_grant');
+
+  const { client: other, code: second } = authorize();
+  const tokens = oauth.exchangeAuthorizationCode(other, { code: second, redirect_uri: REDIRECT_URI, code_verifier: verifier });
+  assert.equal(tokens.scope, 'readonly');
+  assert.equal(authManager.verifyToken(tokens.access_token)?.type, 'readonly');
+
+  assertOAuthError(() => oauth.exchangeAuthorizationCode(other, {
+    code: second, redirect_uri: REDIRECT_URI, code_verifier: verifier
+  }), 'invalid_grant');
+});
+
+test('redirect_uri must be repeated when the authorization request sent it', () => {
+  const { client, code } = authorize();
+  assertOAuthError(() => oauth.exchangeAuthorizationCode(client, { code, code_verifier: verifier }), 'invalid_grant');
+
+  const { client: implicit, code: implicitCode } = authorize({});
+  assert.ok(oauth.exchangeAuthorizationCode(implicit, { code: implicitCode, code_verifier: verifier }).access_token);
+});
+
+test('a code approved by a token revoked since then is refused', () => {
+  const { client, approver, code } = authorize();
+  authManager.revokeToken(approver.id);
+
+  assertOAuthError(() => oauth.exchangeAuthorizationCode(client, {
+    code, redirect_uri: REDIRECT_URI, code_verifier: verifier
+  }), 'invalid_grant');
+});
+
+test('refresh tokens rotate and die with the approving token', () => {
+  const { client, approver, code } = authorize();
+  const first = oauth.exchangeAuthorizationCode(client, { code, redirect_uri: REDIRECT_URI, code_verifier: verifier });
+
+  const second = oauth.refresh(client, { refresh_token: first.refresh_token });
+  assert.notEqual(second.refresh_token, first.refresh_token);
+  assertOAuthError(() => oauth.refresh(client, { refresh_token: first.refresh_token }), 'invalid_grant');
+
+  authManager.revokeToken(approver.id);
+  assertOAuthError(() => oauth.refresh(client, { refresh_token: second.refresh_token }), 'invalid_grant');
+});
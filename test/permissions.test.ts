@@ -0,0 +1,38 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ServerErrorCode } from '../src/error-codes.js';
+import { startTestBackend, TestBackend } from './helpers.js';
+
+const STORY = '000000000000000000000004';
+
+let backend: TestBackend;
+
+before(async () => {
+  backend = await startTestBackend();
+});
+
+after(async () => {
+  await backend.close();
+});
+
+async function assertDenied(operation: Promise<unknown>, message: RegExp) {
+  await assert.rejects(operation, (error: unknown) => error instanceof McpError
+    && error.code === ServerErrorCode.PermissionDenied && message.test(error.message));
+}
+
+test('a custom token can call only the tools its permissions cover', async () => {
+  const token = backend.token('custom', { permissions: ['projects:read', 'stories:read'] });
+  const received = backend.upstreamRequests();
+
+  assert.ok(Array.isArray(await backend.callTool(token, 'list_projects')));
+  assert.equal((await backend.callTool(token, 'get_story_tree', { storyId: STORY })).id, STORY);
+  await assertDenied(
+    backend.callTool(token, 'update_story', { data: { id: STORY, objective: 'not allowed' } }),
+    /Insufficient permissions/
+  );
+  await assertDenied(backend.callTool(token, 'list_diagrams'), /Insufficient permissions/);
+
+  // Denied calls never reach HyperManager
+  assert.equal(backend.upstreamRequests() - received, 2);
+});
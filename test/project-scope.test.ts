@@ -0,0 +1,41 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ServerErrorCode } from '../src/error-codes.js';
+import { startTestBackend, TestBackend } from './helpers.js';
+
+const STORY = '000000000000000000000004';
+const FEATURE = '000000000000000000000007';
+
+let backend: TestBackend;
+
+before(async () => {
+  backend = await startTestBackend();
+});
+
+after(async () => {
+  await backend.close();
+});
+
+async function assertDenied(operation: Promise<unknown>, message: RegExp) {
+  await assert.rejects(operation, (error: unknown) => error instanceof McpError
+    && error.code === ServerErrorCode.PermissionDenied && message.test(error.message));
+}
+
+test('a project-scoped token is refused other projects, by code or through a story or feature', async () => {
+  const token = backend.token('team', { projects: ['OTHER'] });
+
+  await assertDenied(backend.callTool(token, 'get_project_tree', { project: 'DEMO' }), /project DEMO/);
+  await assertDenied(backend.callTool(token, 'get_story_tree', { storyId: STORY }), /story/);
+  await assertDenied(backend.callTool(token, 'add_child_feature', { parent: FEATURE, data: { name: 'Not allowed' } }), /feature/);
+  await assertDenied(backend.request(token, 'resources/read', { uri: 'resource://projects/DEMO/tree' }), /project DEMO/);
+
+  // Listings only show the projects the token may access
+  assert.deepEqual(await backend.callTool(token, 'list_projects'), []);
+});
+
+test('a project-scoped token works inside its projects', async () => {
+  const token = backend.token('team', { projects: ['DEMO'] });
+  assert.equal((await backend.callTool(token, 'get_story_tree', { storyId: STORY })).id, STORY);
+  assert.deepEqual((await backend.callTool(token, 'list_projects')).map((project: { code: string }) => project.code), ['DEMO']);
+});
@@ -0,0 +1,47 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestBackend, TestBackend } from './helpers.js';
+
+const STORY = '000000000000000000000004';
+
+let backend: TestBackend;
+
+before(async () => {
+  backend = await startTestBackend();
+});
+
+after(async () => {
+  await backend.close();
+});
+
+test('the daily upstream quota counts the requests HyperManager receives', async () => {
+  const token = backend.token('team', { projects: ['DEMO'] });
+  const received = backend.upstreamRequests();
+
+  // The second listing is a cache hit
+  await backend.callTool(token, 'list_projects');
+  await backend.callTool(token, 'list_projects');
+  // Finding the project of the story reaches HyperManager too
+  await backend.callTool(token, 'get_story_tree', { storyId: STORY });
+  // Snapshots before and after the write reach HyperManager too
+  await backend.callTool(token, 'update_story', { data: { id: STORY, objective: 'find products faster' } });
+  await backend.callTool(token, 'update_story', { data: { id: STORY, objective: 'not sent' }, dryRun: true });
+
+  const usage = backend.deps.rateLimiter.getUsage(token);
+  assert.equal(usage.day.upstreamCalls, backend.upstreamRequests() - received);
+  assert.equal(usage.window.reads, 4);
+  assert.equal(usage.window.writes, 1);
+});
+
+test('a batch takes no budget slot besides its operations', async () => {
+  const token = backend.token('team');
+
+  const result = await backend.callTool(token, 'apply_backlog_batch', {
+    operations: [
+      { tool: 'add_actor', arguments: { project: 'DEMO', data: { name: 'Auditor' } } },
+      { tool: 'add_story_to_actor', arguments: { project: 'DEMO', name: 'Auditor', data: { action: 'review orders' } } }
+    ]
+  });
+  assert.equal(result.status, 'completed');
+  assert.equal(backend.deps.rateLimiter.getUsage(token).window.writes, 2);
+});
@@ -0,0 +1,52 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestBackend, TestBackend } from './helpers.js';
+
+const STORY = '000000000000000000000004';
+
+let backend: TestBackend;
+
+before(async () => {
+  backend = await startTestBackend();
+});
+
+after(async () => {
+  await backend.close();
+});
+
+// The story as found in the DEMO project tree
+function storyIn(tree: any): any {
+  return tree.actors.flatMap((actor: any) => actor.stories).find((story: any) => story.id === STORY);
+}
+
+test('a write drops the cached reads that hold what it changed, and only those', async () => {
+  const token = backend.token('team');
+  await backend.callTool(token, 'get_story_tree', { storyId: STORY });
+  await backend.callTool(token, 'get_project_tree', { project: 'DEMO' });
+  await backend.callTool(token, 'list_diagrams');
+
+  let received = backend.upstreamRequests();
+  await backend.callTool(token, 'get_story_tree', { storyId: STORY });
+  await backend.callTool(token, 'list_diagrams');
+  assert.equal(backend.upstreamRequests(), received, 'second reads are cache hits');
+
+  await backend.callTool(token, 'update_story', { data: { id: STORY, objective: 'compare products' } });
+
+  assert.equal((await backend.callTool(token, 'get_story_tree', { storyId: STORY })).objective, 'compare products');
+  assert.equal(storyIn(await backend.callTool(token, 'get_project_tree', { project: 'DEMO' })).objective, 'compare products');
+  received = backend.upstreamRequests();
+  await backend.callTool(token, 'list_diagrams');
+  assert.equal(backend.upstreamRequests(), received, 'the diagram list is still cached');
+});
+
+test('identical concurrent reads share one upstream request', async () => {
+  const token = backend.token('team');
+  const story = await backend.callTool(token, 'add_story_to_actor', { project: 'DEMO', name: 'Customer', data: { action: 'share a cart' } });
+  const { coalesced } = backend.deps.upstreamClients.defaultClient.cacheStats();
+
+  const received = backend.upstreamRequests();
+  const trees = await Promise.all([1, 2, 3].map(() => backend.callTool(token, 'get_story_tree', { storyId: story.id })));
+  assert.deepEqual(trees.map(tree => tree.action), ['share a cart', 'share a cart', 'share a cart']);
+  assert.equal(backend.upstreamRequests() - received, 1);
+  assert.equal(backend.deps.upstreamClients.defaultClient.cacheStats().coalesced - coalesced, 2);
+});
@@ -0,0 +1,109 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess, execFile, spawn } from 'child_process';
+import { Server } from 'http';
+import { AddressInfo, createServer } from 'net';
+import { fileURLToPath } from 'url';
+import { createMockApp } from '../src/mock/app.js';
+import { InMemoryBacklogStore } from '../src/mock/store.js';
+
+// The repository's own client scripts, run against the MCP server backed by the mock API
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const BASE_PATH = '/backlog-mcp';
+const TOKEN = 'test-scripts-master-token';
+
+let mock: Server;
+let server: ChildProcess;
+let serverUrl: string;
+let serverOutput = '';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer().listen(0, () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+    probe.on('error', reject);
+  });
+}
+
+async function waitForHealth(url: string, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (server.exitCode !== null) {
+      throw new Error(`MCP server exited with ${server.exitCode}:\n${serverOutput}`);
+    }
+    try {
+      if ((await fetch(`${url}/health`)).ok) {
+        return;
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  throw new Error(`MCP server did not answer /health within ${timeoutMs} ms:\n${serverOutput}`);
+}
+
+function runScript(script: string, env: Record<string, string>): Promise<{ code: number; output: string }> {
+  return new Promise(resolve => {
+    execFile(process.execPath, [script], { cwd: ROOT, env: { ...process.env, ...env }, timeout: 60000 }, (error, stdout, stderr) => {
+      resolve({ code: error ? (typeof error.code === 'number' ? error.code : 1) : 0, output: stdout + stderr });
+    });
+  });
+}
+
+before(async () => {
+  mock = createMockApp(new InMemoryBacklogStore({ seed: true })).listen(0);
+  const mockPort = (mock.address() as AddressInfo).port;
+  const port = await freePort();
+
+  server = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    cwd: ROOT,
+    env: {
+      ...process.env,
+      NODE_ENV: 'test',
+      PORT: String(port),
+      BASE_PATH,
+      HYPERMANAGER_API_KEY: 'dev',
+      HYPERMANAGER_BASE_URL: `http://127.0.0.1:${mockPort}`,
+      MCP_SERVER_SECRET: 'test-scripts-secret',
+      ALLOWED_TOKENS: TOKEN,
+      TOKEN_STORE: 'memory',
+      AUDIT_LOG: 'memory',
+      CHANGE_JOURNAL: 'memory'
+    },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+  server.stdout?.on('data', chunk => { serverOutput += chunk; });
+  server.stderr?.on('data', chunk => { serverOutput += chunk; });
+
+  serverUrl = `http://127.0.0.1:${port}`;
+  await waitForHealth(`${serverUrl}${BASE_PATH}`, 60000);
+});
+
+after(async () => {
+  if (server.exitCode === null) {
+    const exited = new Promise(resolve => server.once('exit', resolve));
+    server.kill();
+    await exited;
+  }
+  await new Promise(resolve => mock.close(resolve));
+});
+
+test('scripts/test-connection.js passes against the mock', async () => {
+  const { code, output } = await runScript('scripts/test-connection.js', {
+    SERVER_URL: `${serverUrl}${BASE_PATH}`,
+    MCP_AUTH_TOKEN: TOKEN
+  });
+  assert.equal(code, 0, output);
+});
+
+test('test-mcp-complete.js passes against the mock', async () => {
+  const { code, output } = await runScript('test-mcp-complete.js', {
+    SERVER_URL: serverUrl,
+    BASE_PATH,
+    MCP_AUTH_TOKEN: TOKEN
+  });
+  assert.equal(code, 0, output);
+});
@@ -0,0 +1,34 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuthManager } from '../src/auth.js';
+import { JsonFileTokenStore } from '../src/token-store.js';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'token-store-'));
+
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+test('upstream credentials survive reopening the token file', () => {
+  const filePath = path.join(directory, 'tokens.json');
+  const store = new JsonFileTokenStore(filePath);
+  const createdAt = new Date('2024-01-01T00:00:00Z');
+  store.saveToken({ id: 'named', type: 'team', permissions: [], upstream: { apiKeyRef: 'acme' }, createdAt });
+  store.saveToken({ id: 'own', type: 'team', permissions: [], upstream: { encryptedApiKey: 'v1:abc' }, createdAt });
+  store.flush();
+
+  const reopened = new JsonFileTokenStore(filePath);
+  assert.deepEqual(reopened.getToken('named')?.upstream, { apiKeyRef: 'acme' });
+  assert.deepEqual(reopened.getToken('own')?.upstream, { encryptedApiKey: 'v1:abc' });
+});
+
+test('a token generated with its own API key acts under it after a restart', () => {
+  const filePath = path.join(directory, 'restart.json');
+  const token = new AuthManager('secret', [], new JsonFileTokenStore(filePath))
+    .generateToken('team', undefined, undefined, { upstream: { apiKey: 'tenant-key' } });
+
+  const restarted = new AuthManager('secret', [], new JsonFileTokenStore(filePath));
+  const upstream = restarted.verifyToken(token)?.upstream;
+  assert.ok(upstream && 'encryptedApiKey' in upstream);
+});